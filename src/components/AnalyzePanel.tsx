@@ -0,0 +1,260 @@
+import { useState, useCallback, useRef, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { ScanSearch, AlertCircle, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+  ChartConfig,
+} from '@/components/ui/chart';
+import { ImageDropzone } from './ImageDropzone';
+import { TaskProgress } from './TaskProgress';
+import { isJpeg } from '@/lib/jpeg';
+import { analyzeImageInWorker, TaskCancelledError } from '@/lib/stegoEngine';
+import { ImageAnalysis, AnalysisChannel, AnalysisVerdict, CHI_SQUARE_STEPS } from '@/lib/steganalysis';
+
+const CHANNEL_LABELS: Record<AnalysisChannel, string> = {
+  red: 'Red',
+  green: 'Green',
+  blue: 'Blue',
+};
+
+const rateChartConfig = {
+  rs: { label: 'RS analysis', color: 'hsl(var(--primary))' },
+  spa: { label: 'Sample pairs', color: 'hsl(195 80% 45%)' },
+} satisfies ChartConfig;
+
+const chiSquareChartConfig = {
+  red: { label: 'Red', color: 'hsl(0 70% 55%)' },
+  green: { label: 'Green', color: 'hsl(150 70% 45%)' },
+  blue: { label: 'Blue', color: 'hsl(215 80% 60%)' },
+} satisfies ChartConfig;
+
+const VERDICTS: Record<AnalysisVerdict, { title: string; className: string; icon: typeof ShieldAlert }> = {
+  likely: { title: 'Hidden data likely', className: 'text-destructive', icon: ShieldAlert },
+  suspicious: { title: 'Possibly hidden data', className: 'text-primary', icon: AlertCircle },
+  clean: { title: 'No sign of LSB embedding', className: 'text-success', icon: ShieldCheck },
+};
+
+function formatRate(rate: number | null): string {
+  return rate === null ? 'n/a' : `${(rate * 100).toFixed(1)}%`;
+}
+
+function toPercent(rate: number | null): number | null {
+  return rate === null ? null : Math.round(rate * 1000) / 10;
+}
+
+export function AnalyzePanel() {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [analysis, setAnalysis] = useState<ImageAnalysis | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const taskController = useRef<AbortController | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImageSelect = useCallback((file: File) => {
+    setSelectedFile(file);
+    setAnalysis(null);
+    setError(null);
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      setImagePreview(e.target?.result as string);
+    };
+    reader.readAsDataURL(file);
+  }, []);
+
+  const handleClearImage = useCallback(() => {
+    setSelectedFile(null);
+    setImagePreview(null);
+    setAnalysis(null);
+    setError(null);
+  }, []);
+
+  const handleAnalyze = useCallback(async () => {
+    if (!selectedFile) return;
+
+    setIsProcessing(true);
+    setError(null);
+    setAnalysis(null);
+    setProgress(0);
+    const controller = new AbortController();
+    taskController.current = controller;
+
+    try {
+      const bytes = new Uint8Array(await selectedFile.arrayBuffer());
+      if (isJpeg(bytes)) {
+        throw new Error('JPEG compression wipes pixel LSBs, so only lossless images can be analyzed.');
+      }
+      setAnalysis(await analyzeImageInWorker(selectedFile, { onProgress: setProgress, signal: controller.signal }));
+    } catch (err) {
+      if (!(err instanceof TaskCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Analysis failed');
+      }
+    } finally {
+      taskController.current = null;
+      setIsProcessing(false);
+    }
+  }, [selectedFile]);
+
+  const rateData = useMemo(
+    () =>
+      analysis?.channels.map((channel) => ({
+        channel: CHANNEL_LABELS[channel.channel],
+        rs: toPercent(channel.rs),
+        spa: toPercent(channel.spa),
+      })) ?? [],
+    [analysis]
+  );
+
+  const chiSquareData = useMemo(() => {
+    if (!analysis) return [];
+    return Array.from({ length: CHI_SQUARE_STEPS }, (_, step) => ({
+      share: Math.round(((step + 1) * 100) / CHI_SQUARE_STEPS),
+      ...Object.fromEntries(
+        analysis.channels.map((channel) => [channel.channel, toPercent(channel.chiSquare[step])])
+      ),
+    }));
+  }, [analysis]);
+
+  const verdict = analysis ? VERDICTS[analysis.verdict] : null;
+
+  return (
+    <div className="space-y-6">
+      <ImageDropzone
+        onImageSelect={handleImageSelect}
+        selectedImage={imagePreview}
+        onClear={handleClearImage}
+      />
+
+      <p className="text-xs text-muted-foreground">
+        Checks any image for LSB data, whichever tool hid it, with the chi-square attack, RS analysis
+        and sample pair analysis. The results are statistical estimates: a short message can go
+        unnoticed and a noisy image can look suspicious.
+      </p>
+
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 border border-destructive/30"
+        >
+          <AlertCircle className="w-4 h-4 text-destructive flex-shrink-0" />
+          <span className="text-sm text-destructive">{error}</span>
+        </motion.div>
+      )}
+
+      {analysis && verdict && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="space-y-4"
+        >
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-muted/30 border border-border">
+            <verdict.icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${verdict.className}`} />
+            <div className="space-y-1">
+              <p className={`text-sm font-medium ${verdict.className}`}>{verdict.title}</p>
+              <p className="text-xs text-muted-foreground">
+                {analysis.embeddingRate === null
+                  ? 'The image is too small to estimate an embedding rate; the verdict rests on the chi-square test.'
+                  : `An estimated ${formatRate(analysis.embeddingRate)} of the RGB samples carry replaced LSBs.`}
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-foreground">Estimated embedding rate per channel</h3>
+            <ChartContainer config={rateChartConfig} className="aspect-auto h-56 w-full">
+              <BarChart data={rateData} margin={{ left: -16 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="channel" tickLine={false} axisLine={false} />
+                <YAxis unit="%" domain={[0, 100]} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent formatter={(value) => `${value}%`} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="rs" fill="var(--color-rs)" radius={4} />
+                <Bar dataKey="spa" fill="var(--color-spa)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+            <ul className="space-y-1">
+              {analysis.channels.map((channel) => (
+                <li key={channel.channel} className="flex justify-between text-xs font-mono text-muted-foreground">
+                  <span>{CHANNEL_LABELS[channel.channel]}</span>
+                  <span>
+                    RS {formatRate(channel.rs)} · SPA {formatRate(channel.spa)} · estimate{' '}
+                    <span className="text-foreground">{formatRate(channel.embeddingRate)}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-foreground">Chi-square probability of embedding</h3>
+            <ChartContainer config={chiSquareChartConfig} className="aspect-auto h-56 w-full">
+              <LineChart data={chiSquareData} margin={{ left: -16 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="share" unit="%" tickLine={false} axisLine={false} />
+                <YAxis unit="%" domain={[0, 100]} tickLine={false} axisLine={false} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) => `First ${payload[0]?.payload.share}% of the image`}
+                      formatter={(value) => `${value}%`}
+                    />
+                  }
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                {analysis.channels.map((channel) => (
+                  <Line
+                    key={channel.channel}
+                    dataKey={channel.channel}
+                    stroke={`var(--color-${channel.channel})`}
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ChartContainer>
+            <p className="text-xs text-muted-foreground">
+              Measured over a growing share of the pixels, row by row. A message written from the top
+              keeps the probability high up to where it ends.
+            </p>
+          </div>
+        </motion.div>
+      )}
+
+      {isProcessing && (
+        <>
+          <TaskProgress message="Analyzing..." progress={progress} />
+          <Button variant="outline" onClick={() => taskController.current?.abort()} className="w-full">
+            Cancel
+          </Button>
+        </>
+      )}
+
+      <Button
+        onClick={handleAnalyze}
+        disabled={!selectedFile || isProcessing}
+        className="w-full h-12 bg-primary hover:bg-primary/90 text-primary-foreground font-medium glow-primary disabled:opacity-50 disabled:glow-none"
+      >
+        {isProcessing ? (
+          <motion.div
+            animate={{ rotate: 360 }}
+            transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+            className="w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full"
+          />
+        ) : (
+          <>
+            <ScanSearch className="w-5 h-5 mr-2" />
+            Analyze Image
+          </>
+        )}
+      </Button>
+    </div>
+  );
+}
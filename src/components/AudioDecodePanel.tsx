@@ -0,0 +1,229 @@
+import { useState, useCallback, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { Unlock, Copy, AlertCircle, CheckCircle2, Download, FileText, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AudioDropzone } from './AudioDropzone';
+import { PassphraseInput } from './PassphraseInput';
+import { TaskProgress } from './TaskProgress';
+import { downloadBlob, EncryptedPayloadError, IntegrityStatus, BlobPayload } from '@/lib/steganography';
+import { loadAudio, describeAudio, AudioCarrier } from '@/lib/audioSteganography';
+import { decodeAudioInWorker, TaskCancelledError } from '@/lib/stegoEngine';
+
+export function AudioDecodePanel() {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [audio, setAudio] = useState<AudioCarrier | null>(null);
+  const [decoded, setDecoded] = useState<BlobPayload | null>(null);
+  const [integrity, setIntegrity] = useState<IntegrityStatus>('unchecked');
+  const [passphrase, setPassphrase] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const taskController = useRef<AbortController | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleAudioSelect = useCallback(async (file: File) => {
+    setSelectedFile(file);
+    setDecoded(null);
+    setError(null);
+    setIsProcessing(true);
+
+    try {
+      setAudio(await loadAudio(file));
+    } catch (err) {
+      setSelectedFile(null);
+      setAudio(null);
+      setError(err instanceof Error ? err.message : 'Failed to load audio');
+    } finally {
+      setIsProcessing(false);
+    }
+  }, []);
+
+  const handleClear = useCallback(() => {
+    setSelectedFile(null);
+    setAudio(null);
+    setDecoded(null);
+    setError(null);
+  }, []);
+
+  const handleDecode = useCallback(async () => {
+    if (!audio) return;
+
+    setIsProcessing(true);
+    setIsDecoding(true);
+    setError(null);
+    setDecoded(null);
+    setProgress(0);
+    const controller = new AbortController();
+    taskController.current = controller;
+
+    try {
+      const result = await decodeAudioInWorker(
+        audio,
+        { passphrase },
+        { onProgress: setProgress, signal: controller.signal }
+      );
+      setDecoded(result.payload);
+      setIntegrity(result.integrity);
+    } catch (err) {
+      if (err instanceof EncryptedPayloadError) {
+        setError('This audio holds an encrypted message. Enter the passphrase to unlock it.');
+      } else if (!(err instanceof TaskCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Decoding failed');
+      }
+    } finally {
+      taskController.current = null;
+      setIsProcessing(false);
+      setIsDecoding(false);
+    }
+  }, [audio, passphrase]);
+
+  const handleCopy = useCallback(async () => {
+    if (decoded?.type !== 'text') return;
+
+    await navigator.clipboard.writeText(decoded.text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }, [decoded]);
+
+  const handleDownloadFile = useCallback(() => {
+    if (decoded?.type !== 'file') return;
+
+    downloadBlob(decoded.blob, decoded.name);
+  }, [decoded]);
+
+  return (
+    <div className="space-y-6">
+      <AudioDropzone
+        onAudioSelect={handleAudioSelect}
+        selectedAudio={
+          selectedFile && audio ? { name: selectedFile.name, details: describeAudio(audio) } : null
+        }
+        onClear={handleClear}
+        disabled={isProcessing}
+      />
+
+      <PassphraseInput
+        id="audio-decode-passphrase"
+        label="Passphrase"
+        value={passphrase}
+        onChange={setPassphrase}
+        hint="Only needed if the message was encrypted."
+        disabled={isProcessing}
+      />
+
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 border border-destructive/30"
+        >
+          <AlertCircle className="w-4 h-4 text-destructive flex-shrink-0" />
+          <span className="text-sm text-destructive">{error}</span>
+        </motion.div>
+      )}
+
+      {decoded !== null && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="space-y-3"
+        >
+          <div className="flex items-center justify-between">
+            {integrity === 'corrupted' ? (
+              <div className="flex items-center gap-2">
+                <ShieldAlert className="w-4 h-4 text-destructive" />
+                <span className="text-sm font-medium text-destructive">Payload corrupted</span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <CheckCircle2 className="w-4 h-4 text-success" />
+                <span className="text-sm font-medium text-success">
+                  {decoded.type === 'file' ? 'Hidden file found!' : 'Hidden message found!'}
+                </span>
+              </div>
+            )}
+            {decoded.type === 'text' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleCopy}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <Copy className="w-4 h-4 mr-1" />
+                {copied ? 'Copied!' : 'Copy'}
+              </Button>
+            )}
+          </div>
+          {decoded.type === 'text' ? (
+            <div className="p-4 rounded-lg bg-muted/30 border border-border">
+              <p className="font-mono text-sm text-foreground whitespace-pre-wrap break-words">
+                {decoded.text}
+              </p>
+            </div>
+          ) : (
+            <div className="flex items-center gap-3 p-4 rounded-lg bg-muted/30 border border-border">
+              <FileText className="w-5 h-5 text-primary flex-shrink-0" />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium text-foreground truncate">{decoded.name}</p>
+                <p className="text-xs font-mono text-muted-foreground">
+                  {decoded.mimeType} · {decoded.blob.size.toLocaleString()} bytes
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleDownloadFile}>
+                <Download className="w-4 h-4 mr-1" />
+                Download extracted file
+              </Button>
+            </div>
+          )}
+          <div
+            className={`flex items-center gap-2 text-xs ${
+              integrity === 'corrupted' ? 'text-destructive' : 'text-muted-foreground'
+            }`}
+          >
+            {integrity === 'verified' ? (
+              <ShieldCheck className="w-4 h-4 text-success flex-shrink-0" />
+            ) : (
+              <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+            )}
+            <span>
+              {integrity === 'verified'
+                ? 'Integrity verified: the checksum matches.'
+                : integrity === 'corrupted'
+                  ? 'The checksum does not match. The content above is damaged or was tampered with.'
+                  : 'No checksum in this audio, integrity cannot be verified.'}
+            </span>
+          </div>
+        </motion.div>
+      )}
+
+      {isDecoding && (
+        <>
+          <TaskProgress message="Decoding..." progress={progress} />
+          <Button variant="outline" onClick={() => taskController.current?.abort()} className="w-full">
+            Cancel
+          </Button>
+        </>
+      )}
+
+      <Button
+        onClick={handleDecode}
+        disabled={!audio || isProcessing}
+        className="w-full h-12 bg-primary hover:bg-primary/90 text-primary-foreground font-medium glow-primary disabled:opacity-50 disabled:glow-none"
+      >
+        {isProcessing ? (
+          <motion.div
+            animate={{ rotate: 360 }}
+            transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+            className="w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full"
+          />
+        ) : (
+          <>
+            <Unlock className="w-5 h-5 mr-2" />
+            Decode Hidden Message
+          </>
+        )}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useCallback, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Upload, Music, X } from 'lucide-react';
+
+interface AudioDropzoneProps {
+  onAudioSelect: (file: File) => void;
+  // Name and a short description (length, format) of the loaded file
+  selectedAudio: { name: string; details: string } | null;
+  onClear: () => void;
+  disabled?: boolean;
+}
+
+export function AudioDropzone({ onAudioSelect, selectedAudio, onClear, disabled }: AudioDropzoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleDrag = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+  }, []);
+
+  const handleDragIn = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!disabled) setIsDragging(true);
+  }, [disabled]);
+
+  const handleDragOut = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+  }, []);
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setIsDragging(false);
+
+      if (disabled) return;
+
+      const files = e.dataTransfer.files;
+      if (files && files.length > 0) {
+        const file = files[0];
+        // Soundtracks of videos are decoded too
+        if (file.type.startsWith('audio/') || file.type.startsWith('video/') || /\.wav$/i.test(file.name)) {
+          onAudioSelect(file);
+        }
+      }
+    },
+    [onAudioSelect, disabled]
+  );
+
+  const handleFileSelect = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = e.target.files;
+      if (files && files.length > 0) {
+        onAudioSelect(files[0]);
+      }
+    },
+    [onAudioSelect]
+  );
+
+  return (
+    <div className="relative">
+      <AnimatePresence mode="wait">
+        {selectedAudio ? (
+          <motion.div
+            key="preview"
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="relative rounded-lg overflow-hidden border border-border bg-card"
+          >
+            <div className="flex items-center gap-4 w-full h-32 px-6 bg-muted/50">
+              <div className="p-3 rounded-full bg-background/80 border border-border">
+                <Music className="w-6 h-6 text-primary" />
+              </div>
+              <div className="min-w-0 pr-10">
+                <p className="text-foreground font-medium truncate">{selectedAudio.name}</p>
+                <p className="text-sm text-muted-foreground">{selectedAudio.details}</p>
+              </div>
+            </div>
+            <button
+              onClick={onClear}
+              disabled={disabled}
+              className="absolute top-3 right-3 p-2 rounded-full bg-background/80 hover:bg-background border border-border transition-colors disabled:opacity-50"
+            >
+              <X className="w-4 h-4 text-muted-foreground" />
+            </button>
+          </motion.div>
+        ) : (
+          <motion.label
+            key="dropzone"
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            onDragEnter={handleDragIn}
+            onDragLeave={handleDragOut}
+            onDragOver={handleDrag}
+            onDrop={handleDrop}
+            className={`
+              relative flex flex-col items-center justify-center
+              w-full h-64 rounded-lg border-2 border-dashed
+              transition-all duration-300
+              ${disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}
+              ${
+                isDragging
+                  ? 'border-primary bg-primary/10 glow-primary'
+                  : 'border-border hover:border-primary/50 hover:bg-muted/30'
+              }
+            `}
+          >
+            <input
+              type="file"
+              accept="audio/wav,audio/x-wav,.wav,audio/*,video/*"
+              onChange={handleFileSelect}
+              className="hidden"
+              disabled={disabled}
+            />
+            
+            <motion.div
+              animate={isDragging ? { scale: 1.1 } : { scale: 1 }}
+              className="flex flex-col items-center gap-4"
+            >
+              <div className="p-4 rounded-full bg-muted">
+                {isDragging ? (
+                  <Music className="w-8 h-8 text-primary" />
+                ) : (
+                  <Upload className="w-8 h-8 text-muted-foreground" />
+                )}
+              </div>
+              <div className="text-center">
+                <p className="text-foreground font-medium">
+                  {isDragging ? 'Drop your audio here' : 'Drag & drop an audio file'}
+                </p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  or click to browse (WAV, or any audio or video to convert)
+                </p>
+              </div>
+            </motion.div>
+          </motion.label>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useState, useCallback, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { Lock, Download, AlertCircle, CheckCircle2, Info } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { AudioDropzone } from './AudioDropzone';
+import { PassphraseInput } from './PassphraseInput';
+import { TaskProgress } from './TaskProgress';
+import { downloadBlob } from '@/lib/steganography';
+import { loadAudio, calculateAudioCapacity, describeAudio, AudioCarrier } from '@/lib/audioSteganography';
+import { encodeAudioInWorker, TaskCancelledError } from '@/lib/stegoEngine';
+
+export function AudioEncodePanel() {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [audio, setAudio] = useState<AudioCarrier | null>(null);
+  const [secretText, setSecretText] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isEncoding, setIsEncoding] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const taskController = useRef<AbortController | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  const handleAudioSelect = useCallback(async (file: File) => {
+    setSelectedFile(file);
+    setError(null);
+    setSuccess(false);
+    setIsProcessing(true);
+
+    try {
+      setAudio(await loadAudio(file));
+    } catch (err) {
+      setSelectedFile(null);
+      setAudio(null);
+      setError(err instanceof Error ? err.message : 'Failed to load audio');
+    } finally {
+      setIsProcessing(false);
+    }
+  }, []);
+
+  const handleClearAudio = useCallback(() => {
+    setSelectedFile(null);
+    setAudio(null);
+    setError(null);
+    setSuccess(false);
+  }, []);
+
+  const handleEncode = useCallback(async () => {
+    if (!selectedFile || !audio || !secretText.trim()) return;
+
+    setIsProcessing(true);
+    setIsEncoding(true);
+    setError(null);
+    setSuccess(false);
+    setProgress(0);
+    const controller = new AbortController();
+    taskController.current = controller;
+
+    try {
+      const blob = await encodeAudioInWorker(
+        audio,
+        { type: 'text', text: secretText },
+        { passphrase: passphrase || undefined },
+        { onProgress: setProgress, signal: controller.signal }
+      );
+
+      // WAV keeps every sample bit-exact, compressed formats would destroy the data
+      const originalName = selectedFile.name.replace(/\.[^/.]+$/, '');
+      downloadBlob(blob, `${originalName}_encoded.wav`);
+      setSuccess(true);
+    } catch (err) {
+      if (!(err instanceof TaskCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Encoding failed');
+      }
+    } finally {
+      taskController.current = null;
+      setIsProcessing(false);
+      setIsEncoding(false);
+    }
+  }, [selectedFile, audio, secretText, passphrase]);
+
+  const capacity = audio ? calculateAudioCapacity(audio, { encrypted: passphrase.length > 0 }) : null;
+  const textLength = secretText.length;
+  const isOverCapacity = capacity !== null && textLength > capacity;
+  const canEncode = audio && secretText.trim() && !isOverCapacity;
+
+  return (
+    <div className="space-y-6">
+      <AudioDropzone
+        onAudioSelect={handleAudioSelect}
+        selectedAudio={
+          selectedFile && audio ? { name: selectedFile.name, details: describeAudio(audio) } : null
+        }
+        onClear={handleClearAudio}
+        disabled={isProcessing}
+      />
+
+      {audio && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-start gap-2 p-3 rounded-lg bg-muted/30 border border-border"
+        >
+          <Info className="w-4 h-4 text-primary flex-shrink-0 mt-0.5" />
+          <p className="text-xs text-muted-foreground">
+            {audio.converted
+              ? 'This file was decoded and converted to 16-bit PCM. The output is a WAV file of the converted audio.'
+              : 'The output is a WAV file identical to the original except for the lowest bit of some samples.'}{' '}
+            Don't convert it to a compressed format, that destroys the hidden data.
+          </p>
+        </motion.div>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-foreground">
+            Secret Message
+          </label>
+          {capacity !== null && (
+            <span
+              className={`text-xs font-mono ${
+                isOverCapacity ? 'text-destructive' : 'text-muted-foreground'
+              }`}
+            >
+              {textLength.toLocaleString()} / {capacity.toLocaleString()} chars
+            </span>
+          )}
+        </div>
+        <Textarea
+          value={secretText}
+          onChange={(e) => {
+            setSecretText(e.target.value);
+            setSuccess(false);
+          }}
+          placeholder="Enter the text you want to hide..."
+          className="min-h-32 font-mono text-sm bg-muted/30 border-border focus:border-primary resize-none"
+          disabled={isProcessing}
+        />
+      </div>
+
+      <PassphraseInput
+        id="audio-encode-passphrase"
+        label="Passphrase (optional)"
+        value={passphrase}
+        onChange={(value) => {
+          setPassphrase(value);
+          setSuccess(false);
+        }}
+        hint={
+          passphrase
+            ? 'The message will be sealed with AES-GCM. It cannot be recovered without this passphrase.'
+            : 'Leave empty to embed the message unencrypted.'
+        }
+        disabled={isProcessing}
+      />
+
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 border border-destructive/30"
+        >
+          <AlertCircle className="w-4 h-4 text-destructive flex-shrink-0" />
+          <span className="text-sm text-destructive">{error}</span>
+        </motion.div>
+      )}
+
+      {success && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center gap-2 p-3 rounded-lg bg-success/10 border border-success/30"
+        >
+          <CheckCircle2 className="w-4 h-4 text-success flex-shrink-0" />
+          <span className="text-sm text-success">
+            Message encoded successfully! Your file has been downloaded.
+          </span>
+        </motion.div>
+      )}
+
+      {isEncoding && (
+        <>
+          <TaskProgress message="Encoding..." progress={progress} />
+          <Button variant="outline" onClick={() => taskController.current?.abort()} className="w-full">
+            Cancel
+          </Button>
+        </>
+      )}
+
+      <Button
+        onClick={handleEncode}
+        disabled={!canEncode || isProcessing}
+        className="w-full h-12 bg-primary hover:bg-primary/90 text-primary-foreground font-medium glow-primary disabled:opacity-50 disabled:glow-none"
+      >
+        {isProcessing ? (
+          <motion.div
+            animate={{ rotate: 360 }}
+            transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+            className="w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full"
+          />
+        ) : (
+          <>
+            <Lock className="w-5 h-5 mr-2" />
+            Encode & Download
+            <Download className="w-4 h-4 ml-2" />
+          </>
+        )}
+      </Button>
+    </div>
+  );
+}
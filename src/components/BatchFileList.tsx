@@ -0,0 +1,56 @@
+import { CheckCircle2, AlertCircle, Clock, Loader2 } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { BatchItemState, BatchStatus } from '@/lib/batchEncoder';
+
+interface BatchFileListProps {
+  files: File[];
+  states: BatchItemState[];
+}
+
+const STATUS_LABELS: Record<BatchStatus, string> = {
+  queued: 'Queued',
+  encoding: 'Encoding',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+function StatusIcon({ status }: { status: BatchStatus }) {
+  if (status === 'done') return <CheckCircle2 className="w-4 h-4 text-success flex-shrink-0" />;
+  if (status === 'failed') return <AlertCircle className="w-4 h-4 text-destructive flex-shrink-0" />;
+  if (status === 'queued') return <Clock className="w-4 h-4 text-muted-foreground flex-shrink-0" />;
+  return <Loader2 className="w-4 h-4 text-primary flex-shrink-0 animate-spin" />;
+}
+
+export function BatchFileList({ files, states }: BatchFileListProps) {
+  const finished = states.filter((state) => state.status === 'done' || state.status === 'failed').length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground">{files.length} images</span>
+        <span className="font-mono text-muted-foreground">
+          {finished} / {files.length} processed
+        </span>
+      </div>
+      <Progress value={files.length ? (finished / files.length) * 100 : 0} className="h-2" />
+      <ul className="max-h-56 overflow-y-auto space-y-1">
+        {files.map((file, index) => {
+          const state = states[index] ?? { status: 'queued' };
+          return (
+            <li
+              key={`${file.name}-${index}`}
+              className="flex items-start gap-2 px-3 py-2 rounded-lg bg-muted/30 border border-border"
+            >
+              <StatusIcon status={state.status} />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-foreground truncate">{file.name}</p>
+                {state.error && <p className="text-xs text-destructive">{state.error}</p>}
+              </div>
+              <span className="text-xs font-mono text-muted-foreground">{STATUS_LABELS[state.status]}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
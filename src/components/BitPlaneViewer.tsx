@@ -0,0 +1,302 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Layers, ChevronDown, ImagePlus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { PixelImage } from '@/lib/steganography';
+import { BitPlaneChannel, BitPlaneView, InspectedImage, BIT_PLANE_CHANNELS } from '@/lib/bitPlanes';
+import { inspectImageInWorker, renderBitPlanesInWorker, TaskCancelledError } from '@/lib/stegoEngine';
+
+const CHANNEL_LABELS: Record<BitPlaneChannel, string> = {
+  red: 'R',
+  green: 'G',
+  blue: 'B',
+  alpha: 'A',
+};
+
+const BITS = [0, 1, 2, 3, 4, 5, 6, 7];
+
+type Zoom = 'fit' | '1' | '2' | '4' | '8';
+
+const ZOOM_LEVELS: Zoom[] = ['fit', '1', '2', '4', '8'];
+
+interface PlaneCanvasProps {
+  label: string;
+  plane: ImageData;
+  zoom: Zoom;
+}
+
+function PlaneCanvas({ label, plane, zoom }: PlaneCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = plane.width;
+    canvas.height = plane.height;
+    canvas.getContext('2d')?.putImageData(plane, 0, 0);
+  }, [plane]);
+
+  return (
+    <div className="space-y-1 min-w-0">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <div className="max-h-96 overflow-auto rounded-lg border border-border bg-muted/30">
+        <canvas
+          ref={canvasRef}
+          className="block"
+          style={{
+            width: zoom === 'fit' ? '100%' : plane.width * Number(zoom),
+            imageRendering: 'pixelated',
+          }}
+        />
+      </div>
+    </div>
+  );
+}
+
+interface BitPlaneViewerProps {
+  file: File;
+}
+
+export function BitPlaneViewer({ file }: BitPlaneViewerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [inspected, setInspected] = useState<InspectedImage | null>(null);
+  const [original, setOriginal] = useState<{ name: string; image: PixelImage } | null>(null);
+  const [channel, setChannel] = useState<BitPlaneChannel>('red');
+  const [bit, setBit] = useState(0);
+  const [zoom, setZoom] = useState<Zoom>('fit');
+  const [showPayload, setShowPayload] = useState(true);
+  const [view, setView] = useState<BitPlaneView | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const originalInput = useRef<HTMLInputElement>(null);
+  const originalController = useRef<AbortController | null>(null);
+
+  // The pixels are only read once the viewer is opened
+  useEffect(() => {
+    setInspected(null);
+    if (!isOpen) return;
+
+    const controller = new AbortController();
+    setError(null);
+    inspectImageInWorker(file, { signal: controller.signal })
+      .then(setInspected)
+      .catch((err) => {
+        if (!(err instanceof TaskCancelledError)) {
+          setError(err instanceof Error ? err.message : 'Failed to load image');
+        }
+      });
+    return () => controller.abort();
+  }, [file, isOpen]);
+
+  useEffect(() => () => originalController.current?.abort(), []);
+
+  const handleOriginalSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    originalController.current?.abort();
+    const controller = new AbortController();
+    originalController.current = controller;
+    try {
+      const { image } = await inspectImageInWorker(selected, { signal: controller.signal });
+      setOriginal({ name: selected.name, image });
+      setError(null);
+    } catch (err) {
+      if (!(err instanceof TaskCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Failed to load the original image');
+      }
+    }
+  }, []);
+
+  const image = inspected?.image ?? null;
+  const region = inspected?.region ?? null;
+
+  // An original of another size or sample depth can't be compared pixel by pixel
+  const comparable =
+    image &&
+    original &&
+    original.image.width === image.width &&
+    original.image.height === image.height &&
+    original.image.data.BYTES_PER_ELEMENT === image.data.BYTES_PER_ELEMENT
+      ? original.image
+      : null;
+
+  const highlightPixels = showPayload ? region?.pixels ?? 0 : 0;
+
+  // Rendering runs on the engine; a newer choice of plane cancels the one in progress
+  useEffect(() => {
+    if (!image) {
+      setView(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsRendering(true);
+    renderBitPlanesInWorker(
+      image,
+      channel,
+      bit,
+      { original: comparable ?? undefined, highlightPixels },
+      { signal: controller.signal }
+    )
+      .then((rendered) => {
+        setView(rendered);
+        setIsRendering(false);
+      })
+      .catch((err) => {
+        if (err instanceof TaskCancelledError) return;
+        setError(err instanceof Error ? err.message : 'Failed to render the bit plane');
+        setIsRendering(false);
+      });
+    return () => controller.abort();
+  }, [image, channel, bit, comparable, highlightPixels]);
+
+  const plane = view?.plane;
+  const originalPlane = view?.originalPlane;
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="rounded-lg border border-border">
+      <CollapsibleTrigger asChild>
+        <button className="flex w-full items-center gap-2 p-3 text-sm font-medium text-foreground">
+          <Layers className="w-4 h-4 text-primary" />
+          Inspect bit planes
+          <ChevronDown
+            className={`w-4 h-4 ml-auto text-muted-foreground transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          />
+        </button>
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="space-y-4 p-3 pt-0">
+        <p className="text-xs text-muted-foreground">
+          Each plane shows one bit of one channel: white where it is set. Hidden data makes the low
+          planes look like noise.
+        </p>
+
+        <div className="space-y-2">
+          <Label className="text-foreground">Channel</Label>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={channel}
+            onValueChange={(value) => value && setChannel(value as BitPlaneChannel)}
+            className="grid grid-cols-4"
+          >
+            {BIT_PLANE_CHANNELS.map((option) => (
+              <ToggleGroupItem key={option} value={option} className="w-full">
+                {CHANNEL_LABELS[option]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-foreground">Bit</Label>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={String(bit)}
+            onValueChange={(value) => value && setBit(Number(value))}
+            className="grid grid-cols-8"
+          >
+            {BITS.map((option) => (
+              <ToggleGroupItem key={option} value={String(option)} className="w-full">
+                {option}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <p className="text-xs text-muted-foreground">
+            Bit 0 is the least significant.
+            {image?.data instanceof Uint16Array && ' In this 16-bit image the bits are those of the low byte.'}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-foreground">Zoom</Label>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={zoom}
+            onValueChange={(value) => value && setZoom(value as Zoom)}
+            className="grid grid-cols-5"
+          >
+            {ZOOM_LEVELS.map((option) => (
+              <ToggleGroupItem key={option} value={option} className="w-full">
+                {option === 'fit' ? 'Fit' : `${option}×`}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-muted-foreground min-w-0 truncate">
+            {original ? `Compared with ${original.name}` : 'Compare with the original image to see which bits changed.'}
+          </p>
+          {original ? (
+            <Button variant="ghost" size="sm" onClick={() => setOriginal(null)}>
+              <X className="w-4 h-4 mr-1" />
+              Remove original
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => originalInput.current?.click()}>
+              <ImagePlus className="w-4 h-4 mr-1" />
+              Choose original
+            </Button>
+          )}
+          <input
+            ref={originalInput}
+            type="file"
+            accept="image/*"
+            onChange={handleOriginalSelect}
+            className="hidden"
+          />
+        </div>
+
+        {region && (
+          <div className="flex items-center justify-between">
+            <Label htmlFor="payload-highlight" className="text-foreground">
+              Highlight the {region.format} payload
+            </Label>
+            <Switch id="payload-highlight" checked={showPayload} onCheckedChange={setShowPayload} />
+          </div>
+        )}
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+        {original && image && !comparable && (
+          <p className="text-xs text-destructive">
+            The original must have the same size and sample depth as this image.
+          </p>
+        )}
+
+        {isRendering && <p className="text-xs text-muted-foreground">Rendering…</p>}
+
+        {plane && (
+          <div className={`grid gap-3 ${originalPlane ? 'grid-cols-2' : 'grid-cols-1'}`}>
+            {originalPlane && <PlaneCanvas label="Original" plane={originalPlane} zoom={zoom} />}
+            <PlaneCanvas label={originalPlane ? 'This image' : 'Bit plane'} plane={plane} zoom={zoom} />
+          </div>
+        )}
+
+        {plane && (
+          <div className="space-y-1 text-xs text-muted-foreground">
+            {originalPlane && (
+              <p>
+                <span className="text-destructive">Red</span>: {view.differences.toLocaleString()} pixels whose bit
+                differs from the original.
+              </p>
+            )}
+            {region && highlightPixels > 0 && (
+              <p>
+                <span className="text-primary">Teal</span>: the {region.format} payload, header included, in the
+                first {highlightPixels.toLocaleString()} pixels.
+              </p>
+            )}
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
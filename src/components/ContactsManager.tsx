@@ -0,0 +1,89 @@
+import { useRef, useState } from 'react';
+import { Upload, Fingerprint, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { TrustedKey } from '@/lib/signing';
+import { parsePublicKeyFile } from '@/lib/keyring';
+
+interface ContactsManagerProps {
+  trustedKeys: TrustedKey[];
+  onTrustedKeysChange: (keys: TrustedKey[]) => void;
+}
+
+export function ContactsManager({ trustedKeys, onTrustedKeysChange }: ContactsManagerProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      const key = await parsePublicKeyFile(await file.text(), file.name.replace(/\..*$/, ''));
+      if (trustedKeys.some((existing) => existing.fingerprint === key.fingerprint)) {
+        setError(`This key is already in your contacts (${key.fingerprint})`);
+        return;
+      }
+      onTrustedKeysChange([...trustedKeys, key]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import key');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-foreground">Contacts</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => fileInput.current?.click()}
+          className="h-7 text-muted-foreground hover:text-foreground"
+        >
+          <Upload className="w-4 h-4 mr-1" />
+          Import public key
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".jwks,.jwk,.json,application/json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+      {trustedKeys.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Import a colleague's exported public keys to verify their signatures and encrypt
+          images to them.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {trustedKeys.map((key) => (
+            <li
+              key={key.fingerprint}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg bg-muted/30 border border-border"
+            >
+              <Fingerprint className="w-4 h-4 text-primary flex-shrink-0" />
+              <span className="text-sm text-foreground truncate flex-1">{key.name}</span>
+              {!key.encryptionKey && (
+                <span className="text-xs text-muted-foreground">Signing only</span>
+              )}
+              <span className="text-xs font-mono text-muted-foreground">{key.fingerprint}</span>
+              <button
+                onClick={() =>
+                  onTrustedKeysChange(trustedKeys.filter((k) => k.fingerprint !== key.fingerprint))
+                }
+                title="Remove key"
+                className="p-1 rounded-full hover:bg-background transition-colors"
+              >
+                <X className="w-3 h-3 text-muted-foreground" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -1,21 +1,48 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Unlock, Copy, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Unlock, Copy, AlertCircle, CheckCircle2, Lock, Download, FileText, ShieldCheck, ShieldAlert, BadgeCheck, PenOff } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ImageDropzone } from './ImageDropzone';
-import { loadImage, decodeText } from '@/lib/steganography';
+import { PassphraseInput } from './PassphraseInput';
+import { KeyringDialog } from './KeyringDialog';
+import { TaskProgress } from './TaskProgress';
+import { BitPlaneViewer } from './BitPlaneViewer';
+import {
+  downloadBlob,
+  EncryptedPayloadError,
+  BlobDecodeResult,
+  BlobPayload,
+  EncryptionMode,
+  IntegrityStatus,
+} from '@/lib/steganography';
+import { isJpeg } from '@/lib/jpeg';
+import { decodeImageInWorker, decodeJpegInWorker, TaskCancelledError } from '@/lib/stegoEngine';
+import { SignatureStatus } from '@/lib/signing';
+import { identityAsTrustedKey } from '@/lib/keyring';
+import { useKeyring } from '@/hooks/use-keyring';
 
 export function DecodePanel() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [decodedText, setDecodedText] = useState<string | null>(null);
+  const [decoded, setDecoded] = useState<BlobPayload | null>(null);
+  const [encryption, setEncryption] = useState<EncryptionMode>('none');
+  const [integrity, setIntegrity] = useState<IntegrityStatus>('unchecked');
+  const [signature, setSignature] = useState<SignatureStatus>({ state: 'unsigned' });
+  const { identity, contacts } = useKeyring();
+  const [eccReport, setEccReport] = useState<Pick<BlobDecodeResult, 'eccLevel' | 'correctedErrors'> | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [scatterKey, setScatterKey] = useState('');
+  const [isLocked, setIsLocked] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const taskController = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
 
   const handleImageSelect = useCallback((file: File) => {
     setSelectedFile(file);
-    setDecodedText(null);
+    setDecoded(null);
+    setIsLocked(false);
     setError(null);
     
     const reader = new FileReader();
@@ -28,7 +55,8 @@ export function DecodePanel() {
   const handleClearImage = useCallback(() => {
     setSelectedFile(null);
     setImagePreview(null);
-    setDecodedText(null);
+    setDecoded(null);
+    setIsLocked(false);
     setError(null);
   }, []);
 
@@ -37,26 +65,63 @@ export function DecodePanel() {
 
     setIsProcessing(true);
     setError(null);
-    setDecodedText(null);
+    setDecoded(null);
+    setIsLocked(false);
+    setProgress(0);
+    const controller = new AbortController();
+    taskController.current = controller;
 
     try {
-      const { imageData } = await loadImage(selectedFile);
-      const text = decodeText(imageData);
-      setDecodedText(text);
+      const options = {
+        passphrase,
+        scatterKey: scatterKey || undefined,
+        // Tried automatically on images encrypted to recipients
+        privateKey: identity?.encryptionKey.privateKey,
+        trustedKeys: identity ? [identityAsTrustedKey(identity), ...contacts] : contacts,
+      };
+      // Pixel LSBs never survive JPEG compression, so a JPEG can only carry DCT-domain data
+      const bytes = new Uint8Array(await selectedFile.arrayBuffer());
+      const engine = { onProgress: setProgress, signal: controller.signal };
+      let result: BlobDecodeResult;
+      if (isJpeg(bytes)) {
+        result = await decodeJpegInWorker(bytes, options, engine);
+      } else {
+        result = await decodeImageInWorker(selectedFile, options, engine);
+      }
+      setDecoded(result.payload);
+      setEncryption(result.encryption);
+      setIntegrity(result.integrity);
+      setSignature(result.signature);
+      setEccReport(
+        result.eccLevel === 'none'
+          ? null
+          : { eccLevel: result.eccLevel, correctedErrors: result.correctedErrors }
+      );
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Decoding failed');
+      if (err instanceof EncryptedPayloadError) {
+        setIsLocked(true);
+      } else if (!(err instanceof TaskCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Decoding failed');
+      }
     } finally {
+      taskController.current = null;
       setIsProcessing(false);
     }
-  }, [selectedFile]);
+  }, [selectedFile, passphrase, scatterKey, identity, contacts]);
 
   const handleCopy = useCallback(async () => {
-    if (!decodedText) return;
+    if (decoded?.type !== 'text') return;
     
-    await navigator.clipboard.writeText(decodedText);
+    await navigator.clipboard.writeText(decoded.text);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
-  }, [decodedText]);
+  }, [decoded]);
+
+  const handleDownloadFile = useCallback(() => {
+    if (decoded?.type !== 'file') return;
+
+    downloadBlob(decoded.blob, decoded.name);
+  }, [decoded]);
 
   return (
     <div className="space-y-6">
@@ -66,6 +131,44 @@ export function DecodePanel() {
         onClear={handleClearImage}
       />
 
+      <PassphraseInput
+        id="decode-passphrase"
+        label="Passphrase (optional)"
+        value={passphrase}
+        onChange={setPassphrase}
+        hint="Only needed if the message was sealed with a passphrase."
+      />
+
+      <PassphraseInput
+        id="decode-scatter-key"
+        label="Scatter key (optional)"
+        value={scatterKey}
+        onChange={setScatterKey}
+        hint="Only needed if the bits were scattered with a secret key."
+      />
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          {identity
+            ? `Images encrypted to ${identity.name} open automatically.`
+            : 'Set up your key pair to open images encrypted to you.'}
+        </p>
+        <KeyringDialog />
+      </div>
+
+      {isLocked && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center gap-2 p-3 rounded-lg bg-primary/10 border border-primary/30"
+        >
+          <Lock className="w-4 h-4 text-primary flex-shrink-0" />
+          <span className="text-sm text-primary">
+            Encrypted payload present. Enter the passphrase and decode again.
+          </span>
+        </motion.div>
+      )}
+
       {error && (
         <motion.div
           initial={{ opacity: 0, y: -10 }}
@@ -77,37 +180,132 @@ export function DecodePanel() {
         </motion.div>
       )}
 
-      {decodedText !== null && (
+      {decoded !== null && (
         <motion.div
           initial={{ opacity: 0, y: 10 }}
           animate={{ opacity: 1, y: 0 }}
           className="space-y-3"
         >
           <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <CheckCircle2 className="w-4 h-4 text-success" />
-              <span className="text-sm font-medium text-success">
-                Hidden message found!
-              </span>
+            {integrity === 'corrupted' ? (
+              <div className="flex items-center gap-2">
+                <ShieldAlert className="w-4 h-4 text-destructive" />
+                <span className="text-sm font-medium text-destructive">Payload corrupted</span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <CheckCircle2 className="w-4 h-4 text-success" />
+                <span className="text-sm font-medium text-success">
+                  {decoded.type === 'file'
+                    ? encryption !== 'none' ? 'Encrypted file unlocked!' : 'Hidden file found!'
+                    : encryption !== 'none' ? 'Encrypted message unlocked!' : 'Hidden message found!'}
+                  {encryption === 'recipients' && (
+                    <span className="font-normal text-muted-foreground"> (with your private key)</span>
+                  )}
+                </span>
+              </div>
+            )}
+            {decoded.type === 'text' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleCopy}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <Copy className="w-4 h-4 mr-1" />
+                {copied ? 'Copied!' : 'Copy'}
+              </Button>
+            )}
+          </div>
+          {decoded.type === 'text' ? (
+            <div className="p-4 rounded-lg bg-muted/30 border border-border">
+              <p className="font-mono text-sm text-foreground whitespace-pre-wrap break-words">
+                {decoded.text}
+              </p>
+            </div>
+          ) : (
+            <div className="flex items-center gap-3 p-4 rounded-lg bg-muted/30 border border-border">
+              <FileText className="w-5 h-5 text-primary flex-shrink-0" />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium text-foreground truncate">{decoded.name}</p>
+                <p className="text-xs font-mono text-muted-foreground">
+                  {decoded.mimeType} · {decoded.blob.size.toLocaleString()} bytes
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleDownloadFile}>
+                <Download className="w-4 h-4 mr-1" />
+                Download extracted file
+              </Button>
             </div>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={handleCopy}
-              className="text-muted-foreground hover:text-foreground"
-            >
-              <Copy className="w-4 h-4 mr-1" />
-              {copied ? 'Copied!' : 'Copy'}
-            </Button>
+          )}
+          <div
+            className={`flex items-center gap-2 text-xs ${
+              integrity === 'corrupted' ? 'text-destructive' : 'text-muted-foreground'
+            }`}
+          >
+            {integrity === 'verified' ? (
+              <ShieldCheck className="w-4 h-4 text-success flex-shrink-0" />
+            ) : (
+              <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+            )}
+            <span>
+              {integrity === 'verified'
+                ? 'Integrity verified: the checksum matches.'
+                : integrity === 'corrupted'
+                  ? 'The checksum does not match. The content above is damaged or was tampered with.'
+                  : 'No checksum in this image (older format), integrity cannot be verified.'}
+            </span>
           </div>
-          <div className="p-4 rounded-lg bg-muted/30 border border-border">
-            <p className="font-mono text-sm text-foreground whitespace-pre-wrap break-words">
-              {decodedText}
-            </p>
+          <div
+            className={`flex items-center gap-2 text-xs ${
+              signature.state === 'invalid' ? 'text-destructive' : 'text-muted-foreground'
+            }`}
+          >
+            {signature.state === 'trusted' ? (
+              <BadgeCheck className="w-4 h-4 text-success flex-shrink-0" />
+            ) : (
+              <PenOff className="w-4 h-4 flex-shrink-0" />
+            )}
+            <span>
+              {signature.state === 'trusted' && (
+                <>
+                  Signed by <span className="font-medium text-foreground">{signature.signer}</span>{' '}
+                  <span className="font-mono">({signature.fingerprint})</span>
+                </>
+              )}
+              {signature.state === 'untrusted' &&
+                `Valid signature from an unknown key (${signature.fingerprint}). Import that key to trust it.`}
+              {signature.state === 'invalid' && 'Invalid signature: the content was changed after signing.'}
+              {signature.state === 'unsigned' && 'Unsigned'}
+            </span>
           </div>
+          {eccReport && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <ShieldCheck className="w-4 h-4 text-primary flex-shrink-0" />
+              <span>
+                Error correction ({eccReport.eccLevel}):{' '}
+                {eccReport.correctedErrors === 0
+                  ? 'no damaged bytes found'
+                  : `${eccReport.correctedErrors.toLocaleString()} symbol error${
+                      eccReport.correctedErrors === 1 ? '' : 's'
+                    } corrected`}
+              </span>
+            </div>
+          )}
         </motion.div>
       )}
 
+      {selectedFile && <BitPlaneViewer file={selectedFile} />}
+
+      {isProcessing && (
+        <>
+          <TaskProgress message="Decoding..." progress={progress} />
+          <Button variant="outline" onClick={() => taskController.current?.abort()} className="w-full">
+            Cancel
+          </Button>
+        </>
+      )}
+
       <Button
         onClick={handleDecode}
         disabled={!selectedFile || isProcessing}
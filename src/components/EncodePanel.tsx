@@ -1,30 +1,120 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { Lock, Download, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Lock, Download, AlertCircle, CheckCircle2, Paperclip, FileText, X, Table } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { ImageDropzone } from './ImageDropzone';
+import { PassphraseInput } from './PassphraseInput';
+import { KeyringDialog } from './KeyringDialog';
+import { RecipientPicker } from './RecipientPicker';
+import { BatchFileList } from './BatchFileList';
+import { TaskProgress } from './TaskProgress';
 import {
-  loadImage,
-  encodeText,
-  imageDataToBlob,
   downloadBlob,
   calculateCapacity,
+  countAlphaCarriers,
+  getSampleDepth,
+  estimatePsnr,
+  getMaxBitsPerChannel,
+  CapacityOptions,
+  EccLevel,
+  ImageFormat,
+  SampleDepth,
+  IMAGE_FORMATS,
+  ECC_PARITY,
 } from '@/lib/steganography';
+import { loadJpeg, calculateJpegCapacity, JpegCarrier } from '@/lib/jpegSteganography';
+import { encodeImageInWorker, encodeJpegInWorker, inspectImageInWorker, TaskCancelledError } from '@/lib/stegoEngine';
+import { encodeBatch, BatchJob, BatchItemState, BatchFormat, BATCH_FORMATS } from '@/lib/batchEncoder';
+import { parseCsv } from '@/lib/csv';
+import { getFileHeaderSize, serializePayload, SecretPayload } from '@/lib/payload';
+import { compressBytes } from '@/lib/compression';
+import { SIGNATURE_BLOCK_SIZE } from '@/lib/signing';
+import { getRecipientsOverhead } from '@/lib/recipientCrypto';
+import { identityAsTrustedKey } from '@/lib/keyring';
+import { useKeyring } from '@/hooks/use-keyring';
+
+// Lossless pixel formats, or JPEG with the message in its DCT coefficients
+type OutputFormat = ImageFormat | 'jpeg';
+
+const OUTPUT_FORMAT_LABELS: Record<OutputFormat, string> = {
+  png: 'PNG',
+  webp: 'WebP',
+  bmp: 'BMP',
+  tiff: 'TIFF',
+  jpeg: 'JPEG',
+};
+
+const OUTPUT_FORMAT_HINTS: Record<ImageFormat, string> = {
+  png: 'Lossless PNG, readable everywhere.',
+  webp: 'Lossless WebP, usually much smaller than PNG.',
+  bmp: 'Uncompressed BMP, large but easy for other systems to read.',
+  tiff: 'Uncompressed TIFF, large but easy for other systems to read.',
+};
+
+// A batch embeds the same message everywhere, or one message per row of a CSV
+type MessageSource = 'shared' | 'csv';
+
+const MESSAGE_SOURCE_LABELS: Record<MessageSource, string> = {
+  shared: 'Same message',
+  csv: 'One per CSV row',
+};
+
+function isBatchFormat(format: OutputFormat): format is BatchFormat {
+  return (BATCH_FORMATS as OutputFormat[]).includes(format);
+}
+
+const ECC_LEVEL_LABELS: Record<EccLevel, string> = {
+  none: 'Off',
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+};
 
 export function EncodePanel() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [secretText, setSecretText] = useState('');
+  const [secretFile, setSecretFile] = useState<File | null>(null);
+  const secretFileInput = useRef<HTMLInputElement>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [scatterEnabled, setScatterEnabled] = useState(false);
+  const [scatterKey, setScatterKey] = useState('');
+  const [bitsPerChannel, setBitsPerChannel] = useState(1);
+  const [useAlpha, setUseAlpha] = useState(false);
+  const [alphaPixels, setAlphaPixels] = useState(0);
+  const [compress, setCompress] = useState(true);
+  const [compressedLength, setCompressedLength] = useState<number | null>(null);
+  const [eccLevel, setEccLevel] = useState<EccLevel>('none');
+  const [signEnabled, setSignEnabled] = useState(false);
+  const { identity, contacts } = useKeyring();
+  const [recipientFingerprints, setRecipientFingerprints] = useState<string[]>([]);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [coverDepth, setCoverDepth] = useState<SampleDepth>(8);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>('png');
+  const [jpegCarrier, setJpegCarrier] = useState<JpegCarrier | null>(null);
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [batchStates, setBatchStates] = useState<BatchItemState[]>([]);
+  const [messageSource, setMessageSource] = useState<MessageSource>('shared');
+  // Message for each image file name, from the first two columns of the CSV
+  const [csvMessages, setCsvMessages] = useState<Map<string, string> | null>(null);
+  const csvInput = useRef<HTMLInputElement>(null);
+  // Aborts the running encode or batch
+  const taskController = useRef<AbortController | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [capacity, setCapacity] = useState<number | null>(null);
+  const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
-  const [success, setSuccess] = useState(false);
+  const [success, setSuccess] = useState<string | null>(null);
+  const isBatch = batchFiles.length > 1;
 
   const handleImageSelect = useCallback((file: File) => {
     setSelectedFile(file);
     setError(null);
-    setSuccess(false);
+    setSuccess(null);
     
     const reader = new FileReader();
     reader.onload = async (e) => {
@@ -33,8 +123,10 @@ export function EncodePanel() {
       
       // Calculate capacity
       try {
-        const { width, height } = await loadImage(file);
-        setCapacity(calculateCapacity(width, height));
+        const { image } = await inspectImageInWorker(file);
+        setImageSize({ width: image.width, height: image.height });
+        setCoverDepth(getSampleDepth(image));
+        setAlphaPixels(countAlphaCarriers(image));
       } catch (err) {
         console.error('Failed to calculate capacity:', err);
       }
@@ -42,40 +134,281 @@ export function EncodePanel() {
     reader.readAsDataURL(file);
   }, []);
 
+  const handleImagesSelect = useCallback((files: File[]) => {
+    setBatchFiles(files.length > 1 ? files : []);
+    setBatchStates(files.map(() => ({ status: 'queued' })));
+    if (files.length > 1) {
+      setOutputFormat((format) => (isBatchFormat(format) ? format : 'png'));
+    }
+  }, []);
+
+  const handleCsvSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const messages = new Map<string, string>();
+      for (const [name, message] of parseCsv(await file.text())) {
+        // A header row or rows for other images simply match no file
+        if (message !== undefined) messages.set(name.trim(), message);
+      }
+      setCsvMessages(messages);
+      setError(null);
+    } catch (err) {
+      setCsvMessages(null);
+      setError(err instanceof Error ? err.message : 'Failed to read the CSV');
+    }
+    setSuccess(null);
+  }, []);
+
   const handleClearImage = useCallback(() => {
     setSelectedFile(null);
+    setBatchFiles([]);
+    setBatchStates([]);
     setImagePreview(null);
-    setCapacity(null);
+    setImageSize(null);
+    setCoverDepth(8);
+    setJpegCarrier(null);
     setError(null);
-    setSuccess(false);
+    setSuccess(null);
   }, []);
 
+  const handleSecretFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files.length > 0) {
+      setSecretFile(files[0]);
+      setSuccess(null);
+    }
+    // Allow picking the same file again after clearing it
+    e.target.value = '';
+  }, []);
+
+  const buildPayload = useCallback(async (): Promise<SecretPayload> => {
+    if (!secretFile) {
+      return { type: 'text', text: secretText };
+    }
+    return {
+      type: 'file',
+      name: secretFile.name,
+      mimeType: secretFile.type,
+      bytes: new Uint8Array(await secretFile.arrayBuffer()),
+    };
+  }, [secretFile, secretText]);
+
+  // Measure the compressed size in the background so the capacity check reflects it
+  useEffect(() => {
+    if (!compress || (!secretFile && !secretText)) {
+      setCompressedLength(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const compressed = await compressBytes(serializePayload(await buildPayload()));
+        if (!cancelled) setCompressedLength(compressed.length);
+      } catch (err) {
+        console.error('Failed to measure compressed size:', err);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [compress, secretFile, secretText, buildPayload]);
+
+  // JPEG output works on the coefficients of the cover (converted once if it isn't a JPEG)
+  useEffect(() => {
+    setJpegCarrier(null);
+    if (outputFormat !== 'jpeg' || !selectedFile) return;
+
+    let cancelled = false;
+    loadJpeg(selectedFile)
+      .then((carrier) => {
+        if (!cancelled) setJpegCarrier(carrier);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to read the JPEG');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [outputFormat, selectedFile]);
+
+  const recipientOptions = useMemo(
+    () => (identity ? [identityAsTrustedKey(identity), ...contacts] : contacts),
+    [identity, contacts]
+  );
+  // Keys removed from the keyring drop out of the selection
+  const recipients = useMemo(
+    () =>
+      recipientOptions.flatMap((key) =>
+        key.encryptionKey && recipientFingerprints.includes(key.fingerprint) ? [key.encryptionKey] : []
+      ),
+    [recipientOptions, recipientFingerprints]
+  );
+
   const handleEncode = useCallback(async () => {
-    if (!selectedFile || !secretText.trim()) return;
+    const needsMessage = !isBatch || messageSource === 'shared';
+    if (!selectedFile || (needsMessage && !secretFile && !secretText.trim())) return;
 
     setIsProcessing(true);
     setError(null);
-    setSuccess(false);
+    setSuccess(null);
+    setProgress(0);
+    const controller = new AbortController();
+    taskController.current = controller;
 
     try {
-      const { imageData } = await loadImage(selectedFile);
-      const encodedData = encodeText(imageData, secretText);
-      const blob = await imageDataToBlob(encodedData);
-      
+      const payload = await buildPayload();
+      const options = {
+        passphrase: recipients.length > 0 ? undefined : passphrase,
+        recipients,
+        scatterKey: scatterEnabled ? scatterKey : undefined,
+        compress,
+        signingKey: signEnabled && identity ? identity.privateKey : undefined,
+      };
       const originalName = selectedFile.name.replace(/\.[^/.]+$/, '');
-      downloadBlob(blob, `${originalName}_encoded.png`);
+
+      if (isBatch) {
+        if (!isBatchFormat(outputFormat)) throw new Error('Batches can be saved as PNG, BMP or TIFF');
+        const states: BatchItemState[] = batchFiles.map(() => ({ status: 'queued' }));
+        const jobs: BatchJob[] = [];
+        // Batch index of each job
+        const jobFiles: number[] = [];
+        for (const [index, file] of batchFiles.entries()) {
+          const message = messageSource === 'csv' ? csvMessages?.get(file.name) : undefined;
+          if (messageSource === 'csv' && message === undefined) {
+            states[index] = { status: 'failed', error: 'No row for this image in the CSV' };
+            continue;
+          }
+          jobs.push({ file, payload: message !== undefined ? { type: 'text', text: message } : payload });
+          jobFiles.push(index);
+        }
+        setBatchStates(states);
+        if (jobs.length === 0) throw new Error('None of the images has a row in the CSV');
+
+        const result = await encodeBatch(
+          jobs,
+          { ...options, bitsPerChannel, alpha: useAlpha, eccLevel },
+          outputFormat,
+          (jobIndex, state) =>
+            setBatchStates((current) => current.map((item, i) => (i === jobFiles[jobIndex] ? state : item))),
+          controller.signal
+        );
+        downloadBlob(result.zip, 'stegovault_encoded.zip');
+
+        const failed = batchFiles.length - result.encoded;
+        setSuccess(
+          `${result.encoded} of ${batchFiles.length} images encoded and verified${
+            failed > 0 ? ` (${failed} failed)` : ''
+          }. The ZIP has been downloaded.`
+        );
+        return;
+      }
+
+      const engine = { onProgress: setProgress, signal: controller.signal };
+      if (outputFormat === 'jpeg') {
+        if (!jpegCarrier) throw new Error('The JPEG is still being read');
+        const blob = await encodeJpegInWorker(jpegCarrier.image, payload, options, engine);
+        downloadBlob(blob, `${originalName}_encoded.jpg`);
+      } else {
+        const blob = await encodeImageInWorker(
+          selectedFile,
+          payload,
+          { ...options, bitsPerChannel, alpha: useAlpha, eccLevel },
+          outputFormat,
+          engine
+        );
+        downloadBlob(blob, `${originalName}_encoded.${IMAGE_FORMATS[outputFormat].extension}`);
+      }
       
-      setSuccess(true);
+      setSuccess('Message encoded and verified! Your file has been downloaded.');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Encoding failed');
+      if (!(err instanceof TaskCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Encoding failed');
+      }
+      // Files a cancelled or crashed batch never got to go back to the queue
+      setBatchStates((current) =>
+        current.map((state) => (state.status === 'encoding' ? { status: 'queued' } : state))
+      );
     } finally {
+      taskController.current = null;
       setIsProcessing(false);
     }
-  }, [selectedFile, secretText]);
+  }, [
+    selectedFile,
+    secretText,
+    secretFile,
+    buildPayload,
+    isBatch,
+    batchFiles,
+    messageSource,
+    csvMessages,
+    outputFormat,
+    jpegCarrier,
+    passphrase,
+    recipients,
+    scatterEnabled,
+    scatterKey,
+    bitsPerChannel,
+    useAlpha,
+    compress,
+    eccLevel,
+    signEnabled,
+    identity,
+  ]);
+
+  // A batch may mix 8 and 16-bit covers, so it sticks to what 8-bit samples allow
+  const sampleDepth: SampleDepth = outputFormat === 'png' && !isBatch ? coverDepth : 8;
+  const maxBitsPerChannel = getMaxBitsPerChannel(sampleDepth);
 
-  const textLength = secretText.length;
-  const isOverCapacity = capacity !== null && textLength > capacity;
-  const canEncode = selectedFile && secretText.trim() && !isOverCapacity;
+  // 8-bit samples allow fewer bits per channel than 16-bit ones
+  useEffect(() => {
+    setBitsPerChannel((bits) => Math.min(bits, maxBitsPerChannel));
+  }, [maxBitsPerChannel]);
+
+  const capacityOptions: CapacityOptions = {
+    encrypted: passphrase.length > 0 && recipients.length === 0,
+    recipients: recipients.length,
+    bitsPerChannel,
+    alpha: useAlpha,
+    alphaPixels,
+    eccLevel,
+    sampleDepth,
+  };
+  // Every image of a batch has its own capacity, checked as it is encoded
+  const capacity = isBatch
+    ? null
+    : outputFormat === 'jpeg'
+      ? jpegCarrier && calculateJpegCapacity(jpegCarrier.image, capacityOptions)
+      : imageSize && calculateCapacity(imageSize.width, imageSize.height, capacityOptions);
+  // Capacity is in bytes, so text counts in UTF-8 bytes rather than characters
+  const rawLength = secretFile
+    ? secretFile.size + getFileHeaderSize(secretFile.name, secretFile.type)
+    : new TextEncoder().encode(secretText).length;
+  // Compression is only applied when it actually saves space
+  const isCompressed = compressedLength !== null && compressedLength < rawLength;
+  // The signature block is random-looking and barely compresses, so it is counted as is
+  const signatureLength = signEnabled ? SIGNATURE_BLOCK_SIZE : 0;
+  const embeddedLength = (isCompressed ? compressedLength : rawLength) + signatureLength;
+  const psnr = imageSize && outputFormat !== 'jpeg' && !isBatch
+    ? estimatePsnr(imageSize.width, imageSize.height, embeddedLength, capacityOptions)
+    : null;
+  const isOverCapacity = capacity !== null && embeddedLength > capacity;
+  const csvMatches = csvMessages ? batchFiles.filter((file) => csvMessages.has(file.name)).length : 0;
+  const hasMessage =
+    isBatch && messageSource === 'csv' ? csvMatches > 0 : Boolean(secretFile || secretText.trim());
+  const canEncode =
+    selectedFile &&
+    (isBatch ? isBatchFormat(outputFormat) : outputFormat !== 'jpeg' || jpegCarrier) &&
+    hasMessage &&
+    !isOverCapacity &&
+    (!scatterEnabled || scatterKey) &&
+    (!signEnabled || identity);
 
   return (
     <div className="space-y-6">
@@ -83,34 +416,371 @@ export function EncodePanel() {
         onImageSelect={handleImageSelect}
         selectedImage={imagePreview}
         onClear={handleClearImage}
+        onImagesSelect={handleImagesSelect}
       />
 
+      {isBatch && <BatchFileList files={batchFiles} states={batchStates} />}
+
       <div className="space-y-3">
-        <div className="flex items-center justify-between">
-          <label className="text-sm font-medium text-foreground">
-            Secret Message
-          </label>
-          {capacity !== null && (
-            <span
-              className={`text-xs font-mono ${
-                isOverCapacity ? 'text-destructive' : 'text-muted-foreground'
-              }`}
+        <Label className="text-foreground">Output format</Label>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={outputFormat}
+          onValueChange={(value) => {
+            if (!value) return;
+            setOutputFormat(value as OutputFormat);
+            setError(null);
+            setSuccess(null);
+          }}
+          className="grid grid-cols-5"
+        >
+          {(Object.keys(OUTPUT_FORMAT_LABELS) as OutputFormat[]).map((format) => (
+            <ToggleGroupItem
+              key={format}
+              value={format}
+              disabled={isBatch && !isBatchFormat(format)}
+              className="w-full"
             >
-              {textLength.toLocaleString()} / {capacity.toLocaleString()} chars
-            </span>
+              {OUTPUT_FORMAT_LABELS[format]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <p className="text-xs text-muted-foreground">
+          {outputFormat !== 'jpeg'
+            ? `${OUTPUT_FORMAT_HINTS[outputFormat]} The file is read back to check the hidden data before it downloads.`
+            : jpegCarrier?.converted
+              ? 'The image is saved as a JPEG first, then the message is hidden in its DCT coefficients.'
+              : 'Hides the message in the DCT coefficients and rewrites the JPEG without recompressing it.'}{' '}
+          {outputFormat === 'jpeg' && 'Editing or re-saving the file destroys the hidden data. '}
+          {isBatch && 'Batches are written as PNG, BMP or TIFF in a single ZIP. '}
+          {coverDepth === 16 && !isBatch &&
+            (outputFormat === 'png'
+              ? 'The 16-bit cover keeps its full samples.'
+              : 'The 16-bit cover is reduced to 8 bits per sample; choose PNG to keep them.')}
+        </p>
+      </div>
+
+      {isBatch && (
+        <div className="space-y-3">
+          <Label className="text-foreground">Messages</Label>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={messageSource}
+            onValueChange={(value) => {
+              if (!value) return;
+              setMessageSource(value as MessageSource);
+              setSuccess(null);
+            }}
+            className="grid grid-cols-2"
+          >
+            {(Object.keys(MESSAGE_SOURCE_LABELS) as MessageSource[]).map((source) => (
+              <ToggleGroupItem key={source} value={source} className="w-full">
+                {MESSAGE_SOURCE_LABELS[source]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          {messageSource === 'csv' && (
+            <div className="flex items-center gap-3 p-4 rounded-lg bg-muted/30 border border-border">
+              <Table className="w-5 h-5 text-primary flex-shrink-0" />
+              <p className="text-xs text-muted-foreground flex-1">
+                {csvMessages
+                  ? `${csvMatches} of ${batchFiles.length} images have a message in the CSV.`
+                  : 'Pick a CSV with the image file name in the first column and its message in the second.'}
+              </p>
+              <Button variant="outline" size="sm" onClick={() => csvInput.current?.click()}>
+                {csvMessages ? 'Replace CSV' : 'Choose CSV'}
+              </Button>
+              <input
+                ref={csvInput}
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleCsvSelect}
+                className="hidden"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {(!isBatch || messageSource === 'shared') && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-foreground">
+              {secretFile ? 'Secret File' : 'Secret Message'}
+            </label>
+            <div className="flex items-center gap-3">
+              {capacity !== null && (
+                <span
+                  className={`text-xs font-mono ${
+                    isOverCapacity ? 'text-destructive' : 'text-muted-foreground'
+                  }`}
+                >
+                  {isCompressed ? (
+                    <>
+                      {rawLength.toLocaleString()} raw → {(compressedLength + signatureLength).toLocaleString()} compressed
+                      {' / '}
+                      {capacity.toLocaleString()} bytes
+                    </>
+                  ) : (
+                    <>
+                      {(rawLength + signatureLength).toLocaleString()} / {capacity.toLocaleString()} bytes
+                    </>
+                  )}
+                </span>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => secretFileInput.current?.click()}
+                className="h-7 text-muted-foreground hover:text-foreground"
+              >
+                <Paperclip className="w-4 h-4 mr-1" />
+                Attach file
+              </Button>
+              <input
+                ref={secretFileInput}
+                type="file"
+                onChange={handleSecretFileSelect}
+                className="hidden"
+              />
+            </div>
+          </div>
+          {secretFile ? (
+            <div className="flex items-center gap-3 p-4 rounded-lg bg-muted/30 border border-border">
+              <FileText className="w-5 h-5 text-primary flex-shrink-0" />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium text-foreground truncate">{secretFile.name}</p>
+                <p className="text-xs font-mono text-muted-foreground">
+                  {secretFile.type || 'application/octet-stream'} · {secretFile.size.toLocaleString()} bytes
+                </p>
+              </div>
+              <button
+                onClick={() => {
+                  setSecretFile(null);
+                  setSuccess(null);
+                }}
+                className="p-1.5 rounded-full hover:bg-background border border-transparent hover:border-border transition-colors"
+              >
+                <X className="w-4 h-4 text-muted-foreground" />
+              </button>
+            </div>
+          ) : (
+            <Textarea
+              value={secretText}
+              onChange={(e) => {
+                setSecretText(e.target.value);
+                setSuccess(null);
+              }}
+              placeholder="Enter the text you want to hide..."
+              className="min-h-32 font-mono text-sm bg-muted/30 border-border focus:border-primary resize-none"
+            />
           )}
         </div>
-        <Textarea
-          value={secretText}
-          onChange={(e) => {
-            setSecretText(e.target.value);
-            setSuccess(false);
+      )}
+
+      <PassphraseInput
+        id="encode-passphrase"
+        label="Passphrase (optional)"
+        value={passphrase}
+        onChange={(value) => {
+          setPassphrase(value);
+          setSuccess(null);
+        }}
+        disabled={recipients.length > 0}
+        hint={
+          recipients.length > 0
+            ? 'Not needed: the message is encrypted to the selected recipients.'
+            : passphrase
+              ? 'The message will be sealed with AES-GCM. It cannot be recovered without this passphrase.'
+              : 'Leave empty to embed the message unencrypted.'
+        }
+      />
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label className="text-foreground">Encrypt to recipients</Label>
+          <KeyringDialog />
+        </div>
+        <RecipientPicker
+          contacts={recipientOptions}
+          selected={recipientFingerprints}
+          onSelectedChange={(fingerprints) => {
+            setRecipientFingerprints(fingerprints);
+            setSuccess(null);
           }}
-          placeholder="Enter the text you want to hide..."
-          className="min-h-32 font-mono text-sm bg-muted/30 border-border focus:border-primary resize-none"
         />
+        {recipients.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Only the selected recipients can open the message with their private key
+            ({getRecipientsOverhead(recipients.length).toLocaleString()} bytes of key material).
+          </p>
+        )}
       </div>
 
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="scatter-toggle" className="text-foreground">
+            Scatter bits with a secret key
+          </Label>
+          <Switch
+            id="scatter-toggle"
+            checked={scatterEnabled}
+            onCheckedChange={(checked) => {
+              setScatterEnabled(checked);
+              setSuccess(null);
+            }}
+          />
+        </div>
+        {scatterEnabled && (
+          <PassphraseInput
+            id="encode-scatter-key"
+            label="Scatter key"
+            value={scatterKey}
+            onChange={(value) => {
+              setScatterKey(value);
+              setSuccess(null);
+            }}
+            hint="Spreads the data over pseudo-random pixels. The same key is needed to decode."
+          />
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="sign-toggle" className="text-foreground">
+            Sign with my key
+          </Label>
+          <Switch
+            id="sign-toggle"
+            checked={signEnabled}
+            onCheckedChange={(checked) => {
+              setSignEnabled(checked);
+              setSuccess(null);
+            }}
+          />
+        </div>
+        {signEnabled && (
+          <p className="text-xs text-muted-foreground">
+            {identity
+              ? `Signing as ${identity.name} (${identity.fingerprint}).`
+              : 'Create or restore your key pair in the keyring to sign images.'}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="compress-toggle" className="text-foreground">
+            Compress before embedding
+          </Label>
+          <Switch
+            id="compress-toggle"
+            checked={compress}
+            onCheckedChange={(checked) => {
+              setCompress(checked);
+              setSuccess(null);
+            }}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {compress && compressedLength !== null && !isCompressed
+            ? 'This payload does not compress, so it will be stored as is.'
+            : 'Deflates the payload so long messages and text files take less space.'}
+        </p>
+      </div>
+
+      {outputFormat !== 'jpeg' && (
+        <>
+          <div className="space-y-3">
+            <Label className="text-foreground">Error correction</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={eccLevel}
+              onValueChange={(value) => {
+                // Radix clears the value when the active item is clicked again
+                if (!value) return;
+                setEccLevel(value as EccLevel);
+                setSuccess(null);
+              }}
+              className="grid grid-cols-4"
+            >
+              {(Object.keys(ECC_LEVEL_LABELS) as EccLevel[]).map((level) => (
+                <ToggleGroupItem key={level} value={level} className="w-full">
+                  {ECC_LEVEL_LABELS[level]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <p className="text-xs text-muted-foreground">
+              {eccLevel === 'none'
+                ? 'Without redundancy a single damaged pixel can make the message unreadable.'
+                : `Adds Reed-Solomon parity that repairs up to ${ECC_PARITY[eccLevel] / 2} damaged bytes in every 255, at the cost of capacity.`}
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="bit-depth" className="text-foreground">
+                Bits per channel
+              </Label>
+              <span className="text-xs font-mono text-muted-foreground">
+                {bitsPerChannel} LSB{bitsPerChannel > 1 ? 's' : ''}
+                {psnr !== null && (
+                  <>
+                    {' · '}
+                    <span className={psnr < 40 ? 'text-destructive' : undefined}>
+                      {Number.isFinite(psnr) ? `~${psnr.toFixed(1)} dB PSNR` : 'lossless'}
+                    </span>
+                  </>
+                )}
+              </span>
+            </div>
+            <Slider
+              id="bit-depth"
+              min={1}
+              max={maxBitsPerChannel}
+              step={1}
+              value={[bitsPerChannel]}
+              onValueChange={([value]) => {
+                setBitsPerChannel(value);
+                setSuccess(null);
+              }}
+            />
+            <p className="text-xs text-muted-foreground">
+              {sampleDepth === 16
+                ? 'The cover has 16 bits per sample: up to 8 low bits can change without touching what an 8-bit display shows.'
+                : 'More bits per channel multiply the capacity but add visible noise. Above 40 dB the changes are generally imperceptible.'}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="alpha-toggle" className="text-foreground">
+                Use alpha channel
+              </Label>
+              <Switch
+                id="alpha-toggle"
+                checked={useAlpha}
+                disabled={imageSize !== null && alphaPixels === 0}
+                onCheckedChange={(checked) => {
+                  setUseAlpha(checked);
+                  setSuccess(null);
+                }}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {imageSize === null
+                ? 'Stores one extra bit in the alpha of every opaque pixel.'
+                : alphaPixels === imageSize.width * imageSize.height
+                  ? 'Image is fully opaque: every pixel can carry an extra bit in its alpha.'
+                  : `${alphaPixels.toLocaleString()} of ${(imageSize.width * imageSize.height).toLocaleString()} pixels are opaque and can carry an extra bit.`}
+            </p>
+          </div>
+        </>
+      )}
+
       {error && (
         <motion.div
           initial={{ opacity: 0, y: -10 }}
@@ -129,12 +799,18 @@ export function EncodePanel() {
           className="flex items-center gap-2 p-3 rounded-lg bg-success/10 border border-success/30"
         >
           <CheckCircle2 className="w-4 h-4 text-success flex-shrink-0" />
-          <span className="text-sm text-success">
-            Message encoded successfully! Your file has been downloaded.
-          </span>
+          <span className="text-sm text-success">{success}</span>
         </motion.div>
       )}
 
+      {isProcessing && !isBatch && <TaskProgress message="Encoding..." progress={progress} />}
+
+      {isProcessing && (
+        <Button variant="outline" onClick={() => taskController.current?.abort()} className="w-full">
+          {isBatch ? 'Cancel batch' : 'Cancel'}
+        </Button>
+      )}
+
       <Button
         onClick={handleEncode}
         disabled={!canEncode || isProcessing}
@@ -149,7 +825,7 @@ export function EncodePanel() {
         ) : (
           <>
             <Lock className="w-5 h-5 mr-2" />
-            Encode & Download
+            {isBatch ? `Encode ${batchFiles.length} Images & Download ZIP` : 'Encode & Download'}
             <Download className="w-4 h-4 ml-2" />
           </>
         )}
@@ -6,10 +6,12 @@ interface ImageDropzoneProps {
   onImageSelect: (file: File) => void;
   selectedImage: string | null;
   onClear: () => void;
+  // Accept several images at once; all of them are passed here, the first also to onImageSelect
+  onImagesSelect?: (files: File[]) => void;
 }
 
 export const ImageDropzone = forwardRef<HTMLDivElement, ImageDropzoneProps>(
-  function ImageDropzone({ onImageSelect, selectedImage, onClear }, ref) {
+  function ImageDropzone({ onImageSelect, selectedImage, onClear, onImagesSelect }, ref) {
     const [isDragging, setIsDragging] = useState(false);
 
     const handleDrag = useCallback((e: React.DragEvent) => {
@@ -37,13 +39,20 @@ export const ImageDropzone = forwardRef<HTMLDivElement, ImageDropzoneProps>(
 
         const files = e.dataTransfer.files;
         if (files && files.length > 0) {
+          const images = Array.from(files).filter((file) => file.type.startsWith('image/'));
+          if (onImagesSelect && images.length > 0) {
+            onImageSelect(images[0]);
+            onImagesSelect(images);
+            return;
+          }
+
           const file = files[0];
           if (file.type.startsWith('image/')) {
             onImageSelect(file);
           }
         }
       },
-      [onImageSelect]
+      [onImageSelect, onImagesSelect]
     );
 
     const handleFileSelect = useCallback(
@@ -51,9 +60,10 @@ export const ImageDropzone = forwardRef<HTMLDivElement, ImageDropzoneProps>(
         const files = e.target.files;
         if (files && files.length > 0) {
           onImageSelect(files[0]);
+          onImagesSelect?.(Array.from(files));
         }
       },
-      [onImageSelect]
+      [onImageSelect, onImagesSelect]
     );
 
     return (
@@ -102,7 +112,8 @@ export const ImageDropzone = forwardRef<HTMLDivElement, ImageDropzoneProps>(
             >
               <input
                 type="file"
-                accept="image/png,image/jpeg"
+                accept="image/png,image/jpeg,image/webp,image/bmp,image/tiff,.tif,.tiff"
+                multiple={onImagesSelect !== undefined}
                 onChange={handleFileSelect}
                 className="hidden"
               />
@@ -120,10 +131,12 @@ export const ImageDropzone = forwardRef<HTMLDivElement, ImageDropzoneProps>(
                 </div>
                 <div className="text-center">
                   <p className="text-foreground font-medium">
-                    {isDragging ? 'Drop your image here' : 'Drag & drop an image'}
+                    {isDragging
+                      ? `Drop your ${onImagesSelect ? 'images' : 'image'} here`
+                      : `Drag & drop ${onImagesSelect ? 'images' : 'an image'}`}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
-                    or click to browse (PNG, JPG)
+                    or click to browse (PNG, JPG, WebP, BMP, TIFF)
                   </p>
                 </div>
               </motion.div>
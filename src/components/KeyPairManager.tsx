@@ -0,0 +1,146 @@
+import { useRef, useState } from 'react';
+import { Fingerprint, Download, Trash2, KeyRound, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { downloadBlob } from '@/lib/steganography';
+import { generateSigningKeyPair, getKeyFingerprint } from '@/lib/signing';
+import { generateEncryptionKeyPair } from '@/lib/recipientCrypto';
+import { KeyringIdentity, parsePrivateKeyFile, exportPublicKeys, exportPrivateKeys } from '@/lib/keyring';
+
+interface KeyPairManagerProps {
+  identity: KeyringIdentity | null;
+  onIdentityChange: (identity: KeyringIdentity | null) => void;
+}
+
+function downloadKeySet(keySet: string, fileName: string) {
+  downloadBlob(new Blob([keySet], { type: 'application/json' }), fileName);
+}
+
+export function KeyPairManager({ identity, onIdentityChange }: KeyPairManagerProps) {
+  const [name, setName] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const backupInput = useRef<HTMLInputElement>(null);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const [keyPair, encryptionKey] = await Promise.all([
+        generateSigningKeyPair(name.trim()),
+        generateEncryptionKeyPair(name.trim()),
+      ]);
+      const created: KeyringIdentity = {
+        name: name.trim(),
+        ...keyPair,
+        fingerprint: await getKeyFingerprint(keyPair.publicKey),
+        encryptionKey,
+      };
+      onIdentityChange(created);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Key generation failed');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      onIdentityChange(await parsePrivateKeyFile(await file.text(), name.trim() || 'Me'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not restore key pair');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm('Delete your key pair? Images encrypted to it can no longer be opened.')) return;
+    onIdentityChange(null);
+  };
+
+  if (!identity) {
+    return (
+      <div className="space-y-2 p-4 rounded-lg bg-muted/30 border border-border">
+        <Label htmlFor="signer-name" className="text-foreground">Your name</Label>
+        <div className="flex gap-2">
+          <Input
+            id="signer-name"
+            placeholder="e.g. Alice"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="bg-background/50"
+          />
+          <Button onClick={handleGenerate} disabled={!name.trim() || isGenerating}>
+            <KeyRound className="w-4 h-4 mr-1" />
+            Generate key pair
+          </Button>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => backupInput.current?.click()}
+          className="h-7 px-0 text-muted-foreground hover:text-foreground"
+        >
+          <Upload className="w-4 h-4 mr-1" />
+          Restore from a private key backup
+        </Button>
+        <input
+          ref={backupInput}
+          type="file"
+          accept=".jwks,.jwk,.json,application/json"
+          onChange={handleRestore}
+          className="hidden"
+        />
+        <p className="text-xs text-muted-foreground">
+          Creates two P-256 key pairs stored in this browser: one signs images, the other opens
+          images encrypted to you. Share the public keys with your contacts.
+        </p>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+    );
+  }
+
+  const baseName = identity.name.replace(/[^\w.-]+/g, '_') || 'signing_key';
+
+  return (
+    <div className="space-y-3 p-4 rounded-lg bg-muted/30 border border-border">
+      <div className="flex items-center gap-3">
+        <Fingerprint className="w-5 h-5 text-primary flex-shrink-0" />
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-medium text-foreground truncate">{identity.name}</p>
+          <p className="text-xs font-mono text-muted-foreground">{identity.fingerprint}</p>
+        </div>
+        <button
+          onClick={handleDelete}
+          title="Delete key pair"
+          className="p-1.5 rounded-full hover:bg-background border border-transparent hover:border-border transition-colors"
+        >
+          <Trash2 className="w-4 h-4 text-muted-foreground" />
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => downloadKeySet(exportPublicKeys(identity), `${baseName}.public.jwks`)}
+        >
+          <Download className="w-4 h-4 mr-1" />
+          Export public keys
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => downloadKeySet(exportPrivateKeys(identity), `${baseName}.private.jwks`)}
+        >
+          <Download className="w-4 h-4 mr-1" />
+          Back up private keys
+        </Button>
+      </div>
+    </div>
+  );
+}
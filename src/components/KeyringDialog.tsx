@@ -0,0 +1,43 @@
+import { KeySquare } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { KeyPairManager } from './KeyPairManager';
+import { ContactsManager } from './ContactsManager';
+import { useKeyring } from '@/hooks/use-keyring';
+
+export function KeyringDialog() {
+  const { identity, contacts, setIdentity, setContacts } = useKeyring();
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 text-muted-foreground hover:text-foreground">
+          <KeySquare className="w-4 h-4 mr-1" />
+          Keyring
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Keyring</DialogTitle>
+          <DialogDescription>
+            Your key pair and your contacts' public keys. Everything stays in this browser.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <span className="text-sm font-medium text-foreground">Your key pair</span>
+            <KeyPairManager identity={identity} onIdentityChange={setIdentity} />
+          </div>
+          <ContactsManager trustedKeys={contacts} onTrustedKeysChange={setContacts} />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,13 @@
 import { motion } from 'framer-motion';
-import { Image, Film } from 'lucide-react';
+import { Image, Film, Music } from 'lucide-react';
 
-export type MediaType = 'image' | 'video';
+export type MediaType = 'image' | 'video' | 'audio';
+
+const MEDIA_TYPES: { type: MediaType; label: string; icon: typeof Image }[] = [
+  { type: 'image', label: 'Image', icon: Image },
+  { type: 'video', label: 'Video', icon: Film },
+  { type: 'audio', label: 'Audio', icon: Music },
+];
 
 interface MediaTypeToggleProps {
   mediaType: MediaType;
@@ -9,40 +15,33 @@ interface MediaTypeToggleProps {
 }
 
 export function MediaTypeToggle({ mediaType, onMediaTypeChange }: MediaTypeToggleProps) {
+  const activeIndex = MEDIA_TYPES.findIndex((option) => option.type === mediaType);
+
   return (
     <div className="relative flex bg-muted/50 rounded-lg p-1 mb-4">
       <motion.div
-        className="absolute top-1 bottom-1 w-[calc(50%-4px)] bg-primary/20 border border-primary/30 rounded-md"
+        className="absolute top-1 bottom-1 w-[calc((100%-8px)/3)] bg-primary/20 border border-primary/30 rounded-md"
         initial={false}
         animate={{
-          x: mediaType === 'image' ? 0 : 'calc(100% + 4px)',
+          x: `${activeIndex * 100}%`,
         }}
         transition={{ type: 'spring', stiffness: 300, damping: 30 }}
       />
       
-      <button
-        onClick={() => onMediaTypeChange('image')}
-        className={`
-          relative z-10 flex items-center justify-center gap-2 flex-1 py-2 px-3
-          rounded-md font-medium text-xs transition-colors
-          ${mediaType === 'image' ? 'text-primary' : 'text-muted-foreground hover:text-foreground'}
-        `}
-      >
-        <Image className="w-3.5 h-3.5" />
-        Image
-      </button>
-      
-      <button
-        onClick={() => onMediaTypeChange('video')}
-        className={`
-          relative z-10 flex items-center justify-center gap-2 flex-1 py-2 px-3
-          rounded-md font-medium text-xs transition-colors
-          ${mediaType === 'video' ? 'text-primary' : 'text-muted-foreground hover:text-foreground'}
-        `}
-      >
-        <Film className="w-3.5 h-3.5" />
-        Video
-      </button>
+      {MEDIA_TYPES.map(({ type, label, icon: Icon }) => (
+        <button
+          key={type}
+          onClick={() => onMediaTypeChange(type)}
+          className={`
+            relative z-10 flex items-center justify-center gap-2 flex-1 py-2 px-3
+            rounded-md font-medium text-xs transition-colors
+            ${mediaType === type ? 'text-primary' : 'text-muted-foreground hover:text-foreground'}
+          `}
+        >
+          <Icon className="w-3.5 h-3.5" />
+          {label}
+        </button>
+      ))}
     </div>
   );
 }
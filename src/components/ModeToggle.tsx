@@ -1,48 +1,51 @@
 import { motion } from 'framer-motion';
-import { Lock, Unlock } from 'lucide-react';
+import { Lock, Unlock, ScanSearch } from 'lucide-react';
 
-type Mode = 'encode' | 'decode';
+export type Mode = 'encode' | 'decode' | 'analyze';
+
+const MODES: { mode: Mode; label: string; icon: typeof Lock }[] = [
+  { mode: 'encode', label: 'Encode', icon: Lock },
+  { mode: 'decode', label: 'Decode', icon: Unlock },
+  { mode: 'analyze', label: 'Analyze', icon: ScanSearch },
+];
 
 interface ModeToggleProps {
   mode: Mode;
   onModeChange: (mode: Mode) => void;
+  // Modes on offer, all of them by default
+  modes?: Mode[];
 }
 
-export function ModeToggle({ mode, onModeChange }: ModeToggleProps) {
+export function ModeToggle({ mode, onModeChange, modes = MODES.map((option) => option.mode) }: ModeToggleProps) {
+  const options = MODES.filter((option) => modes.includes(option.mode));
+  const activeIndex = options.findIndex((option) => option.mode === mode);
+
   return (
     <div className="relative flex bg-muted rounded-lg p-1">
       <motion.div
-        className="absolute top-1 bottom-1 w-[calc(50%-4px)] bg-card rounded-md shadow-card glow-primary"
+        className="absolute top-1 bottom-1 bg-card rounded-md shadow-card glow-primary"
+        style={{ width: `calc((100% - 8px) / ${options.length})` }}
         initial={false}
         animate={{
-          x: mode === 'encode' ? 0 : 'calc(100% + 4px)',
+          x: `${activeIndex * 100}%`,
         }}
         transition={{ type: 'spring', stiffness: 300, damping: 30 }}
       />
-      
-      <button
-        onClick={() => onModeChange('encode')}
-        className={`
-          relative z-10 flex items-center justify-center gap-2 flex-1 py-3 px-4
-          rounded-md font-medium text-sm transition-colors
-          ${mode === 'encode' ? 'text-primary' : 'text-muted-foreground hover:text-foreground'}
-        `}
-      >
-        <Lock className="w-4 h-4" />
-        Encode
-      </button>
-      
-      <button
-        onClick={() => onModeChange('decode')}
-        className={`
-          relative z-10 flex items-center justify-center gap-2 flex-1 py-3 px-4
-          rounded-md font-medium text-sm transition-colors
-          ${mode === 'decode' ? 'text-primary' : 'text-muted-foreground hover:text-foreground'}
-        `}
-      >
-        <Unlock className="w-4 h-4" />
-        Decode
-      </button>
+
+      {options.map(({ mode: option, label, icon: Icon }) => (
+        <button
+          key={option}
+          onClick={() => onModeChange(option)}
+          className={`
+            relative z-10 flex items-center justify-center gap-2 flex-1 py-3 px-4
+            rounded-md font-medium text-sm transition-colors
+            ${mode === option ? 'text-primary' : 'text-muted-foreground hover:text-foreground'}
+          `}
+        >
+          <Icon className="w-4 h-4" />
+          {label}
+        </button>
+      ))}
     </div>
   );
 }
@@ -0,0 +1,44 @@
+import { useState } from 'react';
+import { KeyRound, Eye, EyeOff } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface PassphraseInputProps {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  hint?: string;
+  disabled?: boolean;
+}
+
+export function PassphraseInput({ id, label, value, onChange, hint, disabled }: PassphraseInputProps) {
+  const [showPassphrase, setShowPassphrase] = useState(false);
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="text-foreground">{label}</Label>
+      <div className="relative">
+        <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          id={id}
+          type={showPassphrase ? 'text' : 'password'}
+          placeholder="••••••••"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="pl-10 pr-10 font-mono bg-muted/30"
+          autoComplete="off"
+          disabled={disabled}
+        />
+        <button
+          type="button"
+          onClick={() => setShowPassphrase(!showPassphrase)}
+          className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+        >
+          {showPassphrase ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+        </button>
+      </div>
+      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { TrustedKey } from '@/lib/signing';
+
+interface RecipientPickerProps {
+  contacts: TrustedKey[];
+  selected: string[];
+  onSelectedChange: (fingerprints: string[]) => void;
+  disabled?: boolean;
+}
+
+export function RecipientPicker({ contacts, selected, onSelectedChange, disabled }: RecipientPickerProps) {
+  if (contacts.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Add your key pair or contacts in the keyring to encrypt images to them.
+      </p>
+    );
+  }
+
+  const toggle = (fingerprint: string, checked: boolean) => {
+    onSelectedChange(
+      checked ? [...selected, fingerprint] : selected.filter((f) => f !== fingerprint)
+    );
+  };
+
+  return (
+    <ul className="space-y-1">
+      {contacts.map((contact) => (
+        <li key={contact.fingerprint}>
+          <label className="flex items-center gap-2 px-3 py-2 rounded-lg bg-muted/30 border border-border cursor-pointer">
+            <Checkbox
+              checked={selected.includes(contact.fingerprint)}
+              onCheckedChange={(checked) => toggle(contact.fingerprint, checked === true)}
+              disabled={disabled || !contact.encryptionKey}
+            />
+            <span className="text-sm text-foreground truncate flex-1">{contact.name}</span>
+            {!contact.encryptionKey && (
+              <span className="text-xs text-muted-foreground">No encryption key</span>
+            )}
+            <span className="text-xs font-mono text-muted-foreground">{contact.fingerprint}</span>
+          </label>
+        </li>
+      ))}
+    </ul>
+  );
+}
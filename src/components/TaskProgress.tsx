@@ -0,0 +1,19 @@
+import { Progress } from '@/components/ui/progress';
+
+interface TaskProgressProps {
+  message: string;
+  // 0-100
+  progress: number;
+}
+
+export function TaskProgress({ message, progress }: TaskProgressProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">{message}</span>
+        <span className="text-primary font-mono">{Math.round(progress)}%</span>
+      </div>
+      <Progress value={progress} className="h-2" />
+    </div>
+  );
+}
@@ -1,20 +1,52 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { Unlock, Copy, AlertCircle, CheckCircle2, Info } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { ImageDropzone } from './ImageDropzone';
-import { loadImage, decodeText } from '@/lib/steganography';
+import { VideoDropzone } from './VideoDropzone';
+import { TaskProgress } from './TaskProgress';
+import {
+  extractAviFrames,
+  extractFrames,
+  isAviFile,
+  getFrameThumbnail,
+  getVideoThumbnail,
+  VideoFrame,
+} from '@/lib/videoSteganography';
+import {
+  decodeFramesInWorker,
+  decodeImageFramesInWorker,
+  decodeWatermarkInWorker,
+  TaskCancelledError,
+} from '@/lib/stegoEngine';
+
+// Encoded videos are exported as AVI; older exports were PNG frames
+type VideoSource = 'video' | 'frames';
+
+type VideoDecodeMode = 'message' | 'watermark';
+
+const MODE_LABELS: Record<VideoDecodeMode, string> = {
+  message: 'Hidden message',
+  watermark: 'Watermark',
+};
 
 export function VideoDecodePanel() {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<VideoDecodeMode>('message');
+  const [source, setSource] = useState<VideoSource>('video');
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [preview, setPreview] = useState<string | null>(null);
   const [decodedText, setDecodedText] = useState<string | null>(null);
+  const [confidence, setConfidence] = useState<number | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const decodeController = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
 
   const handleImageSelect = useCallback((file: File) => {
-    setSelectedFile(file);
+    setSelectedFiles([file]);
     setDecodedText(null);
     setError(null);
     
@@ -25,30 +57,71 @@ export function VideoDecodePanel() {
     reader.readAsDataURL(file);
   }, []);
 
+  const handleVideoSelect = useCallback(async (file: File) => {
+    setSelectedFiles([file]);
+    setDecodedText(null);
+    setError(null);
+
+    try {
+      if (isAviFile(file)) {
+        const { frames } = await extractAviFrames(file);
+        setPreview(getFrameThumbnail(frames[0]));
+      } else {
+        setPreview(await getVideoThumbnail(file));
+      }
+    } catch (err) {
+      setSelectedFiles([]);
+      setError(err instanceof Error ? err.message : 'Failed to load video');
+    }
+  }, []);
+
   const handleClear = useCallback(() => {
-    setSelectedFile(null);
+    setSelectedFiles([]);
     setPreview(null);
     setDecodedText(null);
+    setConfidence(null);
     setError(null);
   }, []);
 
   const handleDecode = useCallback(async () => {
-    if (!selectedFile) return;
+    if (selectedFiles.length === 0) return;
 
     setIsProcessing(true);
     setError(null);
     setDecodedText(null);
+    setConfidence(null);
+    setProgress(0);
+    const controller = new AbortController();
+    decodeController.current = controller;
+    const engine = { onProgress: setProgress, signal: controller.signal };
 
     try {
-      const { imageData } = await loadImage(selectedFile);
-      const text = decodeText(imageData);
-      setDecodedText(text);
+      let frames: VideoFrame[];
+      if (mode === 'watermark') {
+        // Watermarked videos are usually re-encoded, so read them like any other video
+        const [file] = selectedFiles;
+        ({ frames } = isAviFile(file) ? await extractAviFrames(file) : await extractFrames(file));
+        const result = await decodeWatermarkInWorker(frames, engine);
+        setDecodedText(result.message);
+        setConfidence(result.confidence);
+        return;
+      }
+
+      if (source === 'video') {
+        ({ frames } = await extractAviFrames(selectedFiles[0]));
+        setDecodedText(await decodeFramesInWorker(frames, engine));
+      } else {
+        setDecodedText(await decodeImageFramesInWorker(selectedFiles, engine));
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Decoding failed');
+      if (!(err instanceof TaskCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Decoding failed');
+      }
     } finally {
+      decodeController.current = null;
       setIsProcessing(false);
     }
-  }, [selectedFile]);
+  }, [selectedFiles, source, mode]);
 
   const handleCopy = useCallback(async () => {
     if (!decodedText) return;
@@ -60,22 +133,78 @@ export function VideoDecodePanel() {
 
   return (
     <div className="space-y-6">
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        value={mode}
+        onValueChange={(value) => {
+          // Radix clears the value when the active item is clicked again
+          if (!value) return;
+          handleClear();
+          setMode(value as VideoDecodeMode);
+          setSource('video');
+        }}
+        className="grid grid-cols-2"
+        disabled={isProcessing}
+      >
+        {(Object.keys(MODE_LABELS) as VideoDecodeMode[]).map((value) => (
+          <ToggleGroupItem key={value} value={value} className="w-full">
+            {MODE_LABELS[value]}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
       <motion.div
         initial={{ opacity: 0, y: -10 }}
         animate={{ opacity: 1, y: 0 }}
         className="flex items-start gap-2 p-3 rounded-lg bg-muted/30 border border-border"
       >
         <Info className="w-4 h-4 text-primary flex-shrink-0 mt-0.5" />
-        <p className="text-xs text-muted-foreground">
-          Upload the encoded PNG frame that was downloaded after encoding.
-        </p>
+        <div className="text-xs text-muted-foreground space-y-1">
+          <p>
+            {mode === 'watermark'
+              ? 'Upload a watermarked video, even after it was re-encoded or shared.'
+              : source === 'video'
+                ? 'Upload the encoded AVI video that was downloaded after encoding.'
+                : 'Upload the encoded PNG frames from an older export. Select all of them at once, in any order.'}
+          </p>
+          {mode === 'message' && (
+            <button
+              type="button"
+              onClick={() => {
+                handleClear();
+                setSource(source === 'video' ? 'frames' : 'video');
+              }}
+              disabled={isProcessing}
+              className="text-primary hover:underline disabled:opacity-50"
+            >
+              {source === 'video' ? 'Decode PNG frames instead' : 'Decode an AVI video instead'}
+            </button>
+          )}
+        </div>
       </motion.div>
 
-      <ImageDropzone
-        onImageSelect={handleImageSelect}
-        selectedImage={preview}
-        onClear={handleClear}
-      />
+      {source === 'video' ? (
+        <VideoDropzone
+          onVideoSelect={handleVideoSelect}
+          selectedVideo={preview}
+          onClear={handleClear}
+          disabled={isProcessing}
+        />
+      ) : (
+        <ImageDropzone
+          onImageSelect={handleImageSelect}
+          selectedImage={preview}
+          onClear={handleClear}
+          onImagesSelect={setSelectedFiles}
+        />
+      )}
+
+      {selectedFiles.length > 1 && (
+        <p className="text-xs font-mono text-muted-foreground">
+          {selectedFiles.length} frames selected
+        </p>
+      )}
 
       {error && (
         <motion.div
@@ -98,7 +227,7 @@ export function VideoDecodePanel() {
             <div className="flex items-center gap-2">
               <CheckCircle2 className="w-4 h-4 text-success" />
               <span className="text-sm font-medium text-success">
-                Hidden message found!
+                {confidence !== null ? 'Watermark found!' : 'Hidden message found!'}
               </span>
             </div>
             <Button
@@ -116,12 +245,30 @@ export function VideoDecodePanel() {
               {decodedText}
             </p>
           </div>
+          {confidence !== null && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-muted-foreground">Confidence</span>
+                <span className="font-mono text-foreground">{Math.round(confidence * 100)}%</span>
+              </div>
+              <Progress value={confidence * 100} className="h-2" />
+            </div>
+          )}
         </motion.div>
       )}
 
+      {isProcessing && (
+        <>
+          <TaskProgress message="Decoding..." progress={progress} />
+          <Button variant="outline" onClick={() => decodeController.current?.abort()} className="w-full">
+            Cancel
+          </Button>
+        </>
+      )}
+
       <Button
         onClick={handleDecode}
-        disabled={!selectedFile || isProcessing}
+        disabled={selectedFiles.length === 0 || isProcessing}
         className="w-full h-12 bg-primary hover:bg-primary/90 text-primary-foreground font-medium glow-primary disabled:opacity-50 disabled:glow-none"
       >
         {isProcessing ? (
@@ -40,7 +40,8 @@ export function VideoDropzone({ onVideoSelect, selectedVideo, onClear, disabled
       const files = e.dataTransfer.files;
       if (files && files.length > 0) {
         const file = files[0];
-        if (file.type.startsWith('video/')) {
+        // AVI files often come without a MIME type
+        if (file.type.startsWith('video/') || /\.avi$/i.test(file.name)) {
           onVideoSelect(file);
         }
       }
@@ -113,7 +114,7 @@ export function VideoDropzone({ onVideoSelect, selectedVideo, onClear, disabled
           >
             <input
               type="file"
-              accept="video/mp4,video/avi,video/webm,video/quicktime"
+              accept="video/mp4,video/avi,video/x-msvideo,.avi,video/webm,video/quicktime"
               onChange={handleFileSelect}
               className="hidden"
               disabled={disabled}
@@ -1,28 +1,52 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { Lock, Download, AlertCircle, CheckCircle2, Info } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { Progress } from '@/components/ui/progress';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { VideoDropzone } from './VideoDropzone';
+import { TaskProgress } from './TaskProgress';
 import {
   extractFrames,
+  extractAviFrames,
+  isAviFile,
   calculateVideoCapacity,
-  encodeTextInFrames,
   framesToVideoBlob,
+  framesToCompressedVideoBlob,
+  getVideoExtension,
   downloadVideoBlob,
   getVideoThumbnail,
+  getFrameThumbnail,
   VideoFrame,
   VideoMetadata,
 } from '@/lib/videoSteganography';
+import { WATERMARK_MAX_LENGTH } from '@/lib/watermark';
+import { encodeFramesInWorker, TaskCancelledError } from '@/lib/stegoEngine';
+
+// Hidden messages need lossless output; watermarks survive compression but hold little
+type VideoEncodeMode = 'message' | 'watermark';
+
+const MODE_LABELS: Record<VideoEncodeMode, string> = {
+  message: 'Hidden message',
+  watermark: 'Watermark',
+};
+
+function formatFrameRange(indices: number[]): string {
+  if (indices.length === 0) return 'none';
+  const first = indices[0];
+  const last = indices[indices.length - 1];
+  return first === last ? `#${first}` : `#${first}–#${last}`;
+}
 
 export function VideoEncodePanel() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [videoThumbnail, setVideoThumbnail] = useState<string | null>(null);
   const [secretText, setSecretText] = useState('');
+  const [mode, setMode] = useState<VideoEncodeMode>('message');
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [progressMessage, setProgressMessage] = useState('');
+  const encodeController = useRef<AbortController | null>(null);
   const [capacity, setCapacity] = useState<number | null>(null);
   const [metadata, setMetadata] = useState<VideoMetadata | null>(null);
   const [frames, setFrames] = useState<VideoFrame[]>([]);
@@ -38,18 +62,28 @@ export function VideoEncodePanel() {
     setProgressMessage('Loading video...');
 
     try {
-      // Get thumbnail
-      const thumbnail = await getVideoThumbnail(file);
-      setVideoThumbnail(thumbnail);
-      
-      setProgressMessage('Extracting frames...');
-      
-      // Extract frames
-      const { frames: extractedFrames, metadata: videoMetadata } = await extractFrames(
-        file,
-        30,
-        (p) => setProgress(p)
-      );
+      let extractedFrames: VideoFrame[];
+      let videoMetadata: VideoMetadata;
+
+      if (isAviFile(file)) {
+        // Uncompressed AVI (e.g. a previous export) can't be played by the browser, read it directly
+        setProgressMessage('Extracting frames...');
+        ({ frames: extractedFrames, metadata: videoMetadata } = await extractAviFrames(file));
+        setVideoThumbnail(getFrameThumbnail(extractedFrames[0]));
+      } else {
+        // Get thumbnail
+        const thumbnail = await getVideoThumbnail(file);
+        setVideoThumbnail(thumbnail);
+
+        setProgressMessage('Extracting frames...');
+
+        // Extract frames
+        ({ frames: extractedFrames, metadata: videoMetadata } = await extractFrames(
+          file,
+          30,
+          (p) => setProgress(p)
+        ));
+      }
       
       setFrames(extractedFrames);
       setMetadata(videoMetadata);
@@ -82,39 +116,46 @@ export function VideoEncodePanel() {
     setError(null);
     setSuccess(false);
     setProgress(0);
-    setProgressMessage('Encoding message...');
+    setProgressMessage(mode === 'watermark' ? 'Embedding watermark...' : 'Encoding message...');
+    const controller = new AbortController();
+    encodeController.current = controller;
 
     try {
-      const encodedFrames = encodeTextInFrames(
-        frames,
-        secretText,
-        (p) => setProgress(p * 0.8)
-      );
+      const encodedFrames = await encodeFramesInWorker(frames, secretText, mode, {
+        onProgress: (p) => setProgress(p * 0.8),
+        signal: controller.signal,
+      });
       
       setProgressMessage('Creating output file...');
       
-      const blob = await framesToVideoBlob(
-        encodedFrames,
-        metadata?.fps || 30,
-        (p) => setProgress(80 + p * 0.2)
-      );
-      
+      // Uncompressed AVI preserves hidden data (video compression destroys LSB data),
+      // watermarks are made to survive it
+      const toBlob = mode === 'watermark' ? framesToCompressedVideoBlob : framesToVideoBlob;
+      const blob = await toBlob(encodedFrames, metadata?.fps, (p) => setProgress(80 + p * 0.2));
+      // Exporting runs on the page and can't be interrupted, a cancelled export is dropped instead
+      if (controller.signal.aborted) return;
+
       const originalName = selectedFile.name.replace(/\.[^/.]+$/, '');
-      // Output as PNG to preserve hidden data (video compression destroys LSB data)
-      downloadVideoBlob(blob, `${originalName}_encoded_frame.png`);
+      const suffix = mode === 'watermark' ? 'watermarked' : 'encoded';
+      downloadVideoBlob(blob, `${originalName}_${suffix}.${getVideoExtension(blob)}`);
       
       setSuccess(true);
       setProgress(100);
       setProgressMessage('');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Encoding failed');
+      if (!(err instanceof TaskCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Encoding failed');
+      }
     } finally {
+      encodeController.current = null;
       setIsProcessing(false);
     }
-  }, [selectedFile, secretText, frames, metadata]);
+  }, [selectedFile, secretText, frames, metadata, mode]);
 
-  const textLength = secretText.length;
-  const isOverCapacity = capacity !== null && textLength > capacity;
+  // Watermarks are limited in bytes rather than characters
+  const textLength = mode === 'watermark' ? new TextEncoder().encode(secretText).length : secretText.length;
+  const modeCapacity = mode === 'watermark' && capacity !== null ? WATERMARK_MAX_LENGTH : capacity;
+  const isOverCapacity = modeCapacity !== null && textLength > modeCapacity;
   const canEncode = selectedFile && secretText.trim() && !isOverCapacity && frames.length > 0;
 
   return (
@@ -126,15 +167,7 @@ export function VideoEncodePanel() {
         disabled={isProcessing}
       />
 
-      {isProcessing && progressMessage && (
-        <div className="space-y-2">
-          <div className="flex items-center justify-between text-sm">
-            <span className="text-muted-foreground">{progressMessage}</span>
-            <span className="text-primary font-mono">{Math.round(progress)}%</span>
-          </div>
-          <Progress value={progress} className="h-2" />
-        </div>
-      )}
+      {isProcessing && progressMessage && <TaskProgress message={progressMessage} progress={progress} />}
 
       {metadata && !isProcessing && (
         <motion.div
@@ -146,27 +179,62 @@ export function VideoEncodePanel() {
           <div className="text-xs text-muted-foreground space-y-1">
             <p>
               <span className="text-foreground font-medium">Video:</span>{' '}
-              {metadata.width}x{metadata.height}, {metadata.duration.toFixed(1)}s, {metadata.frameCount} frames
+              {metadata.width}x{metadata.height}, {metadata.duration.toFixed(1)}s, {metadata.fps.toFixed(2)} fps
+            </p>
+            <p>
+              <span className="text-foreground font-medium">Frames:</span>{' '}
+              {metadata.frameCount} ({formatFrameRange(metadata.frameIndices)})
+              {!metadata.frameAccurate && ' – positions estimated, this browser has no WebCodecs support'}
             </p>
             <p className="text-primary/80">
-              Note: Output is a PNG frame to preserve hidden data (video compression destroys steganographic data).
+              {mode === 'watermark'
+                ? 'Note: Output is a compressed video that can be shared. The watermark is repeated over every frame so it survives re-encoding at reasonable quality.'
+                : 'Note: Output is an uncompressed AVI of every frame, to preserve hidden data (video compression destroys steganographic data). Expect a large file.'}
             </p>
           </div>
         </motion.div>
       )}
 
+      <div className="space-y-3">
+        <label className="text-sm font-medium text-foreground">Mode</label>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={mode}
+          onValueChange={(value) => {
+            // Radix clears the value when the active item is clicked again
+            if (!value) return;
+            setMode(value as VideoEncodeMode);
+            setSuccess(false);
+          }}
+          className="grid grid-cols-2"
+          disabled={isProcessing}
+        >
+          {(Object.keys(MODE_LABELS) as VideoEncodeMode[]).map((value) => (
+            <ToggleGroupItem key={value} value={value} className="w-full">
+              {MODE_LABELS[value]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <p className="text-xs text-muted-foreground">
+          {mode === 'watermark'
+            ? `A short ID or message (up to ${WATERMARK_MAX_LENGTH} bytes) hidden in the image structure, robust to compression.`
+            : 'A long message hidden in the pixel LSBs, only readable from the lossless AVI output.'}
+        </p>
+      </div>
+
       <div className="space-y-3">
         <div className="flex items-center justify-between">
           <label className="text-sm font-medium text-foreground">
-            Secret Message
+            {mode === 'watermark' ? 'Watermark' : 'Secret Message'}
           </label>
-          {capacity !== null && (
+          {modeCapacity !== null && (
             <span
               className={`text-xs font-mono ${
                 isOverCapacity ? 'text-destructive' : 'text-muted-foreground'
               }`}
             >
-              {textLength.toLocaleString()} / {capacity.toLocaleString()} chars
+              {textLength.toLocaleString()} / {modeCapacity.toLocaleString()} {mode === 'watermark' ? 'bytes' : 'chars'}
             </span>
           )}
         </div>
@@ -176,7 +244,7 @@ export function VideoEncodePanel() {
             setSecretText(e.target.value);
             setSuccess(false);
           }}
-          placeholder="Enter the text you want to hide..."
+          placeholder={mode === 'watermark' ? 'Enter a short ID or message...' : 'Enter the text you want to hide...'}
           className="min-h-32 font-mono text-sm bg-muted/30 border-border focus:border-primary resize-none"
           disabled={isProcessing}
         />
@@ -206,6 +274,12 @@ export function VideoEncodePanel() {
         </motion.div>
       )}
 
+      {isProcessing && encodeController.current && (
+        <Button variant="outline" onClick={() => encodeController.current?.abort()} className="w-full">
+          Cancel
+        </Button>
+      )}
+
       <Button
         onClick={handleEncode}
         disabled={!canEncode || isProcessing}
@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from "react";
+import { TrustedKey } from "@/lib/signing";
+import {
+  KeyringIdentity,
+  loadIdentity,
+  saveIdentity,
+  loadTrustedKeys,
+  saveTrustedKeys,
+} from "@/lib/keyring";
+
+// Fired on window so every mounted panel picks up keyring edits
+const KEYRING_CHANGE_EVENT = "stegovault:keyring-change";
+
+export function useKeyring() {
+  const [identity, setIdentityState] = useState<KeyringIdentity | null>(loadIdentity);
+  const [contacts, setContactsState] = useState<TrustedKey[]>(loadTrustedKeys);
+
+  useEffect(() => {
+    const onChange = () => {
+      setIdentityState(loadIdentity());
+      setContactsState(loadTrustedKeys());
+    };
+    window.addEventListener(KEYRING_CHANGE_EVENT, onChange);
+    // Edits made in other tabs
+    window.addEventListener("storage", onChange);
+    return () => {
+      window.removeEventListener(KEYRING_CHANGE_EVENT, onChange);
+      window.removeEventListener("storage", onChange);
+    };
+  }, []);
+
+  const setIdentity = useCallback((next: KeyringIdentity | null) => {
+    saveIdentity(next);
+    window.dispatchEvent(new Event(KEYRING_CHANGE_EVENT));
+  }, []);
+
+  const setContacts = useCallback((next: TrustedKey[]) => {
+    saveTrustedKeys(next);
+    window.dispatchEvent(new Event(KEYRING_CHANGE_EVENT));
+  }, []);
+
+  return { identity, contacts, setIdentity, setContacts };
+}
@@ -0,0 +1,163 @@
+// Audio Steganography in the LSBs of 16-bit PCM samples
+//
+// The low byte of every sample stands in for one colour channel of a one-row
+// carrier image, so the image container (header, capacity, error correction,
+// encryption, signatures) is reused unchanged.
+
+import {
+  calculateCapacity,
+  encodePayload,
+  decodeMessage,
+  CapacityOptions,
+  EncodeOptions,
+  DecodeOptions,
+  DecodeResult,
+} from './steganography';
+import { SecretPayload } from './payload';
+import { isWav, parseWav, encodeWav, WavInfo } from './wav';
+
+// Samples per carrier pixel (its R, G and B channels; alpha is never used)
+const SAMPLES_PER_PIXEL = 3;
+
+export interface AudioCarrier {
+  // Complete 16-bit PCM WAV file
+  bytes: Uint8Array;
+  info: WavInfo;
+  // Interleaved samples over all channels
+  sampleCount: number;
+  duration: number;
+  // Decoded from another format (or bit depth) through Web Audio
+  converted: boolean;
+}
+
+function toCarrier(bytes: Uint8Array, converted: boolean): AudioCarrier {
+  const info = parseWav(bytes);
+  const sampleCount = Math.floor(info.dataLength / 2);
+  return {
+    bytes,
+    info,
+    sampleCount,
+    duration: sampleCount / info.channels / info.sampleRate,
+    converted,
+  };
+}
+
+/**
+ * Decodes any audio (or the soundtrack of a video) the browser understands into
+ * a 16-bit PCM WAV file
+ */
+async function decodeToWav(bytes: Uint8Array): Promise<Uint8Array> {
+  if (typeof AudioContext === 'undefined') {
+    throw new Error('This browser cannot decode audio, use a 16-bit WAV file');
+  }
+
+  const context = new AudioContext();
+  try {
+    let buffer: AudioBuffer;
+    try {
+      buffer = await context.decodeAudioData(bytes.slice().buffer);
+    } catch {
+      throw new Error('Could not decode the audio in this file');
+    }
+
+    const { numberOfChannels, length, sampleRate } = buffer;
+    const samples = new Int16Array(length * numberOfChannels);
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < length; i++) {
+        const value = Math.max(-1, Math.min(1, data[i]));
+        samples[i * numberOfChannels + channel] = Math.round(value * 0x7FFF);
+      }
+    }
+    return encodeWav(samples, numberOfChannels, sampleRate);
+  } finally {
+    void context.close();
+  }
+}
+
+/**
+ * Loads an audio carrier. 16-bit PCM WAV files are read byte for byte; anything
+ * else is decoded with Web Audio and converted to 16-bit PCM first
+ */
+export async function loadAudio(file: File): Promise<AudioCarrier> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (isWav(bytes)) {
+    const carrier = toCarrier(bytes, false);
+    if (carrier.info.bitsPerSample === 16) return carrier;
+  }
+  return toCarrier(await decodeToWav(bytes), true);
+}
+
+/**
+ * Short description of an audio carrier, e.g. "12.5s, stereo, 44.1 kHz, 16-bit PCM"
+ */
+export function describeAudio(audio: AudioCarrier): string {
+  const { channels, sampleRate } = audio.info;
+  const layout = channels === 1 ? 'mono' : channels === 2 ? 'stereo' : `${channels} channels`;
+  return `${audio.duration.toFixed(1)}s, ${layout}, ${(sampleRate / 1000).toFixed(1)} kHz, 16-bit PCM`;
+}
+
+function getCarrierPixels(audio: AudioCarrier): number {
+  return Math.floor(audio.sampleCount / SAMPLES_PER_PIXEL);
+}
+
+/**
+ * Copies the low byte of every sample into the RGB channels of a one-row image
+ */
+function toCarrierImage(audio: AudioCarrier): ImageData {
+  const pixels = getCarrierPixels(audio);
+  if (pixels === 0) {
+    throw new Error('Audio is too short to hide anything');
+  }
+
+  const { bytes, info } = audio;
+  const data = new Uint8ClampedArray(pixels * 4);
+  for (let pixel = 0; pixel < pixels; pixel++) {
+    for (let channel = 0; channel < SAMPLES_PER_PIXEL; channel++) {
+      // Little-endian: the low byte comes first
+      data[pixel * 4 + channel] = bytes[info.dataOffset + (pixel * SAMPLES_PER_PIXEL + channel) * 2];
+    }
+    data[pixel * 4 + 3] = 255;
+  }
+  return new ImageData(data, pixels, 1);
+}
+
+/**
+ * Writes the carrier image back into the samples' low bytes of a copy of the file
+ */
+function fromCarrierImage(audio: AudioCarrier, imageData: ImageData): Uint8Array {
+  const { info } = audio;
+  const bytes = new Uint8Array(audio.bytes);
+  for (let pixel = 0; pixel < imageData.width; pixel++) {
+    for (let channel = 0; channel < SAMPLES_PER_PIXEL; channel++) {
+      bytes[info.dataOffset + (pixel * SAMPLES_PER_PIXEL + channel) * 2] = imageData.data[pixel * 4 + channel];
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Calculates the maximum payload capacity of an audio carrier
+ */
+export function calculateAudioCapacity(audio: AudioCarrier, options: CapacityOptions = {}): number {
+  return calculateCapacity(getCarrierPixels(audio), 1, { ...options, alpha: false });
+}
+
+/**
+ * Hides a text or file payload in the samples and returns the WAV file
+ */
+export async function encodeAudioPayload(
+  audio: AudioCarrier,
+  payload: SecretPayload,
+  options: EncodeOptions = {}
+): Promise<Blob> {
+  const encoded = await encodePayload(toCarrierImage(audio), payload, { ...options, alpha: false });
+  return new Blob([fromCarrierImage(audio, encoded)], { type: 'audio/wav' });
+}
+
+/**
+ * Decodes a payload hidden by encodeAudioPayload
+ */
+export function decodeAudioMessage(audio: AudioCarrier, options: DecodeOptions = {}): Promise<DecodeResult> {
+  return decodeMessage(toCarrierImage(audio), options);
+}
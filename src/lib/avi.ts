@@ -0,0 +1,285 @@
+// Uncompressed AVI (RIFF, 24-bit DIB frames) muxer and demuxer
+//
+// Frames are stored as raw BGR pixels, so every bit of the RGB channels survives
+// the round trip. The alpha channel is not stored; frames come out opaque.
+
+const AVIF_HASINDEX = 0x10;
+const AVIIF_KEYFRAME = 0x10;
+const BI_RGB = 0;
+const MAIN_HEADER_SIZE = 56;
+const STREAM_HEADER_SIZE = 56;
+const BITMAP_INFO_SIZE = 40;
+const INDEX_ENTRY_SIZE = 16;
+const MAX_RIFF_SIZE = 0xFFFFFFFF;
+
+// The rate is stored as a fraction; this keeps fractional frame rates like 29.97
+const FPS_SCALE = 1000;
+
+export interface AviVideo {
+  frames: ImageData[];
+  width: number;
+  height: number;
+  fps: number;
+}
+
+/**
+ * Bytes per stored row: BGR pixels padded to a multiple of 4
+ */
+function getRowSize(width: number, bitCount: number): number {
+  return Math.ceil((width * bitCount) / 32) * 4;
+}
+
+function writeFourCC(view: DataView, offset: number, fourcc: string): void {
+  for (let i = 0; i < 4; i++) {
+    view.setUint8(offset + i, fourcc.charCodeAt(i));
+  }
+}
+
+function readFourCC(view: DataView, offset: number): string {
+  let fourcc = '';
+  for (let i = 0; i < 4; i++) {
+    fourcc += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return fourcc;
+}
+
+/**
+ * Converts RGBA pixels to a bottom-up BGR DIB
+ */
+function frameToDib(frame: ImageData, rowSize: number): Uint8Array {
+  const { width, height, data } = frame;
+  const dib = new Uint8Array(rowSize * height);
+  for (let y = 0; y < height; y++) {
+    let out = (height - 1 - y) * rowSize;
+    let i = y * width * 4;
+    for (let x = 0; x < width; x++, i += 4) {
+      dib[out++] = data[i + 2];
+      dib[out++] = data[i + 1];
+      dib[out++] = data[i];
+    }
+  }
+  return dib;
+}
+
+/**
+ * Converts a 24 or 32-bit DIB (bottom-up, or top-down for negative heights) to RGBA pixels
+ */
+function dibToFrame(
+  bytes: Uint8Array,
+  width: number,
+  height: number,
+  bitCount: number,
+  topDown: boolean
+): ImageData {
+  const rowSize = getRowSize(width, bitCount);
+  const bytesPerPixel = bitCount / 8;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    let i = (topDown ? y : height - 1 - y) * rowSize;
+    let out = y * width * 4;
+    for (let x = 0; x < width; x++, i += bytesPerPixel) {
+      data[out++] = bytes[i + 2];
+      data[out++] = bytes[i + 1];
+      data[out++] = bytes[i];
+      data[out++] = 255;
+    }
+  }
+  return new ImageData(data, width, height);
+}
+
+/**
+ * Muxes frames into an uncompressed AVI file
+ */
+export function muxAvi(frames: ImageData[], fps: number): Blob {
+  if (frames.length === 0) {
+    throw new Error('No frames to write');
+  }
+  const { width, height } = frames[0];
+  if (frames.some((frame) => frame.width !== width || frame.height !== height)) {
+    throw new Error('All frames must have the same size');
+  }
+
+  const rowSize = getRowSize(width, 24);
+  const frameSize = rowSize * height;
+  const rate = Math.max(1, Math.round(fps * FPS_SCALE));
+
+  // hdrl list: avih chunk + strl list (strh + strf chunks)
+  const strlSize = 4 + (8 + STREAM_HEADER_SIZE) + (8 + BITMAP_INFO_SIZE);
+  const hdrlSize = 4 + (8 + MAIN_HEADER_SIZE) + (8 + strlSize);
+  const moviSize = 4 + frames.length * (8 + frameSize);
+  const idx1Size = frames.length * INDEX_ENTRY_SIZE;
+  const riffSize = 4 + (8 + hdrlSize) + (8 + moviSize) + (8 + idx1Size);
+  if (riffSize > MAX_RIFF_SIZE) {
+    throw new Error('Video is too large for an uncompressed AVI file, use fewer or smaller frames');
+  }
+
+  const header = new DataView(new ArrayBuffer(12 + 8 + hdrlSize + 12));
+  let offset = 0;
+  const fourcc = (value: string) => {
+    writeFourCC(header, offset, value);
+    offset += 4;
+  };
+  const u32 = (value: number) => {
+    header.setUint32(offset, value, true);
+    offset += 4;
+  };
+  const u16 = (value: number) => {
+    header.setUint16(offset, value, true);
+    offset += 2;
+  };
+
+  fourcc('RIFF');
+  u32(riffSize);
+  fourcc('AVI ');
+
+  fourcc('LIST');
+  u32(hdrlSize);
+  fourcc('hdrl');
+
+  fourcc('avih');
+  u32(MAIN_HEADER_SIZE);
+  u32(Math.round(1e6 / fps)); // microseconds per frame
+  u32(Math.ceil(frameSize * fps)); // max bytes per second
+  u32(0); // padding granularity
+  u32(AVIF_HASINDEX);
+  u32(frames.length);
+  u32(0); // initial frames
+  u32(1); // streams
+  u32(frameSize); // suggested buffer size
+  u32(width);
+  u32(height);
+  offset += 16; // reserved
+
+  fourcc('LIST');
+  u32(strlSize);
+  fourcc('strl');
+
+  fourcc('strh');
+  u32(STREAM_HEADER_SIZE);
+  fourcc('vids');
+  fourcc('DIB ');
+  u32(0); // flags
+  u16(0); // priority
+  u16(0); // language
+  u32(0); // initial frames
+  u32(FPS_SCALE);
+  u32(rate);
+  u32(0); // start
+  u32(frames.length);
+  u32(frameSize);
+  u32(0xFFFFFFFF); // quality: default
+  u32(0); // sample size
+  u16(0); // frame rectangle
+  u16(0);
+  u16(width);
+  u16(height);
+
+  fourcc('strf');
+  u32(BITMAP_INFO_SIZE);
+  u32(BITMAP_INFO_SIZE);
+  u32(width);
+  u32(height); // positive: bottom-up rows
+  u16(1); // planes
+  u16(24); // bits per pixel
+  u32(BI_RGB);
+  u32(frameSize);
+  u32(0); // pixels per meter (x, y)
+  u32(0);
+  u32(0); // colours used / important
+  u32(0);
+
+  fourcc('LIST');
+  u32(moviSize);
+  fourcc('movi');
+
+  const parts: BlobPart[] = [header.buffer];
+  const index = new DataView(new ArrayBuffer(8 + idx1Size));
+  writeFourCC(index, 0, 'idx1');
+  index.setUint32(4, idx1Size, true);
+
+  // Index offsets are relative to the 'movi' fourcc
+  let chunkOffset = 4;
+  frames.forEach((frame, i) => {
+    const chunkHeader = new DataView(new ArrayBuffer(8));
+    writeFourCC(chunkHeader, 0, '00db');
+    chunkHeader.setUint32(4, frameSize, true);
+    parts.push(chunkHeader.buffer, frameToDib(frame, rowSize));
+
+    const entry = 8 + i * INDEX_ENTRY_SIZE;
+    writeFourCC(index, entry, '00db');
+    index.setUint32(entry + 4, AVIIF_KEYFRAME, true);
+    index.setUint32(entry + 8, chunkOffset, true);
+    index.setUint32(entry + 12, frameSize, true);
+    chunkOffset += 8 + frameSize;
+  });
+  parts.push(index.buffer);
+
+  return new Blob(parts, { type: 'video/x-msvideo' });
+}
+
+/**
+ * Demuxes an uncompressed AVI file (24 or 32-bit DIB video stream)
+ */
+export function demuxAvi(buffer: ArrayBuffer): AviVideo {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 12 || readFourCC(view, 0) !== 'RIFF' || readFourCC(view, 8) !== 'AVI ') {
+    throw new Error('Not an AVI file');
+  }
+
+  let width = 0;
+  let height = 0;
+  let topDown = false;
+  let bitCount = 0;
+  let fps = 0;
+  let videoStream = -1;
+  let streamIndex = -1;
+  const frames: ImageData[] = [];
+
+  const walk = (start: number, end: number) => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      const id = readFourCC(view, offset);
+      const size = view.getUint32(offset + 4, true);
+      const body = offset + 8;
+      if (body + size > buffer.byteLength) break;
+
+      if (id === 'LIST' || id === 'RIFF') {
+        walk(body + 4, body + size);
+      } else if (id === 'strh') {
+        streamIndex++;
+        if (readFourCC(view, body) === 'vids' && videoStream < 0) {
+          videoStream = streamIndex;
+          const scale = view.getUint32(body + 20, true);
+          const rate = view.getUint32(body + 24, true);
+          fps = scale > 0 ? rate / scale : 0;
+        }
+      } else if (id === 'strf' && streamIndex === videoStream && bitCount === 0) {
+        width = view.getInt32(body + 4, true);
+        const rawHeight = view.getInt32(body + 8, true);
+        topDown = rawHeight < 0;
+        height = Math.abs(rawHeight);
+        bitCount = view.getUint16(body + 14, true);
+        const compression = view.getUint32(body + 16, true);
+        if (compression !== BI_RGB || (bitCount !== 24 && bitCount !== 32)) {
+          throw new Error('Only uncompressed 24 or 32-bit AVI video can be decoded');
+        }
+      } else if (/^\d\d(db|dc)$/.test(id) && Number(id.slice(0, 2)) === videoStream && bitCount > 0) {
+        // Zero-size chunks repeat the previous frame
+        if (size === 0 && frames.length > 0) {
+          frames.push(frames[frames.length - 1]);
+        } else if (size >= getRowSize(width, bitCount) * height) {
+          frames.push(dibToFrame(new Uint8Array(buffer, body, size), width, height, bitCount, topDown));
+        }
+      }
+
+      // Chunks are padded to an even size
+      offset = body + size + (size & 1);
+    }
+  };
+  walk(12, Math.min(buffer.byteLength, 8 + view.getUint32(4, true)));
+
+  if (videoStream < 0 || frames.length === 0) {
+    throw new Error('No video frames found in this AVI file');
+  }
+  return { frames, width, height, fps };
+}
@@ -0,0 +1,103 @@
+// Batch encoding of many images, a few at a time on the stego engine
+//
+// Each file is an encodeImage task: its worker decodes the cover, embeds the
+// payload, writes the output file and reads it back, so the page stays
+// responsive however large the covers are. The encoded files are collected
+// into one ZIP archive.
+
+import { ImageFormat, IMAGE_FORMATS } from './steganography';
+import { encodeImageInWorker, TaskCancelledError } from './stegoEngine';
+import { TaskEncodeOptions } from './stegoTasks';
+import { SecretPayload } from './payload';
+import { createZip, uniqueZipNames } from './zip';
+
+// WebP is left out: not every browser can encode it off the main thread
+export type BatchFormat = Extract<ImageFormat, 'png' | 'bmp' | 'tiff'>;
+export const BATCH_FORMATS: BatchFormat[] = ['png', 'bmp', 'tiff'];
+
+// Workers beyond this rarely help and each one holds a decoded image in memory
+const MAX_WORKERS = 4;
+
+export interface BatchJob {
+  file: File;
+  payload: SecretPayload;
+}
+
+export type BatchStatus = 'queued' | 'encoding' | 'done' | 'failed';
+
+export interface BatchItemState {
+  status: BatchStatus;
+  // Why the file failed, for 'failed'
+  error?: string;
+}
+
+export interface BatchResult {
+  zip: Blob;
+  encoded: number;
+  failed: number;
+}
+
+function getPoolSize(jobCount: number): number {
+  // Leave a core for the page
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(jobCount, MAX_WORKERS, cores - 1));
+}
+
+/**
+ * Name of the encoded file for a cover, e.g. holiday.jpg becomes holiday_encoded.png
+ */
+function getOutputName(file: File, format: BatchFormat): string {
+  return `${file.name.replace(/\.[^/.]+$/, '')}_encoded.${IMAGE_FORMATS[format].extension}`;
+}
+
+/**
+ * Encodes every job with the same options and packs the results into a ZIP.
+ * A file that fails is reported through onItemChange and left out of the archive;
+ * aborting the signal stops all tasks and rejects with a TaskCancelledError
+ */
+export async function encodeBatch(
+  jobs: BatchJob[],
+  options: TaskEncodeOptions,
+  format: BatchFormat,
+  onItemChange: (index: number, state: BatchItemState) => void,
+  signal?: AbortSignal
+): Promise<BatchResult> {
+  const outputs: (Uint8Array | null)[] = jobs.map(() => null);
+  let next = 0;
+
+  const processQueue = async () => {
+    while (next < jobs.length) {
+      if (signal?.aborted) throw new TaskCancelledError();
+      const index = next++;
+      const { file, payload } = jobs[index];
+
+      onItemChange(index, { status: 'encoding' });
+      try {
+        const blob = await encodeImageInWorker(file, payload, options, format, { signal });
+        outputs[index] = new Uint8Array(await blob.arrayBuffer());
+        onItemChange(index, { status: 'done' });
+      } catch (err) {
+        if (err instanceof TaskCancelledError) throw err;
+        onItemChange(index, { status: 'failed', error: err instanceof Error ? err.message : 'Encoding failed' });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: getPoolSize(jobs.length) }, processQueue));
+
+  const encoded = jobs.flatMap((job, index) => {
+    const bytes = outputs[index];
+    return bytes ? [{ name: getOutputName(job.file, format), bytes }] : [];
+  });
+  if (encoded.length === 0) {
+    throw new Error('None of the images could be encoded');
+  }
+
+  const names = uniqueZipNames(encoded.map((entry) => entry.name));
+  const zip = createZip(encoded.map((entry, i) => ({ name: names[i], bytes: entry.bytes })));
+  return {
+    zip: new Blob([zip], { type: 'application/zip' }),
+    encoded: encoded.length,
+    failed: jobs.length - encoded.length,
+  };
+}
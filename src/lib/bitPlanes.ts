@@ -0,0 +1,118 @@
+// Bit planes of an image, rendered black and white to see what its bits hold
+
+import { loadImage, getPayloadRegion, PixelImage, PayloadRegion } from './steganography';
+
+export type BitPlaneChannel = 'red' | 'green' | 'blue' | 'alpha';
+
+export const BIT_PLANE_CHANNELS: BitPlaneChannel[] = ['red', 'green', 'blue', 'alpha'];
+
+const SET_COLOR = [255, 255, 255];
+const CLEAR_COLOR = [0, 0, 0];
+// Colours of the highlighted region, for set and clear bits, and of bits that differ from the original
+const REGION_SET_COLOR = [25, 230, 209];
+const REGION_CLEAR_COLOR = [8, 69, 63];
+const DIFFERENCE_COLOR = [230, 38, 38];
+
+export interface BitPlaneOptions {
+  // Same-sized image whose plane is compared: pixels where the bit differs are marked
+  compareTo?: PixelImage;
+  // Tints the first this many pixels, such as the region a payload occupies
+  highlightPixels?: number;
+}
+
+export interface BitPlaneViewOptions {
+  // Same-sized original whose plane is shown alongside and compared
+  original?: PixelImage;
+  highlightPixels?: number;
+}
+
+export interface InspectedImage {
+  // The full samples, 16-bit for a 16-bit PNG
+  image: PixelImage;
+  // Where a sequentially embedded payload sits, null when none is found
+  region: PayloadRegion | null;
+}
+
+export interface BitPlaneView {
+  plane: ImageData;
+  // The original's plane, when one is compared
+  originalPlane: ImageData | null;
+  // Pixels whose bit differs from the original
+  differences: number;
+}
+
+function getBit(image: PixelImage, pixel: number, offset: number, bit: number): number {
+  return (image.data[pixel * 4 + offset] >> bit) & 1;
+}
+
+/**
+ * Renders one bit of one channel as an opaque black and white image, white
+ * where the bit is set. Bit 0 is the least significant; in 16-bit images the
+ * bits are those of the low byte
+ */
+export function renderBitPlane(
+  image: PixelImage,
+  channel: BitPlaneChannel,
+  bit: number,
+  { compareTo, highlightPixels = 0 }: BitPlaneOptions = {}
+): ImageData {
+  const { width, height } = image;
+  const offset = BIT_PLANE_CHANNELS.indexOf(channel);
+  const pixels = new Uint8ClampedArray(width * height * 4);
+
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    const value = getBit(image, pixel, offset, bit);
+    let color = value ? SET_COLOR : CLEAR_COLOR;
+    if (compareTo && getBit(compareTo, pixel, offset, bit) !== value) {
+      color = DIFFERENCE_COLOR;
+    } else if (pixel < highlightPixels) {
+      color = value ? REGION_SET_COLOR : REGION_CLEAR_COLOR;
+    }
+    pixels.set(color, pixel * 4);
+    pixels[pixel * 4 + 3] = 255;
+  }
+  return new ImageData(pixels, width, height);
+}
+
+/**
+ * Number of pixels whose bit in the given plane differs between two same-sized images
+ */
+export function countBitDifferences(
+  image: PixelImage,
+  original: PixelImage,
+  channel: BitPlaneChannel,
+  bit: number
+): number {
+  const offset = BIT_PLANE_CHANNELS.indexOf(channel);
+  let differences = 0;
+  for (let pixel = 0; pixel < image.width * image.height; pixel++) {
+    if (getBit(image, pixel, offset, bit) !== getBit(original, pixel, offset, bit)) differences++;
+  }
+  return differences;
+}
+
+/**
+ * Loads an image file's pixels and finds the region its payload takes
+ */
+export async function inspectImage(file: Blob): Promise<InspectedImage> {
+  const { imageData, imageData16 } = await loadImage(file);
+  const image = imageData16 ?? imageData;
+  return { image, region: getPayloadRegion(image) };
+}
+
+/**
+ * Renders the plane of an image and, when an original is given, the original's
+ * plane and the count of bits that differ between them
+ */
+export function renderBitPlanes(
+  image: PixelImage,
+  channel: BitPlaneChannel,
+  bit: number,
+  { original, highlightPixels = 0 }: BitPlaneViewOptions = {}
+): BitPlaneView {
+  return {
+    plane: renderBitPlane(image, channel, bit, { compareTo: original, highlightPixels }),
+    originalPlane: original ? renderBitPlane(original, channel, bit, { highlightPixels }) : null,
+    differences: original ? countBitDifferences(image, original, channel, bit) : 0,
+  };
+}
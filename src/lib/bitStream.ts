@@ -0,0 +1,37 @@
+// Bit-level reading over byte arrays, most significant bit first
+//
+// The embedding loop moves a few bits per pixel channel; this keeps them in
+// typed arrays instead of strings of '0' and '1' characters.
+
+/**
+ * Reads groups of bits from bytes. Reading past the end yields zero bits, so
+ * the final group of a payload is padded the way it is written
+ */
+export class BitReader {
+  private readonly bytes: Uint8Array;
+  private readonly bitLength: number;
+  private position = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.bitLength = bytes.length * 8;
+  }
+
+  /** Bits left before the end of the bytes */
+  get remaining(): number {
+    return Math.max(0, this.bitLength - this.position);
+  }
+
+  /**
+   * Reads count bits (at most 32) as an unsigned number
+   */
+  read(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const position = this.position++;
+      const bit = position < this.bitLength ? (this.bytes[position >> 3] >> (7 - (position & 7))) & 1 : 0;
+      value = (value << 1) | bit;
+    }
+    return value >>> 0;
+  }
+}
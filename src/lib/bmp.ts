@@ -0,0 +1,158 @@
+// Uncompressed BMP encoder and decoder
+//
+// Opaque images are written as 24-bit BGR, anything with transparency as 32-bit
+// BGRA with an explicit alpha mask, so every channel survives the round trip.
+
+const FILE_HEADER_SIZE = 14;
+const INFO_HEADER_SIZE = 40;
+const V4_HEADER_SIZE = 108;
+const BI_RGB = 0;
+const BI_BITFIELDS = 3;
+// 'sRGB' colour space tag of a BITMAPV4HEADER
+const LCS_SRGB = 0x73524742;
+// 72 DPI in pixels per metre
+const PIXELS_PER_METRE = 2835;
+
+/**
+ * Whether the bytes start like a BMP file
+ */
+export function isBmp(bytes: Uint8Array): boolean {
+  return bytes.length > FILE_HEADER_SIZE + 4 && bytes[0] === 0x42 && bytes[1] === 0x4D;
+}
+
+function hasTransparency(imageData: ImageData): boolean {
+  const { data } = imageData;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 255) return true;
+  }
+  return false;
+}
+
+/**
+ * Bytes per stored row, padded to a multiple of 4
+ */
+function getRowSize(width: number, bitCount: number): number {
+  return Math.ceil((width * bitCount) / 32) * 4;
+}
+
+/**
+ * Writes the pixels as a bottom-up BMP
+ */
+export function encodeBmp(imageData: ImageData): Uint8Array {
+  const { width, height, data } = imageData;
+  const withAlpha = hasTransparency(imageData);
+  const bitCount = withAlpha ? 32 : 24;
+  const headerSize = withAlpha ? V4_HEADER_SIZE : INFO_HEADER_SIZE;
+  const rowSize = getRowSize(width, bitCount);
+  const pixelOffset = FILE_HEADER_SIZE + headerSize;
+  const bytes = new Uint8Array(pixelOffset + rowSize * height);
+  const view = new DataView(bytes.buffer);
+
+  bytes[0] = 0x42; // 'B'
+  bytes[1] = 0x4D; // 'M'
+  view.setUint32(2, bytes.length, true);
+  view.setUint32(10, pixelOffset, true);
+
+  view.setUint32(14, headerSize, true);
+  view.setInt32(18, width, true);
+  view.setInt32(22, height, true); // positive: bottom-up rows
+  view.setUint16(26, 1, true); // planes
+  view.setUint16(28, bitCount, true);
+  view.setUint32(30, withAlpha ? BI_BITFIELDS : BI_RGB, true);
+  view.setUint32(34, rowSize * height, true);
+  view.setInt32(38, PIXELS_PER_METRE, true);
+  view.setInt32(42, PIXELS_PER_METRE, true);
+  if (withAlpha) {
+    view.setUint32(54, 0x00FF0000, true); // red mask
+    view.setUint32(58, 0x0000FF00, true); // green mask
+    view.setUint32(62, 0x000000FF, true); // blue mask
+    view.setUint32(66, 0xFF000000, true); // alpha mask
+    view.setUint32(70, LCS_SRGB, true);
+  }
+
+  const bytesPerPixel = bitCount / 8;
+  for (let y = 0; y < height; y++) {
+    let out = pixelOffset + (height - 1 - y) * rowSize;
+    let i = y * width * 4;
+    for (let x = 0; x < width; x++, i += 4, out += bytesPerPixel) {
+      bytes[out] = data[i + 2];
+      bytes[out + 1] = data[i + 1];
+      bytes[out + 2] = data[i];
+      if (withAlpha) bytes[out + 3] = data[i + 3];
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Shift of the lowest set bit of a channel mask
+ */
+function maskShift(mask: number): number {
+  let shift = 0;
+  while (shift < 32 && ((mask >>> shift) & 1) === 0) shift++;
+  return shift;
+}
+
+/**
+ * Reads an uncompressed 24 or 32-bit BMP (bottom-up, or top-down for negative heights)
+ */
+export function decodeBmp(bytes: Uint8Array): ImageData {
+  if (!isBmp(bytes)) {
+    throw new Error('Not a BMP file');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const pixelOffset = view.getUint32(10, true);
+  const headerSize = view.getUint32(14, true);
+  const width = view.getInt32(18, true);
+  const rawHeight = view.getInt32(22, true);
+  const bitCount = view.getUint16(28, true);
+  const compression = headerSize >= INFO_HEADER_SIZE ? view.getUint32(30, true) : BI_RGB;
+  const height = Math.abs(rawHeight);
+  const topDown = rawHeight < 0;
+
+  if ((bitCount !== 24 && bitCount !== 32) || (compression !== BI_RGB && compression !== BI_BITFIELDS)) {
+    throw new Error('Only uncompressed 24 and 32-bit BMP images are supported');
+  }
+  if (width <= 0 || height === 0) {
+    throw new Error('BMP image has no size');
+  }
+
+  // BI_RGB 32-bit pixels are BGRX; bit fields follow the info header (or are part of a V4/V5 header)
+  let masks = [0x00FF0000, 0x0000FF00, 0x000000FF, 0];
+  if (compression === BI_BITFIELDS) {
+    const maskOffset = FILE_HEADER_SIZE + INFO_HEADER_SIZE;
+    masks = [0, 4, 8].map((delta) => view.getUint32(maskOffset + delta, true));
+    masks.push(headerSize >= V4_HEADER_SIZE ? view.getUint32(maskOffset + 12, true) : 0);
+  }
+  const shifts = masks.map(maskShift);
+
+  const rowSize = getRowSize(width, bitCount);
+  if (pixelOffset + rowSize * height > bytes.length) {
+    throw new Error('BMP file is truncated');
+  }
+
+  const bytesPerPixel = bitCount / 8;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    let i = pixelOffset + (topDown ? y : height - 1 - y) * rowSize;
+    let out = y * width * 4;
+    for (let x = 0; x < width; x++, i += bytesPerPixel, out += 4) {
+      if (bitCount === 24) {
+        data[out] = bytes[i + 2];
+        data[out + 1] = bytes[i + 1];
+        data[out + 2] = bytes[i];
+        data[out + 3] = 255;
+        continue;
+      }
+      const pixel = view.getUint32(i, true);
+      for (let channel = 0; channel < 3; channel++) {
+        data[out + channel] = (pixel & masks[channel]) >>> shifts[channel];
+      }
+      data[out + 3] = masks[3] ? (pixel & masks[3]) >>> shifts[3] : 255;
+    }
+  }
+
+  return new ImageData(data, width, height);
+}
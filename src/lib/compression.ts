@@ -0,0 +1,71 @@
+// Payload compression using the built-in CompressionStream (zlib/deflate)
+
+const FORMAT: CompressionFormat = 'deflate';
+
+// Refuse to inflate payloads beyond this size (guards against decompression bombs)
+const MAX_DECOMPRESSED_SIZE = 64 * 1024 * 1024;
+
+/**
+ * Pipes bytes through a (de)compression stream and collects the output.
+ * Returns null when the output would exceed maxOutput bytes
+ */
+async function pipeBytes(
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+  maxOutput: number
+): Promise<Uint8Array | null> {
+  const writer = stream.writable.getWriter();
+  const reader = stream.readable.getReader();
+
+  // Write and read concurrently so large inputs don't stall on backpressure
+  const writing = writer.write(bytes).then(() => writer.close());
+  writing.catch(() => {
+    // Surfaced through the reader below
+  });
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxOutput) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  await writing;
+
+  const output = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+/**
+ * Deflate-compresses bytes
+ */
+export async function compressBytes(bytes: Uint8Array): Promise<Uint8Array> {
+  return (await pipeBytes(bytes, new CompressionStream(FORMAT), Infinity)) as Uint8Array;
+}
+
+/**
+ * Inflates bytes produced by compressBytes
+ */
+export async function decompressBytes(bytes: Uint8Array): Promise<Uint8Array> {
+  let output: Uint8Array | null;
+  try {
+    output = await pipeBytes(bytes, new DecompressionStream(FORMAT), MAX_DECOMPRESSED_SIZE);
+  } catch {
+    throw new Error('Compressed payload is corrupted');
+  }
+
+  if (!output) {
+    throw new Error('Decompressed payload is too large');
+  }
+  return output;
+}
@@ -0,0 +1,25 @@
+// CRC-32 (IEEE 802.3, as used by zlib and PNG)
+
+const CRC_TABLE = new Uint32Array(256);
+
+(() => {
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    CRC_TABLE[n] = c >>> 0;
+  }
+})();
+
+/**
+ * Computes the CRC-32 of the given bytes as an unsigned 32-bit integer. Pass the
+ * CRC of the preceding bytes to continue a checksum over data read in chunks
+ */
+export function crc32(bytes: Uint8Array, previous = 0): number {
+  let crc = (previous ^ 0xFFFFFFFF) >>> 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
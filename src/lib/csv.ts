@@ -0,0 +1,59 @@
+// CSV parsing (RFC 4180)
+//
+// Fields may be quoted, and quoted fields may hold separators, line breaks and
+// doubled quotes. Both CRLF and LF line endings are accepted.
+
+/**
+ * Splits CSV text into rows of fields. Blank lines are skipped
+ */
+export function parseCsv(text: string, separator = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  // Whether the current field was quoted, so a row holding just "" is not blank
+  let fieldQuoted = false;
+
+  const endRow = () => {
+    if (row.length > 0 || field !== '' || fieldQuoted) {
+      row.push(field);
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+    fieldQuoted = false;
+  };
+
+  // A byte order mark from spreadsheet exports is not part of the first field
+  const start = text.charCodeAt(0) === 0xFEFF ? 1 : 0;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+      fieldQuoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('CSV file has an unterminated quoted field');
+  }
+  endRow();
+
+  return rows;
+}
@@ -0,0 +1,263 @@
+// Synchronous inflate for zlib streams (RFC 1950 / RFC 1951)
+//
+// A straightforward canonical-Huffman decoder in the style of zlib's puff.c.
+// Unlike DecompressionStream it runs synchronously and can write straight into
+// an output buffer of known size, which is what image decoders need.
+
+const MAX_BITS = 15;
+const MAX_LITERAL_CODES = 286;
+const MAX_DISTANCE_CODES = 30;
+const FIXED_LITERAL_CODES = 288;
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+  8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+// Order in which code length code lengths are stored in a dynamic block header
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const CORRUPT_MESSAGE = 'Compressed data is corrupted';
+
+interface Huffman {
+  // Number of codes of each length
+  counts: Uint16Array;
+  // Symbols ordered by code
+  symbols: Uint16Array;
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(MAX_BITS + 2);
+  for (let length = 1; length <= MAX_BITS; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol] !== 0) symbols[offsets[lengths[symbol]]++] = symbol;
+  }
+  return { counts, symbols };
+}
+
+let fixedTables: { literals: Huffman; distances: Huffman } | null = null;
+
+function getFixedTables(): { literals: Huffman; distances: Huffman } {
+  if (!fixedTables) {
+    const lengths = new Uint8Array(FIXED_LITERAL_CODES);
+    lengths.fill(8, 0, 144);
+    lengths.fill(9, 144, 256);
+    lengths.fill(7, 256, 280);
+    lengths.fill(8, 280, 288);
+    fixedTables = {
+      literals: buildHuffman(lengths),
+      distances: buildHuffman(new Uint8Array(MAX_DISTANCE_CODES).fill(5)),
+    };
+  }
+  return fixedTables;
+}
+
+class Inflater {
+  private position: number;
+  private bitBuffer = 0;
+  private bitCount = 0;
+  output: Uint8Array;
+  length = 0;
+
+  constructor(private readonly input: Uint8Array, start: number, private readonly maxOutput: number, sizeHint: number) {
+    this.position = start;
+    this.output = new Uint8Array(Math.max(1024, Math.min(sizeHint, maxOutput)));
+  }
+
+  private bits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.position >= this.input.length) throw new Error(CORRUPT_MESSAGE);
+      this.bitBuffer |= this.input[this.position++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  private decode(huffman: Huffman): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length <= MAX_BITS; length++) {
+      code |= this.bits(1);
+      const count = huffman.counts[length];
+      if (code - count < first) return huffman.symbols[index + (code - first)];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error(CORRUPT_MESSAGE);
+  }
+
+  private ensureRoom(extra: number): void {
+    const needed = this.length + extra;
+    if (needed <= this.output.length) return;
+    if (needed > this.maxOutput) {
+      throw new Error('Decompressed data is too large');
+    }
+    const grown = new Uint8Array(Math.min(this.maxOutput, Math.max(needed, this.output.length * 2)));
+    grown.set(this.output.subarray(0, this.length));
+    this.output = grown;
+  }
+
+  private stored(): void {
+    // Stored blocks start on a byte boundary
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+    if (this.position + 4 > this.input.length) throw new Error(CORRUPT_MESSAGE);
+    const length = this.input[this.position] | (this.input[this.position + 1] << 8);
+    const complement = this.input[this.position + 2] | (this.input[this.position + 3] << 8);
+    this.position += 4;
+    if (length !== (~complement & 0xFFFF) || this.position + length > this.input.length) {
+      throw new Error(CORRUPT_MESSAGE);
+    }
+    this.ensureRoom(length);
+    this.output.set(this.input.subarray(this.position, this.position + length), this.length);
+    this.length += length;
+    this.position += length;
+  }
+
+  private codes(literals: Huffman, distances: Huffman): void {
+    for (;;) {
+      let symbol = this.decode(literals);
+      if (symbol < 256) {
+        this.ensureRoom(1);
+        this.output[this.length++] = symbol;
+        continue;
+      }
+      if (symbol === 256) return;
+
+      symbol -= 257;
+      if (symbol >= LENGTH_BASE.length) throw new Error(CORRUPT_MESSAGE);
+      const length = LENGTH_BASE[symbol] + this.bits(LENGTH_EXTRA[symbol]);
+      const distanceSymbol = this.decode(distances);
+      if (distanceSymbol >= MAX_DISTANCE_CODES) throw new Error(CORRUPT_MESSAGE);
+      const distance = DISTANCE_BASE[distanceSymbol] + this.bits(DISTANCE_EXTRA[distanceSymbol]);
+      if (distance > this.length) throw new Error(CORRUPT_MESSAGE);
+
+      this.ensureRoom(length);
+      // Byte by byte: the source may overlap the bytes being written
+      const output = this.output;
+      let from = this.length - distance;
+      for (let i = 0; i < length; i++) {
+        output[this.length++] = output[from++];
+      }
+    }
+  }
+
+  private dynamic(): void {
+    const literalCount = this.bits(5) + 257;
+    const distanceCount = this.bits(5) + 1;
+    const codeLengthCount = this.bits(4) + 4;
+    if (literalCount > MAX_LITERAL_CODES || distanceCount > MAX_DISTANCE_CODES) {
+      throw new Error(CORRUPT_MESSAGE);
+    }
+
+    const codeLengthLengths = new Uint8Array(19);
+    for (let i = 0; i < codeLengthCount; i++) {
+      codeLengthLengths[CODE_LENGTH_ORDER[i]] = this.bits(3);
+    }
+    const codeLengths = buildHuffman(codeLengthLengths);
+
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    for (let index = 0; index < lengths.length; ) {
+      const symbol = this.decode(codeLengths);
+      if (symbol < 16) {
+        lengths[index++] = symbol;
+        continue;
+      }
+      let value = 0;
+      let repeat: number;
+      if (symbol === 16) {
+        if (index === 0) throw new Error(CORRUPT_MESSAGE);
+        value = lengths[index - 1];
+        repeat = 3 + this.bits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + this.bits(3);
+      } else {
+        repeat = 11 + this.bits(7);
+      }
+      if (index + repeat > lengths.length) throw new Error(CORRUPT_MESSAGE);
+      lengths.fill(value, index, index + repeat);
+      index += repeat;
+    }
+    if (lengths[256] === 0) throw new Error(CORRUPT_MESSAGE);
+
+    this.codes(
+      buildHuffman(lengths.subarray(0, literalCount)),
+      buildHuffman(lengths.subarray(literalCount))
+    );
+  }
+
+  run(): number {
+    let last = 0;
+    while (!last) {
+      last = this.bits(1);
+      const type = this.bits(2);
+      if (type === 0) {
+        this.stored();
+      } else if (type === 1) {
+        const { literals, distances } = getFixedTables();
+        this.codes(literals, distances);
+      } else if (type === 2) {
+        this.dynamic();
+      } else {
+        throw new Error(CORRUPT_MESSAGE);
+      }
+    }
+    // The bit buffer may hold at most the final partial byte
+    return this.position - Math.floor(this.bitCount / 8);
+  }
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  // 5552 is the largest block that can't overflow before the modulo
+  for (let start = 0; start < bytes.length; start += 5552) {
+    const end = Math.min(bytes.length, start + 5552);
+    for (let i = start; i < end; i++) {
+      a += bytes[i];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/**
+ * Inflates a zlib stream. sizeHint pre-sizes the output when the caller knows
+ * it; more than maxOutput bytes of output is treated as an error
+ */
+export function inflateZlib(bytes: Uint8Array, sizeHint = 0, maxOutput = Infinity): Uint8Array {
+  if (bytes.length < 6 || (bytes[0] & 0x0F) !== 8 || ((bytes[0] << 8) | bytes[1]) % 31 !== 0) {
+    throw new Error(CORRUPT_MESSAGE);
+  }
+  if (bytes[1] & 0x20) {
+    throw new Error('Compressed data needs a preset dictionary');
+  }
+
+  const inflater = new Inflater(bytes, 2, maxOutput, sizeHint);
+  const end = inflater.run();
+  const output = inflater.output.subarray(0, inflater.length);
+
+  if (end + 4 <= bytes.length) {
+    const checksum = ((bytes[end] << 24) | (bytes[end + 1] << 16) | (bytes[end + 2] << 8) | bytes[end + 3]) >>> 0;
+    if (checksum !== adler32(output)) throw new Error(CORRUPT_MESSAGE);
+  }
+  return output;
+}
@@ -0,0 +1,655 @@
+// Baseline JPEG coefficient codec
+//
+// Decodes the entropy-coded scan of a baseline JPEG to its quantized DCT
+// coefficients and writes them back with the original quantization tables and
+// metadata. Nothing is dequantized or transformed, so a file can be rewritten
+// with a few coefficients changed and no generation loss.
+
+const SOI = 0xD8;
+const EOI = 0xD9;
+const SOS = 0xDA;
+const DHT = 0xC4;
+const DRI = 0xDD;
+const RST0 = 0xD0;
+const RST7 = 0xD7;
+const TEM = 0x01;
+// Baseline and extended sequential Huffman frames
+const SOF_BASELINE = [0xC0, 0xC1];
+// Every other start-of-frame marker (DHT and JPG are in the range but aren't frames)
+const SOF_OTHER = [0xC2, 0xC3, 0xC5, 0xC6, 0xC7, 0xC9, 0xCA, 0xCB, 0xCD, 0xCE, 0xCF];
+
+const BLOCK_SIZE = 64;
+const MAX_CODE_LENGTH = 16;
+
+export interface JpegComponent {
+  id: number;
+  // Sampling factors
+  h: number;
+  v: number;
+  // Blocks per row and column, padded to whole MCUs
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  // 64 quantized coefficients per block in zigzag order, blocks row by row
+  coefficients: Int16Array;
+}
+
+export interface JpegImage {
+  width: number;
+  height: number;
+  components: JpegComponent[];
+  // Marker segments before the scan (APPn, COM, DQT, SOF...), kept byte for byte.
+  // Huffman tables and the restart interval are rebuilt when writing
+  segments: Uint8Array[];
+}
+
+interface HuffmanTable {
+  // Canonical decoding tables indexed by code length
+  maxCode: Int32Array;
+  valueOffset: Int32Array;
+  values: Uint8Array;
+}
+
+interface ScanComponent {
+  component: JpegComponent;
+  dcTable: HuffmanTable;
+  acTable: HuffmanTable;
+  predictor: number;
+}
+
+/**
+ * Whether the bytes start with a JPEG start-of-image marker
+ */
+export function isJpeg(bytes: Uint8Array): boolean {
+  return bytes.length > 3 && bytes[0] === 0xFF && bytes[1] === SOI && bytes[2] === 0xFF;
+}
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(MAX_CODE_LENGTH + 2).fill(-1);
+  const valueOffset = new Int32Array(MAX_CODE_LENGTH + 1);
+  let code = 0;
+  let index = 0;
+  for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+    valueOffset[length] = index - code;
+    code += counts[length - 1];
+    index += counts[length - 1];
+    if (counts[length - 1] > 0) maxCode[length] = code - 1;
+    code <<= 1;
+  }
+  return { maxCode, valueOffset, values };
+}
+
+/**
+ * Reads entropy-coded bits, removing stuffed zero bytes and stopping at markers
+ */
+class ScanReader {
+  private bits = 0;
+  private bitCount = 0;
+
+  constructor(private readonly bytes: Uint8Array, public position: number) {}
+
+  private fill(): void {
+    let byte = 0;
+    if (this.position < this.bytes.length) {
+      byte = this.bytes[this.position];
+      if (byte === 0xFF) {
+        const next = this.bytes[this.position + 1];
+        if (next === 0) {
+          this.position += 2;
+        } else {
+          // A marker ends the data; decoders pad with zero bits
+          byte = 0;
+        }
+      } else {
+        this.position++;
+      }
+    }
+    this.bits = (this.bits << 8) | byte;
+    this.bitCount += 8;
+  }
+
+  readBit(): number {
+    if (this.bitCount === 0) this.fill();
+    this.bitCount--;
+    return (this.bits >> this.bitCount) & 1;
+  }
+
+  receive(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = (value << 1) | this.readBit();
+    }
+    return value;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = 0;
+    for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+      code = (code << 1) | this.readBit();
+      if (code <= table.maxCode[length]) {
+        return table.values[table.valueOffset[length] + code];
+      }
+    }
+    throw new Error('Corrupt JPEG data');
+  }
+
+  /**
+   * Drops the partial byte and skips the RSTn marker expected at a restart boundary
+   */
+  restart(): void {
+    this.bitCount = 0;
+    this.bits = 0;
+    while (this.position + 1 < this.bytes.length) {
+      if (this.bytes[this.position] === 0xFF && this.bytes[this.position + 1] >= RST0 && this.bytes[this.position + 1] <= RST7) {
+        this.position += 2;
+        return;
+      }
+      this.position++;
+    }
+  }
+}
+
+/**
+ * Extends a received magnitude of the given size to its signed value (F.2.2.1)
+ */
+function extend(value: number, size: number): number {
+  return value < 1 << (size - 1) ? value - (1 << size) + 1 : value;
+}
+
+function decodeBlock(reader: ScanReader, scan: ScanComponent, offset: number): void {
+  const { coefficients } = scan.component;
+
+  const size = reader.decode(scan.dcTable);
+  if (size > 0) scan.predictor += extend(reader.receive(size), size);
+  coefficients[offset] = scan.predictor;
+
+  for (let k = 1; k < BLOCK_SIZE; ) {
+    const symbol = reader.decode(scan.acTable);
+    const run = symbol >> 4;
+    const magnitude = symbol & 0xF;
+    if (magnitude === 0) {
+      // End of block, or a run of 16 zeros
+      if (run !== 15) break;
+      k += 16;
+      continue;
+    }
+    k += run;
+    if (k >= BLOCK_SIZE) throw new Error('Corrupt JPEG data');
+    coefficients[offset + k] = extend(reader.receive(magnitude), magnitude);
+    k++;
+  }
+}
+
+/**
+ * Calls visit for every block of the scan in coding order. A single-component
+ * scan covers only the component's own blocks, an interleaved one whole MCUs
+ */
+function forEachBlock(
+  image: Pick<JpegImage, 'width' | 'height'>,
+  components: JpegComponent[],
+  restartInterval: number,
+  visit: (componentIndex: number, offset: number) => void,
+  onRestart: () => void
+): void {
+  const hMax = Math.max(...components.map((c) => c.h));
+  const vMax = Math.max(...components.map((c) => c.v));
+
+  if (components.length === 1) {
+    const component = components[0];
+    const blocksPerLine = Math.ceil(Math.ceil((image.width * component.h) / hMax) / 8);
+    const blocksPerColumn = Math.ceil(Math.ceil((image.height * component.v) / vMax) / 8);
+    let decoded = 0;
+    for (let row = 0; row < blocksPerColumn; row++) {
+      for (let col = 0; col < blocksPerLine; col++) {
+        if (restartInterval && decoded > 0 && decoded % restartInterval === 0) onRestart();
+        visit(0, (row * component.blocksPerLine + col) * BLOCK_SIZE);
+        decoded++;
+      }
+    }
+    return;
+  }
+
+  const mcusPerLine = Math.ceil(image.width / (8 * hMax));
+  const mcusPerColumn = Math.ceil(image.height / (8 * vMax));
+  let decoded = 0;
+  for (let mcuRow = 0; mcuRow < mcusPerColumn; mcuRow++) {
+    for (let mcuCol = 0; mcuCol < mcusPerLine; mcuCol++) {
+      if (restartInterval && decoded > 0 && decoded % restartInterval === 0) onRestart();
+      components.forEach((component, index) => {
+        for (let y = 0; y < component.v; y++) {
+          for (let x = 0; x < component.h; x++) {
+            const row = mcuRow * component.v + y;
+            const col = mcuCol * component.h + x;
+            visit(index, (row * component.blocksPerLine + col) * BLOCK_SIZE);
+          }
+        }
+      });
+      decoded++;
+    }
+  }
+}
+
+/**
+ * Parses a baseline JPEG down to its quantized DCT coefficients.
+ * Progressive and multi-scan files are rejected
+ */
+export function decodeJpeg(bytes: Uint8Array): JpegImage {
+  if (!isJpeg(bytes)) {
+    throw new Error('Not a JPEG file');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const segments: Uint8Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let frame: Omit<JpegImage, 'segments'> | null = null;
+  let restartInterval = 0;
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xFF) {
+      throw new Error('Corrupt JPEG data');
+    }
+    const marker = bytes[offset + 1];
+    // Fill bytes before a marker
+    if (marker === 0xFF) {
+      offset++;
+      continue;
+    }
+    if (marker === TEM || (marker >= RST0 && marker <= RST7)) {
+      offset += 2;
+      continue;
+    }
+    if (marker === EOI) break;
+
+    const length = view.getUint16(offset + 2);
+    const body = offset + 4;
+    const end = offset + 2 + length;
+    if (end > bytes.length) {
+      throw new Error('JPEG file is truncated');
+    }
+
+    if (SOF_OTHER.includes(marker)) {
+      throw new Error(
+        marker === 0xC2
+          ? 'Progressive JPEGs are not supported, save the image as a baseline JPEG'
+          : 'Only baseline JPEGs are supported'
+      );
+    }
+
+    if (SOF_BASELINE.includes(marker)) {
+      if (bytes[body] !== 8) {
+        throw new Error('Only 8-bit JPEGs are supported');
+      }
+      const height = view.getUint16(body + 1);
+      const width = view.getUint16(body + 3);
+      const count = bytes[body + 5];
+      if (width === 0 || height === 0) {
+        throw new Error('JPEG image has no size');
+      }
+
+      const sampling = Array.from({ length: count }, (_, i) => ({
+        id: bytes[body + 6 + i * 3],
+        h: bytes[body + 7 + i * 3] >> 4,
+        v: bytes[body + 7 + i * 3] & 0xF,
+      }));
+      const hMax = Math.max(...sampling.map((c) => c.h));
+      const vMax = Math.max(...sampling.map((c) => c.v));
+      const mcusPerLine = Math.ceil(width / (8 * hMax));
+      const mcusPerColumn = Math.ceil(height / (8 * vMax));
+      frame = {
+        width,
+        height,
+        components: sampling.map(({ id, h, v }) => {
+          const blocksPerLine = mcusPerLine * h;
+          const blocksPerColumn = mcusPerColumn * v;
+          return {
+            id,
+            h,
+            v,
+            blocksPerLine,
+            blocksPerColumn,
+            coefficients: new Int16Array(blocksPerLine * blocksPerColumn * BLOCK_SIZE),
+          };
+        }),
+      };
+      segments.push(bytes.slice(offset, end));
+    } else if (marker === DHT) {
+      let position = body;
+      while (position < end) {
+        const tableClass = bytes[position] >> 4;
+        const tableId = bytes[position] & 0xF;
+        const counts = bytes.subarray(position + 1, position + 17);
+        const total = counts.reduce((sum, count) => sum + count, 0);
+        const table = buildHuffmanTable(counts, bytes.slice(position + 17, position + 17 + total));
+        (tableClass === 0 ? dcTables : acTables)[tableId] = table;
+        position += 17 + total;
+      }
+    } else if (marker === DRI) {
+      restartInterval = view.getUint16(body);
+    } else if (marker === SOS) {
+      if (!frame) {
+        throw new Error('JPEG scan comes before the frame header');
+      }
+      const count = bytes[body];
+      if (count !== frame.components.length) {
+        throw new Error('Multi-scan JPEGs are not supported');
+      }
+      const scan: ScanComponent[] = [];
+      for (let i = 0; i < count; i++) {
+        const id = bytes[body + 1 + i * 2];
+        const tables = bytes[body + 2 + i * 2];
+        const component = frame.components.find((c) => c.id === id);
+        const dcTable = dcTables[tables >> 4];
+        const acTable = acTables[tables & 0xF];
+        if (!component || !dcTable || !acTable) {
+          throw new Error('Corrupt JPEG data');
+        }
+        scan.push({ component, dcTable, acTable, predictor: 0 });
+      }
+
+      const reader = new ScanReader(bytes, end);
+      forEachBlock(
+        frame,
+        scan.map((s) => s.component),
+        restartInterval,
+        (index, blockOffset) => decodeBlock(reader, scan[index], blockOffset),
+        () => {
+          reader.restart();
+          for (const s of scan) s.predictor = 0;
+        }
+      );
+
+      // Anything after the scan other than the end of the image means more scans follow
+      let position = reader.position;
+      while (position + 1 < bytes.length) {
+        if (bytes[position] === 0xFF && bytes[position + 1] !== 0 && bytes[position + 1] !== 0xFF) {
+          const next = bytes[position + 1];
+          if (next >= RST0 && next <= RST7) {
+            position += 2;
+            continue;
+          }
+          if (next === SOS) {
+            throw new Error('Multi-scan JPEGs are not supported');
+          }
+          break;
+        }
+        position++;
+      }
+      return { ...frame, segments };
+    } else {
+      segments.push(bytes.slice(offset, end));
+    }
+
+    offset = end;
+  }
+
+  throw new Error('JPEG file has no image data');
+}
+
+/**
+ * Number of bits needed for the magnitude of a coefficient or DC difference
+ */
+function magnitudeSize(value: number): number {
+  let magnitude = Math.abs(value);
+  let size = 0;
+  while (magnitude) {
+    size++;
+    magnitude >>= 1;
+  }
+  return size;
+}
+
+/**
+ * Calls emit for every Huffman symbol (and its extra bits) of a block
+ */
+function forEachSymbol(
+  coefficients: Int16Array,
+  offset: number,
+  predictor: number,
+  emit: (table: 'dc' | 'ac', symbol: number, value: number, size: number) => void
+): void {
+  const difference = coefficients[offset] - predictor;
+  const dcSize = magnitudeSize(difference);
+  emit('dc', dcSize, difference, dcSize);
+
+  let run = 0;
+  for (let k = 1; k < BLOCK_SIZE; k++) {
+    const value = coefficients[offset + k];
+    if (value === 0) {
+      run++;
+      continue;
+    }
+    while (run > 15) {
+      emit('ac', 0xF0, 0, 0);
+      run -= 16;
+    }
+    const size = magnitudeSize(value);
+    emit('ac', (run << 4) | size, value, size);
+    run = 0;
+  }
+  if (run > 0) emit('ac', 0x00, 0, 0);
+}
+
+/**
+ * Builds optimal code lengths for the counted symbols (JPEG Annex K.2),
+ * limited to 16 bits. Returns the DHT counts and the symbols in code order
+ */
+function buildOptimalTable(frequencies: Uint32Array): { counts: Uint8Array; values: Uint8Array } {
+  // Symbol 256 reserves the all-ones code, which JPEG forbids
+  const frequency = new Float64Array(257);
+  frequency.set(frequencies);
+  frequency[256] = 1;
+  const codeSize = new Int32Array(257);
+  const others = new Int32Array(257).fill(-1);
+
+  for (;;) {
+    // The two least frequent symbols, preferring the highest value on ties
+    let v1 = -1;
+    let v2 = -1;
+    for (let i = 0; i < 257; i++) {
+      if (frequency[i] === 0) continue;
+      if (v1 < 0 || frequency[i] <= frequency[v1]) {
+        v2 = v1;
+        v1 = i;
+      } else if (v2 < 0 || frequency[i] <= frequency[v2]) {
+        v2 = i;
+      }
+    }
+    if (v2 < 0) break;
+
+    frequency[v1] += frequency[v2];
+    frequency[v2] = 0;
+    codeSize[v1]++;
+    while (others[v1] >= 0) {
+      v1 = others[v1];
+      codeSize[v1]++;
+    }
+    others[v1] = v2;
+    codeSize[v2]++;
+    while (others[v2] >= 0) {
+      v2 = others[v2];
+      codeSize[v2]++;
+    }
+  }
+
+  const bits = new Int32Array(33);
+  for (let i = 0; i < 257; i++) {
+    if (codeSize[i]) bits[codeSize[i]]++;
+  }
+  // Move codes longer than 16 bits up the tree
+  for (let i = 32; i > MAX_CODE_LENGTH; i--) {
+    while (bits[i] > 0) {
+      let j = i - 2;
+      while (bits[j] === 0) j--;
+      bits[i] -= 2;
+      bits[i - 1]++;
+      bits[j + 1] += 2;
+      bits[j]--;
+    }
+  }
+  // Drop the reserved code
+  let longest = MAX_CODE_LENGTH;
+  while (bits[longest] === 0) longest--;
+  bits[longest]--;
+
+  const values: number[] = [];
+  for (let size = 1; size <= 32; size++) {
+    for (let symbol = 0; symbol < 256; symbol++) {
+      if (codeSize[symbol] === size) values.push(symbol);
+    }
+  }
+  return { counts: Uint8Array.from(bits.subarray(1, MAX_CODE_LENGTH + 1)), values: Uint8Array.from(values) };
+}
+
+/**
+ * Assigns canonical codes to the symbols of a table (JPEG Annex C)
+ */
+function assignCodes(counts: Uint8Array, values: Uint8Array): { codes: Uint16Array; sizes: Uint8Array } {
+  const codes = new Uint16Array(256);
+  const sizes = new Uint8Array(256);
+  let code = 0;
+  let index = 0;
+  for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+    for (let i = 0; i < counts[length - 1]; i++) {
+      codes[values[index]] = code++;
+      sizes[values[index]] = length;
+      index++;
+    }
+    code <<= 1;
+  }
+  return { codes, sizes };
+}
+
+/**
+ * Collects the output into one buffer, growing it as needed
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  length = 0;
+
+  writeByte(byte: number): void {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = byte;
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    for (const byte of bytes) this.writeByte(byte);
+  }
+
+  writeUint16(value: number): void {
+    this.writeByte(value >> 8);
+    this.writeByte(value & 0xFF);
+  }
+
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+/**
+ * Writes the coefficients back as a baseline JPEG with optimized Huffman tables.
+ * The luma component uses tables 0 and every other component shares tables 1
+ */
+export function encodeJpeg(image: JpegImage): Uint8Array {
+  const { components } = image;
+  const tableIds = components.map((_, index) => (index === 0 ? 0 : 1));
+  const tableCount = Math.max(...tableIds) + 1;
+
+  // First pass: count the symbols each table has to code
+  const dcFrequencies = Array.from({ length: tableCount }, () => new Uint32Array(256));
+  const acFrequencies = Array.from({ length: tableCount }, () => new Uint32Array(256));
+  let predictors = components.map(() => 0);
+  forEachBlock(
+    image,
+    components,
+    0,
+    (index, offset) => {
+      const { coefficients } = components[index];
+      forEachSymbol(coefficients, offset, predictors[index], (table, symbol) => {
+        (table === 'dc' ? dcFrequencies : acFrequencies)[tableIds[index]][symbol]++;
+      });
+      predictors[index] = coefficients[offset];
+    },
+    () => {}
+  );
+
+  const writer = new ByteWriter();
+  writer.writeByte(0xFF);
+  writer.writeByte(SOI);
+  for (const segment of image.segments) writer.writeBytes(segment);
+
+  const dcCodes: ReturnType<typeof assignCodes>[] = [];
+  const acCodes: ReturnType<typeof assignCodes>[] = [];
+  for (let id = 0; id < tableCount; id++) {
+    for (const [tableClass, frequencies, codes] of [
+      [0, dcFrequencies[id], dcCodes],
+      [1, acFrequencies[id], acCodes],
+    ] as const) {
+      const { counts, values } = buildOptimalTable(frequencies);
+      codes[id] = assignCodes(counts, values);
+      writer.writeByte(0xFF);
+      writer.writeByte(DHT);
+      writer.writeUint16(2 + 1 + 16 + values.length);
+      writer.writeByte((tableClass << 4) | id);
+      writer.writeBytes(counts);
+      writer.writeBytes(values);
+    }
+  }
+
+  writer.writeByte(0xFF);
+  writer.writeByte(SOS);
+  writer.writeUint16(6 + components.length * 2);
+  writer.writeByte(components.length);
+  components.forEach((component, index) => {
+    writer.writeByte(component.id);
+    writer.writeByte((tableIds[index] << 4) | tableIds[index]);
+  });
+  // Spectral selection 0-63, no successive approximation
+  writer.writeByte(0);
+  writer.writeByte(63);
+  writer.writeByte(0);
+
+  // Second pass: the entropy-coded data, with 0xFF bytes stuffed
+  let bits = 0;
+  let bitCount = 0;
+  const writeBits = (value: number, size: number) => {
+    for (let i = size - 1; i >= 0; i--) {
+      bits = (bits << 1) | ((value >> i) & 1);
+      if (++bitCount === 8) {
+        writer.writeByte(bits);
+        if (bits === 0xFF) writer.writeByte(0);
+        bits = 0;
+        bitCount = 0;
+      }
+    }
+  };
+
+  predictors = components.map(() => 0);
+  forEachBlock(
+    image,
+    components,
+    0,
+    (index, offset) => {
+      const { coefficients } = components[index];
+      const id = tableIds[index];
+      forEachSymbol(coefficients, offset, predictors[index], (table, symbol, value, size) => {
+        const { codes, sizes } = (table === 'dc' ? dcCodes : acCodes)[id];
+        writeBits(codes[symbol], sizes[symbol]);
+        // Negative values are stored as value - 1 in size bits
+        if (size > 0) writeBits(value < 0 ? value - 1 : value, size);
+      });
+      predictors[index] = coefficients[offset];
+    },
+    () => {}
+  );
+  // Pad the last byte with ones
+  if (bitCount > 0) writeBits(0x7F, 8 - bitCount);
+
+  writer.writeByte(0xFF);
+  writer.writeByte(EOI);
+  return writer.toBytes();
+}
@@ -0,0 +1,349 @@
+// JPEG steganography in the quantized DCT coefficients (F5)
+//
+// The container is written into the non-zero AC coefficients of the JPEG with
+// F5's matrix encoding and the file is re-serialized without recompressing it.
+// Coefficients are visited in a key-seeded order so the changes spread evenly
+// over the image, whether or not a scatter key was given.
+
+import {
+  preparePayload,
+  openPayload,
+  buildHeader,
+  parseContainerHeader,
+  getEncryptionOverhead,
+  loadImage,
+  CONTAINER_HEADER_SIZE,
+  CapacityOptions,
+  EncodeOptions,
+  DecodeOptions,
+  DecodeResult,
+  ExtractedPayload,
+} from './steganography';
+import { createPixelOrder } from './scatter';
+import { crc32 } from './crc32';
+import { isJpeg, decodeJpeg, encodeJpeg, JpegImage } from './jpeg';
+import { SecretPayload } from './payload';
+
+// Coefficient order used when no scatter key is given
+const DEFAULT_ORDER_KEY = 'StegoVault F5';
+// The matrix encoding parameter k, stored before the container at k = 1
+const STATUS_BITS = 4;
+const MAX_MATRIX_K = 7;
+// Quality used when a PNG or other cover has to be converted first
+const CONVERSION_QUALITY = 0.92;
+
+// Bit depth, alpha and error correction only apply to pixel carriers
+export type JpegEncodeOptions = Pick<
+  EncodeOptions,
+  'passphrase' | 'recipients' | 'compress' | 'scatterKey' | 'signingKey'
+>;
+
+export interface JpegCarrier {
+  image: JpegImage;
+  // Converted to JPEG in the browser, rather than the original file
+  converted: boolean;
+}
+
+/**
+ * Loads a JPEG carrier. JPEG files are parsed as they are; any other image is
+ * compressed to JPEG first
+ */
+export async function loadJpeg(file: File): Promise<JpegCarrier> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (isJpeg(bytes)) {
+    return { image: decodeJpeg(bytes), converted: false };
+  }
+
+  const { imageData } = await loadImage(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+  ctx.putImageData(imageData, 0, 0);
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, 'image/jpeg', CONVERSION_QUALITY)
+  );
+  if (!blob) {
+    throw new Error('Could not convert the image to JPEG');
+  }
+  return { image: decodeJpeg(new Uint8Array(await blob.arrayBuffer())), converted: true };
+}
+
+/**
+ * All coefficients of the image in one array, component after component
+ */
+function flattenCoefficients(image: JpegImage): Int16Array {
+  const total = image.components.reduce((sum, c) => sum + c.coefficients.length, 0);
+  const flat = new Int16Array(total);
+  let offset = 0;
+  for (const component of image.components) {
+    flat.set(component.coefficients, offset);
+    offset += component.coefficients.length;
+  }
+  return flat;
+}
+
+function withCoefficients(image: JpegImage, flat: Int16Array): JpegImage {
+  let offset = 0;
+  return {
+    ...image,
+    components: image.components.map((component) => {
+      const coefficients = flat.slice(offset, offset + component.coefficients.length);
+      offset += coefficients.length;
+      return { ...component, coefficients };
+    }),
+  };
+}
+
+/**
+ * The bit a coefficient carries. Negative values are inverted so that
+ * decrementing the magnitude flips the bit either way
+ */
+function carrierBit(value: number): number {
+  return value > 0 ? value & 1 : (value & 1) ^ 1;
+}
+
+/**
+ * Walks the non-zero AC coefficients in the key-seeded order
+ */
+class CarrierCursor {
+  position = 0;
+
+  constructor(private readonly coefficients: Int16Array, private readonly order: Uint32Array) {}
+
+  /** Index of the next carrier, or -1 when the image is used up */
+  next(): number {
+    while (this.position < this.order.length) {
+      const index = this.order[this.position++];
+      // Index 0 of every 64 is the DC coefficient
+      if (index % 64 !== 0 && this.coefficients[index] !== 0) return index;
+    }
+    return -1;
+  }
+}
+
+/**
+ * Fills a group with the next n carriers, returning false when there are too few
+ */
+function takeGroup(cursor: CarrierCursor, group: Int32Array): boolean {
+  for (let i = 0; i < group.length; i++) {
+    group[i] = cursor.next();
+    if (group[i] < 0) return false;
+  }
+  return true;
+}
+
+/**
+ * The k bits a group of 2^k - 1 carriers holds: the XOR of the (1-based)
+ * positions of the carriers whose bit is set
+ */
+function groupHash(coefficients: Int16Array, group: Int32Array): number {
+  let hash = 0;
+  for (let i = 0; i < group.length; i++) {
+    if (carrierBit(coefficients[group[i]])) hash ^= i + 1;
+  }
+  return hash;
+}
+
+/**
+ * Embeds bits with (1, 2^k - 1, k) matrix encoding: every k bits cost at most one
+ * change in a group of 2^k - 1 carriers. A change that shrinks a coefficient to
+ * zero removes it as a carrier, so the group is taken again. Returns false when
+ * the image runs out of carriers
+ */
+function embedBits(
+  coefficients: Int16Array,
+  cursor: CarrierCursor,
+  bits: Uint8Array,
+  k: number
+): boolean {
+  const group = new Int32Array((1 << k) - 1);
+  for (let start = 0; start < bits.length; start += k) {
+    let value = 0;
+    for (let j = 0; j < k; j++) {
+      value = (value << 1) | (bits[start + j] ?? 0);
+    }
+
+    for (;;) {
+      const groupStart = cursor.position;
+      if (!takeGroup(cursor, group)) return false;
+      const change = groupHash(coefficients, group) ^ value;
+      if (change === 0) break;
+
+      const index = group[change - 1];
+      coefficients[index] -= Math.sign(coefficients[index]);
+      if (coefficients[index] !== 0) break;
+      cursor.position = groupStart;
+    }
+  }
+  return true;
+}
+
+/**
+ * Reads matrix-encoded bits back as one continuous stream
+ */
+class BitExtractor {
+  private pending: number[] = [];
+
+  constructor(private readonly coefficients: Int16Array, private readonly cursor: CarrierCursor) {}
+
+  read(count: number, k: number): Uint8Array | null {
+    const group = new Int32Array((1 << k) - 1);
+    while (this.pending.length < count) {
+      if (!takeGroup(this.cursor, group)) return null;
+      const hash = groupHash(this.coefficients, group);
+      for (let j = k - 1; j >= 0; j--) {
+        this.pending.push((hash >> j) & 1);
+      }
+    }
+    return Uint8Array.from(this.pending.splice(0, count));
+  }
+}
+
+function bytesToBits(bytes: Uint8Array): Uint8Array {
+  const bits = new Uint8Array(bytes.length * 8);
+  for (let i = 0; i < bits.length; i++) {
+    bits[i] = (bytes[i >> 3] >> (7 - (i & 7))) & 1;
+  }
+  return bits;
+}
+
+function bitsToBytes(bits: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(bits.length >> 3);
+  for (let i = 0; i < bytes.length * 8; i++) {
+    bytes[i >> 3] |= bits[i] << (7 - (i & 7));
+  }
+  return bytes;
+}
+
+/**
+ * Carrier bits the image is expected to hold at k = 1. Coefficients of
+ * magnitude 1 shrink to zero half the time they are changed (F5's estimate)
+ */
+function getExpectedCarrierBits(coefficients: Int16Array): number {
+  let large = 0;
+  let ones = 0;
+  for (let i = 0; i < coefficients.length; i++) {
+    if (i % 64 === 0 || coefficients[i] === 0) continue;
+    if (Math.abs(coefficients[i]) === 1) {
+      ones++;
+    } else {
+      large++;
+    }
+  }
+  return large + Math.floor(0.49 * ones);
+}
+
+/**
+ * Calculates the maximum payload capacity of a JPEG in bytes
+ */
+export function calculateJpegCapacity(
+  image: JpegImage,
+  options: Pick<CapacityOptions, 'encrypted' | 'recipients'> = {}
+): number {
+  const bytes = Math.floor((getExpectedCarrierBits(flattenCoefficients(image)) - STATUS_BITS) / 8);
+  return Math.max(0, bytes - CONTAINER_HEADER_SIZE - getEncryptionOverhead(options));
+}
+
+/**
+ * Hides a text or file payload in the DCT coefficients and returns the new JPEG
+ */
+export async function encodeJpegPayload(
+  image: JpegImage,
+  payload: SecretPayload,
+  options: JpegEncodeOptions = {}
+): Promise<Blob> {
+  const { flags, body, contentLength } = await preparePayload(payload, options);
+  const container = new Uint8Array(CONTAINER_HEADER_SIZE + body.length);
+  container.set(buildHeader(flags, body), 0);
+  container.set(body, CONTAINER_HEADER_SIZE);
+  const bits = bytesToBits(container);
+
+  const original = flattenCoefficients(image);
+  const key = options.scatterKey || DEFAULT_ORDER_KEY;
+  const order = await createPixelOrder(key, original.length);
+
+  // Use the most efficient matrix encoding the image has room for
+  const expected = getExpectedCarrierBits(original) - STATUS_BITS;
+  let k = 1;
+  while (k < MAX_MATRIX_K && Math.floor(expected / ((1 << (k + 1)) - 1)) * (k + 1) >= bits.length) {
+    k++;
+  }
+
+  for (; k >= 1; k--) {
+    const coefficients = original.slice();
+    const cursor = new CarrierCursor(coefficients, order);
+    const status = bytesToBits(Uint8Array.of(k << (8 - STATUS_BITS))).subarray(0, STATUS_BITS);
+    if (!embedBits(coefficients, cursor, status, 1) || !embedBits(coefficients, cursor, bits, k)) continue;
+
+    // Read the file back the way the decoder will before handing it out
+    const bytes = encodeJpeg(withCoefficients(image, coefficients));
+    const check = await extractContainer(flattenCoefficients(decodeJpeg(bytes)), key);
+    if (!check || check.flags !== flags || check.integrity !== 'verified') {
+      throw new Error('Self-check failed: the exported JPEG file does not carry the hidden data intact');
+    }
+    return new Blob([bytes], { type: 'image/jpeg' });
+  }
+
+  const available = Math.max(0, calculateJpegCapacity(image) - (body.length - contentLength));
+  throw new Error(
+    payload.type === 'text'
+      ? `Text too long. Maximum capacity: ${available} characters`
+      : `File too large. Maximum capacity: ${available} bytes`
+  );
+}
+
+/**
+ * Reads the container from the coefficients in the order of the given key,
+ * or returns null when none is there
+ */
+async function extractContainer(coefficients: Int16Array, key: string): Promise<ExtractedPayload | null> {
+  const order = await createPixelOrder(key, coefficients.length);
+  const extractor = new BitExtractor(coefficients, new CarrierCursor(coefficients, order));
+
+  const status = extractor.read(STATUS_BITS, 1);
+  if (!status) return null;
+  const k = status.reduce((value, bit) => (value << 1) | bit, 0);
+  if (k < 1 || k > MAX_MATRIX_K) return null;
+
+  const headerBits = extractor.read(CONTAINER_HEADER_SIZE * 8, k);
+  const header = headerBits && parseContainerHeader(bitsToBytes(headerBits));
+  if (!header) return null;
+  if (header.length * 8 > coefficients.length) {
+    throw new Error('Invalid message length detected');
+  }
+
+  const bodyBits = extractor.read(header.length * 8, k);
+  if (!bodyBits) {
+    throw new Error('Failed to extract message');
+  }
+  const body = bitsToBytes(bodyBits);
+  return {
+    flags: header.flags,
+    body,
+    eccLevel: 'none',
+    correctedErrors: 0,
+    integrity: crc32(body) === header.checksum ? 'verified' : 'corrupted',
+  };
+}
+
+/**
+ * Decodes a payload hidden by encodeJpegPayload. With a scatter key the keyed
+ * order is tried first, then the default one
+ */
+export async function decodeJpegMessage(
+  image: JpegImage,
+  options: DecodeOptions = {}
+): Promise<DecodeResult> {
+  const coefficients = flattenCoefficients(image);
+  const keys = options.scatterKey ? [options.scatterKey, DEFAULT_ORDER_KEY] : [DEFAULT_ORDER_KEY];
+  for (const key of keys) {
+    const extracted = await extractContainer(coefficients, key);
+    if (extracted) return openPayload(extracted, options);
+  }
+  throw new Error('No hidden message found in this JPEG');
+}
@@ -0,0 +1,151 @@
+// Local signing identity and trusted public keys, persisted in localStorage
+//
+// Keys are exported as JWK Sets holding the signing key (`use: 'sig'`) and the
+// encryption key (`use: 'enc'`). A lone JWK is read as a signing key.
+
+import { getKeyFingerprint, toPublicJwk, LabelledJwk, TrustedKey, SigningKeyPair } from './signing';
+import { EncryptionKeyPair } from './recipientCrypto';
+
+const IDENTITY_STORAGE_KEY = 'stegovault.signingIdentity';
+const TRUSTED_KEYS_STORAGE_KEY = 'stegovault.trustedKeys';
+
+export interface KeyringIdentity extends SigningKeyPair {
+  name: string;
+  fingerprint: string;
+  // Key pair payloads encrypted to this identity are opened with
+  encryptionKey: EncryptionKeyPair;
+}
+
+type KeyUse = 'sig' | 'enc';
+
+function readJson<T>(storageKey: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Returns this browser's key pairs, if they were generated
+ */
+export function loadIdentity(): KeyringIdentity | null {
+  return readJson<KeyringIdentity | null>(IDENTITY_STORAGE_KEY, null);
+}
+
+/**
+ * Stores (or with null, forgets) this browser's key pairs
+ */
+export function saveIdentity(identity: KeyringIdentity | null): void {
+  if (identity) {
+    localStorage.setItem(IDENTITY_STORAGE_KEY, JSON.stringify(identity));
+  } else {
+    localStorage.removeItem(IDENTITY_STORAGE_KEY);
+  }
+}
+
+export function loadTrustedKeys(): TrustedKey[] {
+  return readJson<TrustedKey[]>(TRUSTED_KEYS_STORAGE_KEY, []);
+}
+
+export function saveTrustedKeys(keys: TrustedKey[]): void {
+  localStorage.setItem(TRUSTED_KEYS_STORAGE_KEY, JSON.stringify(keys));
+}
+
+function toKeySet(keys: Record<KeyUse, LabelledJwk>): string {
+  return JSON.stringify(
+    { keys: (Object.keys(keys) as KeyUse[]).map((use) => ({ ...keys[use], use })) },
+    null,
+    2
+  );
+}
+
+/**
+ * The identity's public keys, to share with contacts
+ */
+export function exportPublicKeys(identity: KeyringIdentity): string {
+  return toKeySet({
+    sig: toPublicJwk(identity.publicKey),
+    enc: toPublicJwk(identity.encryptionKey.publicKey),
+  });
+}
+
+/**
+ * A backup of the identity's private keys, read back by parsePrivateKeyFile
+ */
+export function exportPrivateKeys(identity: KeyringIdentity): string {
+  return toKeySet({ sig: identity.privateKey, enc: identity.encryptionKey.privateKey });
+}
+
+/**
+ * Reads a key file into its signing and encryption keys
+ */
+function readKeyFile(text: string): { sig: LabelledJwk; enc?: LabelledJwk } {
+  let parsed: LabelledJwk & { keys?: (LabelledJwk & { use?: string })[] };
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Key file is not valid JSON');
+  }
+
+  if (!Array.isArray(parsed.keys)) {
+    return { sig: parsed };
+  }
+  const sig = parsed.keys.find((key) => key.use !== 'enc');
+  if (!sig) {
+    throw new Error('Key file holds no signing key');
+  }
+  return { sig, enc: parsed.keys.find((key) => key.use === 'enc') };
+}
+
+/**
+ * Parses exported public keys (a JWK Set, or a lone signing JWK, labelled with
+ * `kid`) into a trusted key entry. Private key material is dropped
+ */
+export async function parsePublicKeyFile(text: string, fallbackName: string): Promise<TrustedKey> {
+  const { sig, enc } = readKeyFile(text);
+  const publicKey = toPublicJwk(sig);
+  return {
+    name: sig.kid || fallbackName,
+    publicKey,
+    fingerprint: await getKeyFingerprint(publicKey),
+    ...(enc ? { encryptionKey: toPublicJwk(enc) } : {}),
+  };
+}
+
+/**
+ * Parses a private key backup (see exportPrivateKeys) back into an identity
+ */
+export async function parsePrivateKeyFile(text: string, fallbackName: string): Promise<KeyringIdentity> {
+  const { sig, enc } = readKeyFile(text);
+  if (!sig.d || (enc && !enc.d)) {
+    throw new Error('This is a public key. Restore from the private key backup instead.');
+  }
+  if (!enc) {
+    throw new Error('Key backup holds no encryption key');
+  }
+
+  const name = sig.kid || fallbackName;
+  const publicKey = { ...toPublicJwk(sig), kid: name };
+  const encryptionPublicKey = { ...toPublicJwk(enc), kid: name };
+  return {
+    name,
+    publicKey,
+    privateKey: { ...publicKey, d: sig.d },
+    fingerprint: await getKeyFingerprint(publicKey),
+    encryptionKey: { publicKey: encryptionPublicKey, privateKey: { ...encryptionPublicKey, d: enc.d } },
+  };
+}
+
+/**
+ * The local identity as a trusted key, so images signed here verify by name
+ */
+export function identityAsTrustedKey(identity: KeyringIdentity): TrustedKey {
+  return {
+    name: `${identity.name} (you)`,
+    publicKey: identity.publicKey,
+    fingerprint: identity.fingerprint,
+    encryptionKey: identity.encryptionKey.publicKey,
+  };
+}
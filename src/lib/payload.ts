@@ -0,0 +1,115 @@
+// Secret payload types and the file header carried in front of file contents
+
+export interface SecretFile {
+  name: string;
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+export type SecretPayload =
+  | { type: 'text'; text: string }
+  | ({ type: 'file' } & SecretFile);
+
+// name length (2 bytes) + mime length (1 byte) + content length (4 bytes)
+const FILE_HEADER_FIXED_SIZE = 2 + 1 + 4;
+const MAX_NAME_BYTES = 0xFFFF;
+const MAX_MIME_BYTES = 0xFF;
+
+/**
+ * Size of the file header for the given name and MIME type
+ */
+export function getFileHeaderSize(name: string, mimeType: string): number {
+  const encoder = new TextEncoder();
+  return FILE_HEADER_FIXED_SIZE + encoder.encode(name).length + encoder.encode(mimeType).length;
+}
+
+/**
+ * Serializes a payload to the bytes that get embedded (before any sealing)
+ */
+export function serializePayload(payload: SecretPayload): Uint8Array {
+  const encoder = new TextEncoder();
+  if (payload.type === 'text') {
+    return encoder.encode(payload.text);
+  }
+
+  const nameBytes = encoder.encode(payload.name);
+  const mimeBytes = encoder.encode(payload.mimeType || 'application/octet-stream');
+  if (nameBytes.length > MAX_NAME_BYTES) {
+    throw new Error('File name is too long');
+  }
+  if (mimeBytes.length > MAX_MIME_BYTES) {
+    throw new Error('File type is too long');
+  }
+
+  const headerSize = FILE_HEADER_FIXED_SIZE + nameBytes.length + mimeBytes.length;
+  const output = new Uint8Array(headerSize + payload.bytes.length);
+  const view = new DataView(output.buffer);
+  let offset = 0;
+
+  view.setUint16(offset, nameBytes.length, false);
+  offset += 2;
+  output.set(nameBytes, offset);
+  offset += nameBytes.length;
+  output[offset++] = mimeBytes.length;
+  output.set(mimeBytes, offset);
+  offset += mimeBytes.length;
+  view.setUint32(offset, payload.bytes.length, false);
+  offset += 4;
+  output.set(payload.bytes, offset);
+
+  return output;
+}
+
+// What the file header says about the file that follows it
+export interface SecretFileInfo {
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Parses the file header in front of a file's contents, pulling its bytes from
+ * read as they are needed, so the contents can be read separately afterwards
+ */
+export function readFileHeader(read: (byteCount: number) => Uint8Array): SecretFileInfo {
+  const decoder = new TextDecoder('utf-8');
+  const take = (byteCount: number) => {
+    const bytes = read(byteCount);
+    if (bytes.length < byteCount) throw new Error('Embedded file header is malformed');
+    return bytes;
+  };
+
+  const lengthBytes = take(2);
+  const nameLength = (lengthBytes[0] << 8) | lengthBytes[1];
+  const nameBytes = take(nameLength + 1);
+  const name = decoder.decode(nameBytes.subarray(0, nameLength));
+
+  const mimeLength = nameBytes[nameLength];
+  const mimeBytes = take(mimeLength + 4);
+  const mimeType = decoder.decode(mimeBytes.subarray(0, mimeLength));
+  const size = new DataView(mimeBytes.buffer, mimeBytes.byteOffset + mimeLength, 4).getUint32(0, false);
+
+  return {
+    // Never trust paths coming out of an image
+    name: name.split(/[\\/]/).pop() || 'extracted_file',
+    mimeType: mimeType || 'application/octet-stream',
+    size,
+  };
+}
+
+/**
+ * Parses bytes produced by serializePayload for a file payload
+ */
+export function deserializeFile(bytes: Uint8Array): SecretFile {
+  let offset = 0;
+  const { name, mimeType, size } = readFileHeader((byteCount) => {
+    const chunk = bytes.subarray(offset, offset + byteCount);
+    offset += chunk.length;
+    return chunk;
+  });
+  if (offset + size > bytes.length) {
+    throw new Error('Embedded file is truncated');
+  }
+
+  return { name, mimeType, bytes: bytes.slice(offset, offset + size) };
+}
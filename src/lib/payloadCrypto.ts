@@ -0,0 +1,97 @@
+// Passphrase-based authenticated encryption for embedded payloads (WebCrypto)
+
+const KDF_PBKDF2_SHA256 = 1;
+const PBKDF2_ITERATIONS = 250000;
+const MAX_PBKDF2_ITERATIONS = 10000000;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// kdf id (1) + iterations (4) + salt + iv
+const ENCRYPTION_HEADER_LENGTH = 1 + 4 + SALT_LENGTH + IV_LENGTH;
+
+/**
+ * Number of bytes sealing adds on top of the plaintext (encryption header + GCM tag)
+ */
+export const ENCRYPTION_OVERHEAD = ENCRYPTION_HEADER_LENGTH + TAG_LENGTH;
+
+/**
+ * Derives an AES-GCM key from a passphrase using PBKDF2-SHA256
+ */
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypts bytes with a passphrase.
+ * Output layout: kdf id + iterations (big-endian) + salt + iv + ciphertext with GCM tag
+ */
+export async function sealBytes(plaintext: Uint8Array, passphrase: string): Promise<Uint8Array> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv, tagLength: TAG_LENGTH * 8 }, key, plaintext)
+  );
+
+  const sealed = new Uint8Array(ENCRYPTION_HEADER_LENGTH + ciphertext.length);
+  const view = new DataView(sealed.buffer);
+  sealed[0] = KDF_PBKDF2_SHA256;
+  view.setUint32(1, PBKDF2_ITERATIONS, false);
+  sealed.set(salt, 5);
+  sealed.set(iv, 5 + SALT_LENGTH);
+  sealed.set(ciphertext, ENCRYPTION_HEADER_LENGTH);
+  return sealed;
+}
+
+/**
+ * Decrypts bytes produced by sealBytes.
+ * Throws if the passphrase is wrong or the payload was modified (GCM tag mismatch)
+ */
+export async function openBytes(sealed: Uint8Array, passphrase: string): Promise<Uint8Array> {
+  if (sealed.length < ENCRYPTION_OVERHEAD) {
+    throw new Error('Encrypted payload is truncated');
+  }
+
+  const view = new DataView(sealed.buffer, sealed.byteOffset, sealed.byteLength);
+  const kdf = sealed[0];
+  if (kdf !== KDF_PBKDF2_SHA256) {
+    throw new Error(`Unsupported key derivation function (${kdf})`);
+  }
+
+  const iterations = view.getUint32(1, false);
+  if (iterations === 0 || iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new Error('Invalid key derivation parameters');
+  }
+
+  const salt = sealed.slice(5, 5 + SALT_LENGTH);
+  const iv = sealed.slice(5 + SALT_LENGTH, ENCRYPTION_HEADER_LENGTH);
+  const ciphertext = sealed.slice(ENCRYPTION_HEADER_LENGTH);
+  const key = await deriveKey(passphrase, salt, iterations);
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, tagLength: TAG_LENGTH * 8 },
+      key,
+      ciphertext
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    throw new Error('Incorrect passphrase or the payload has been tampered with');
+  }
+}
@@ -0,0 +1,430 @@
+// PNG encoder and decoder working on the stored sample values
+//
+// Browsers apply gamma and ICC profiles and reduce 16-bit samples when they
+// decode a PNG, and premultiply alpha when a canvas encodes one. Reading and
+// writing the file here keeps every sample exactly as it is stored, the same in
+// every browser and in Node.
+
+import { crc32 } from './crc32';
+import { inflateZlib } from './inflate';
+import { compressBytes } from './compression';
+
+const SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+
+const COLOR_GRAY = 0;
+const COLOR_RGB = 2;
+const COLOR_PALETTE = 3;
+const COLOR_GRAY_ALPHA = 4;
+const COLOR_RGBA = 6;
+
+// Samples per pixel for each colour type
+const CHANNELS: Record<number, number> = {
+  [COLOR_GRAY]: 1,
+  [COLOR_RGB]: 3,
+  [COLOR_PALETTE]: 1,
+  [COLOR_GRAY_ALPHA]: 2,
+  [COLOR_RGBA]: 4,
+};
+
+// Allowed bit depths for each colour type
+const BIT_DEPTHS: Record<number, number[]> = {
+  [COLOR_GRAY]: [1, 2, 4, 8, 16],
+  [COLOR_RGB]: [8, 16],
+  [COLOR_PALETTE]: [1, 2, 4, 8],
+  [COLOR_GRAY_ALPHA]: [8, 16],
+  [COLOR_RGBA]: [8, 16],
+};
+
+// Adam7 passes: starting column and row, then column and row step
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+const FILTER_NONE = 0;
+const FILTER_SUB = 1;
+const FILTER_UP = 2;
+const FILTER_AVERAGE = 3;
+const FILTER_PAETH = 4;
+
+/**
+ * RGBA samples of a 16-bit image, laid out like ImageData
+ */
+export interface ImageData16 {
+  width: number;
+  height: number;
+  data: Uint16Array;
+}
+
+interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlaced: boolean;
+}
+
+/**
+ * Whether the bytes start with the PNG signature
+ */
+export function isPng(bytes: Uint8Array): boolean {
+  return bytes.length >= SIGNATURE.length && SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Bit depth of a PNG's samples as given in its IHDR chunk, or 0 when the bytes
+ * don't start with one
+ */
+export function getPngBitDepth(bytes: Uint8Array): number {
+  // IHDR is always the first chunk, its bit depth follows the width and height
+  if (!isPng(bytes) || bytes.length < 25) return 0;
+  const type = String.fromCharCode(...bytes.subarray(12, 16));
+  return type === 'IHDR' ? bytes[24] : 0;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+}
+
+/**
+ * Reverses the filter of one row in place. bpp is the distance to the
+ * corresponding byte of the previous pixel
+ */
+function unfilterRow(filter: number, row: Uint8Array, previous: Uint8Array | null, bpp: number): void {
+  const length = row.length;
+  switch (filter) {
+    case FILTER_NONE:
+      return;
+    case FILTER_SUB:
+      for (let i = bpp; i < length; i++) row[i] = (row[i] + row[i - bpp]) & 0xFF;
+      return;
+    case FILTER_UP:
+      if (!previous) return;
+      for (let i = 0; i < length; i++) row[i] = (row[i] + previous[i]) & 0xFF;
+      return;
+    case FILTER_AVERAGE:
+      for (let i = 0; i < length; i++) {
+        const left = i >= bpp ? row[i - bpp] : 0;
+        const up = previous ? previous[i] : 0;
+        row[i] = (row[i] + ((left + up) >> 1)) & 0xFF;
+      }
+      return;
+    case FILTER_PAETH:
+      for (let i = 0; i < length; i++) {
+        const left = i >= bpp ? row[i - bpp] : 0;
+        const up = previous ? previous[i] : 0;
+        const upLeft = previous && i >= bpp ? previous[i - bpp] : 0;
+        row[i] = (row[i] + paeth(left, up, upLeft)) & 0xFF;
+      }
+      return;
+    default:
+      throw new Error('PNG file is corrupted');
+  }
+}
+
+/**
+ * Bytes per row of a (sub-)image, without the filter byte
+ */
+function getRowBytes(width: number, header: PngHeader): number {
+  return Math.ceil((width * CHANNELS[header.colorType] * header.bitDepth) / 8);
+}
+
+/**
+ * Size of the inflated image data: every row of every pass plus its filter byte
+ */
+function getRawSize(header: PngHeader): number {
+  const passes = header.interlaced ? ADAM7_PASSES : [[0, 0, 1, 1]];
+  let size = 0;
+  for (const [x0, y0, dx, dy] of passes) {
+    const width = Math.ceil((header.width - x0) / dx);
+    const height = Math.ceil((header.height - y0) / dy);
+    if (width > 0 && height > 0) size += height * (getRowBytes(width, header) + 1);
+  }
+  return size;
+}
+
+/**
+ * Decodes a PNG to RGBA samples of the given depth. Colour chunks (gAMA, iCCP,
+ * sRGB, cHRM) are ignored, so the values are exactly the ones stored in the file
+ */
+function decodeSamples(
+  bytes: Uint8Array,
+  depth: 8 | 16
+): { width: number; height: number; pixels: Uint8ClampedArray | Uint16Array } {
+  if (!isPng(bytes)) {
+    throw new Error('Not a PNG file');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let header: PngHeader | null = null;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const dataChunks: Uint8Array[] = [];
+  let offset = SIGNATURE.length;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 8 + length;
+    if (end + 4 > bytes.length) {
+      throw new Error('PNG file is truncated');
+    }
+    if (crc32(bytes.subarray(offset + 4, end)) !== view.getUint32(end)) {
+      throw new Error('PNG file is corrupted');
+    }
+    const data = bytes.subarray(offset + 8, end);
+
+    if (type === 'IHDR') {
+      header = {
+        width: view.getUint32(offset + 8),
+        height: view.getUint32(offset + 12),
+        bitDepth: data[8],
+        colorType: data[9],
+        interlaced: data[12] === 1,
+      };
+      if (!BIT_DEPTHS[header.colorType]?.includes(header.bitDepth) || data[10] !== 0 || data[11] !== 0) {
+        throw new Error('Unsupported PNG format');
+      }
+      if (header.width === 0 || header.height === 0) {
+        throw new Error('PNG image has no size');
+      }
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      transparency = data;
+    } else if (type === 'IDAT') {
+      dataChunks.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    offset = end + 4;
+  }
+
+  if (!header || dataChunks.length === 0) {
+    throw new Error('PNG file has no image data');
+  }
+  if (header.colorType === COLOR_PALETTE && !palette) {
+    throw new Error('PNG file is missing its palette');
+  }
+  const colors = palette ?? new Uint8Array(0);
+
+  const compressed = new Uint8Array(dataChunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let position = 0;
+  for (const chunk of dataChunks) {
+    compressed.set(chunk, position);
+    position += chunk.length;
+  }
+  const rawSize = getRawSize(header);
+  const raw = inflateZlib(compressed, rawSize, rawSize);
+  if (raw.length < rawSize) {
+    throw new Error('PNG file is truncated');
+  }
+
+  const { width, height, bitDepth, colorType } = header;
+  const channels = CHANNELS[colorType];
+  const bpp = Math.max(1, (channels * bitDepth) >> 3);
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+  const pixels = depth === 16 ? new Uint16Array(width * height * 4) : new Uint8ClampedArray(width * height * 4);
+  const opaque = depth === 16 ? 0xFFFF : 0xFF;
+  // 8-bit values scale to 16 bits by repeating the byte (255 becomes 65535)
+  const byteScale = depth === 16 ? 257 : 1;
+
+  // tRNS holds one 16-bit key colour for grey and RGB images, alpha values for palette entries
+  const transparentKey =
+    transparency && (colorType === COLOR_GRAY || colorType === COLOR_RGB)
+      ? Array.from({ length: transparency.length >> 1 }, (_, i) => (transparency[i * 2] << 8) | transparency[i * 2 + 1])
+      : null;
+
+  const readSample = (row: Uint8Array, index: number): number => {
+    if (bitDepth === 8) return row[index];
+    if (bitDepth === 16) return (row[index * 2] << 8) | row[index * 2 + 1];
+    const bitOffset = index * bitDepth;
+    return (row[bitOffset >> 3] >> (8 - bitDepth - (bitOffset & 7))) & maxSample;
+  };
+  // Grey samples below 8 bits are scaled up to the full range, 16-bit ones keep
+  // their high byte unless 16-bit output was asked for
+  const toSample = (sample: number): number => {
+    if (bitDepth === 16) return depth === 16 ? sample : sample >> 8;
+    return (bitDepth < 8 ? Math.round((sample * 255) / maxSample) : sample) * byteScale;
+  };
+
+  const passes = header.interlaced ? ADAM7_PASSES : [[0, 0, 1, 1]];
+  position = 0;
+  for (const [x0, y0, dx, dy] of passes) {
+    const passWidth = Math.ceil((width - x0) / dx);
+    const passHeight = Math.ceil((height - y0) / dy);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+
+    const rowBytes = getRowBytes(passWidth, header);
+    let previous: Uint8Array | null = null;
+    for (let y = 0; y < passHeight; y++) {
+      const filter = raw[position];
+      const row = raw.subarray(position + 1, position + 1 + rowBytes);
+      unfilterRow(filter, row, previous, bpp);
+      previous = row;
+      position += rowBytes + 1;
+
+      for (let x = 0; x < passWidth; x++) {
+        const out = ((y0 + y * dy) * width + x0 + x * dx) * 4;
+        const first = x * channels;
+        if (colorType === COLOR_PALETTE) {
+          const index = readSample(row, x);
+          pixels[out] = colors[index * 3] * byteScale;
+          pixels[out + 1] = colors[index * 3 + 1] * byteScale;
+          pixels[out + 2] = colors[index * 3 + 2] * byteScale;
+          pixels[out + 3] = transparency && index < transparency.length ? transparency[index] * byteScale : opaque;
+        } else if (colorType === COLOR_GRAY || colorType === COLOR_GRAY_ALPHA) {
+          const gray = readSample(row, first);
+          pixels[out] = pixels[out + 1] = pixels[out + 2] = toSample(gray);
+          if (colorType === COLOR_GRAY_ALPHA) {
+            pixels[out + 3] = toSample(readSample(row, first + 1));
+          } else {
+            pixels[out + 3] = transparentKey && gray === transparentKey[0] ? 0 : opaque;
+          }
+        } else {
+          const red = readSample(row, first);
+          const green = readSample(row, first + 1);
+          const blue = readSample(row, first + 2);
+          pixels[out] = toSample(red);
+          pixels[out + 1] = toSample(green);
+          pixels[out + 2] = toSample(blue);
+          if (colorType === COLOR_RGBA) {
+            pixels[out + 3] = toSample(readSample(row, first + 3));
+          } else {
+            const isKey =
+              transparentKey !== null &&
+              red === transparentKey[0] &&
+              green === transparentKey[1] &&
+              blue === transparentKey[2];
+            pixels[out + 3] = isKey ? 0 : opaque;
+          }
+        }
+      }
+    }
+  }
+
+  return { width, height, pixels };
+}
+
+/**
+ * Decodes a PNG to 8-bit RGBA pixels, 16-bit samples keep their high byte
+ */
+export function decodePng(bytes: Uint8Array): ImageData {
+  const { width, height, pixels } = decodeSamples(bytes, 8);
+  return new ImageData(pixels as Uint8ClampedArray, width, height);
+}
+
+/**
+ * Decodes a PNG to 16-bit RGBA samples. 16-bit files keep every sample as
+ * stored, lower depths are scaled up to the full range
+ */
+export function decodePng16(bytes: Uint8Array): ImageData16 {
+  const { width, height, pixels } = decodeSamples(bytes, 16);
+  return { width, height, data: pixels as Uint16Array };
+}
+
+function writeChunk(output: Uint8Array, offset: number, type: string, data: Uint8Array): number {
+  const view = new DataView(output.buffer, output.byteOffset, output.byteLength);
+  view.setUint32(offset, data.length);
+  for (let i = 0; i < 4; i++) output[offset + 4 + i] = type.charCodeAt(i);
+  output.set(data, offset + 8);
+  view.setUint32(offset + 8 + data.length, crc32(output.subarray(offset + 4, offset + 8 + data.length)));
+  return offset + 12 + data.length;
+}
+
+/**
+ * Filters one row with the given filter type into out
+ */
+function filterRow(filter: number, row: Uint8Array, previous: Uint8Array | null, bpp: number, out: Uint8Array): void {
+  for (let i = 0; i < row.length; i++) {
+    const left = i >= bpp ? row[i - bpp] : 0;
+    const up = previous ? previous[i] : 0;
+    const upLeft = previous && i >= bpp ? previous[i - bpp] : 0;
+    let predictor = 0;
+    if (filter === FILTER_SUB) predictor = left;
+    else if (filter === FILTER_UP) predictor = up;
+    else if (filter === FILTER_AVERAGE) predictor = (left + up) >> 1;
+    else if (filter === FILTER_PAETH) predictor = paeth(left, up, upLeft);
+    out[i] = (row[i] - predictor) & 0xFF;
+  }
+}
+
+/**
+ * Encodes RGBA pixels as a PNG without touching any sample (RGB when the image
+ * is fully opaque), 16 bits per sample for ImageData16 and 8 otherwise. Each
+ * row gets the filter with the smallest sum of absolute differences, the usual
+ * heuristic for good compression
+ */
+export async function encodePng(imageData: ImageData | ImageData16): Promise<Uint8Array> {
+  const { width, height, data } = imageData;
+  const bitDepth = data instanceof Uint16Array ? 16 : 8;
+  const opaqueValue = bitDepth === 16 ? 0xFFFF : 0xFF;
+  let opaque = true;
+  for (let i = 3; i < data.length && opaque; i += 4) {
+    opaque = data[i] === opaqueValue;
+  }
+  const channels = opaque ? 3 : 4;
+  const bytesPerPixel = (channels * bitDepth) / 8;
+  const rowBytes = width * bytesPerPixel;
+
+  const raw = new Uint8Array(height * (rowBytes + 1));
+  const candidates = Array.from({ length: 5 }, () => new Uint8Array(rowBytes));
+  let previous: Uint8Array | null = null;
+  for (let y = 0; y < height; y++) {
+    const row = new Uint8Array(rowBytes);
+    for (let x = 0; x < width; x++) {
+      for (let channel = 0; channel < channels; channel++) {
+        const sample = data[(y * width + x) * 4 + channel];
+        if (bitDepth === 16) {
+          // Samples are stored big-endian
+          row[(x * channels + channel) * 2] = sample >> 8;
+          row[(x * channels + channel) * 2 + 1] = sample & 0xFF;
+        } else {
+          row[x * channels + channel] = sample;
+        }
+      }
+    }
+
+    let best = 0;
+    let bestScore = Infinity;
+    for (let filter = FILTER_NONE; filter <= FILTER_PAETH; filter++) {
+      filterRow(filter, row, previous, bytesPerPixel, candidates[filter]);
+      let score = 0;
+      for (const byte of candidates[filter]) score += byte < 128 ? byte : 256 - byte;
+      if (score < bestScore) {
+        bestScore = score;
+        best = filter;
+      }
+    }
+    raw[y * (rowBytes + 1)] = best;
+    raw.set(candidates[best], y * (rowBytes + 1) + 1);
+    previous = row;
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = bitDepth;
+  header[9] = opaque ? COLOR_RGB : COLOR_RGBA;
+  // Compression, filter method and interlacing are all 0
+
+  const compressed = await compressBytes(raw);
+  const output = new Uint8Array(SIGNATURE.length + 3 * 12 + header.length + compressed.length);
+  output.set(SIGNATURE, 0);
+  let offset = writeChunk(output, SIGNATURE.length, 'IHDR', header);
+  offset = writeChunk(output, offset, 'IDAT', compressed);
+  writeChunk(output, offset, 'IEND', new Uint8Array(0));
+  return output;
+}
@@ -0,0 +1,227 @@
+// Public-key encryption of payloads to one or more recipients (ECDH P-256 + AES-GCM)
+//
+// The payload is encrypted once with a random content key. For every recipient
+// that key is wrapped (AES-KW) with a key derived from ECDH between a one-off
+// ephemeral key pair and the recipient's public key, so any one of them can
+// open it with their private key. Recipients are addressed by an ECDH key pair
+// of their own, kept apart from the key pair they sign with.
+
+import { LabelledJwk, toPublicJwk } from './signing';
+
+const RECIPIENTS_VERSION = 1;
+const PUBLIC_KEY_LENGTH = 65; // Uncompressed P-256 point
+const KEY_ID_LENGTH = 8;
+const WRAPPED_KEY_LENGTH = 40; // AES-KW output for a 256-bit key
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const MAX_RECIPIENTS = 255;
+
+const KDF_INFO = 'StegoVault recipient key v1';
+const ECDH_ALGORITHM: EcKeyImportParams = { name: 'ECDH', namedCurve: 'P-256' };
+
+// key id + wrapped content key
+const RECIPIENT_ENTRY_LENGTH = KEY_ID_LENGTH + WRAPPED_KEY_LENGTH;
+
+export interface EncryptionKeyPair {
+  publicKey: LabelledJwk;
+  privateKey: LabelledJwk;
+}
+
+/**
+ * Thrown when an image is encrypted to recipients but none of them is the given key
+ */
+export class NotARecipientError extends Error {
+  constructor() {
+    super('This image was not encrypted for your key');
+    this.name = 'NotARecipientError';
+  }
+}
+
+/**
+ * Bytes added on top of the plaintext when encrypting to the given number of recipients:
+ * version + ephemeral public key + count + entries + iv + GCM tag
+ */
+export function getRecipientsOverhead(recipientCount: number): number {
+  return 1 + PUBLIC_KEY_LENGTH + 1 + recipientCount * RECIPIENT_ENTRY_LENGTH + IV_LENGTH + TAG_LENGTH;
+}
+
+/**
+ * Generates a new key pair that payloads can be encrypted to, exported as JWKs
+ * labelled with the owner's name
+ */
+export async function generateEncryptionKeyPair(name: string): Promise<EncryptionKeyPair> {
+  const keyPair = await crypto.subtle.generateKey(ECDH_ALGORITHM, true, ['deriveBits']);
+  const [publicKey, privateKey] = await Promise.all([
+    crypto.subtle.exportKey('jwk', keyPair.publicKey),
+    crypto.subtle.exportKey('jwk', keyPair.privateKey),
+  ]);
+  return {
+    publicKey: { ...publicKey, kid: name },
+    privateKey: { ...privateKey, kid: name },
+  };
+}
+
+/**
+ * Imports a JWK as an ECDH key, dropping the usages and flags it was exported with
+ */
+function importEcdhKey(jwk: LabelledJwk, isPrivate: boolean): Promise<CryptoKey> {
+  const publicJwk = toPublicJwk(jwk);
+  const { kid: _kid, ...ecdhJwk } = isPrivate ? { ...publicJwk, d: jwk.d } : publicJwk;
+  return crypto.subtle.importKey('jwk', ecdhJwk, ECDH_ALGORITHM, false, isPrivate ? ['deriveBits'] : []);
+}
+
+async function exportRawPublicKey(jwk: LabelledJwk): Promise<Uint8Array> {
+  const { kid: _kid, ...publicJwk } = toPublicJwk(jwk);
+  const key = await crypto.subtle.importKey('jwk', publicJwk, ECDH_ALGORITHM, true, []);
+  return new Uint8Array(await crypto.subtle.exportKey('raw', key));
+}
+
+/**
+ * Short identifier of a recipient key (SHA-256 prefix of the raw public key)
+ */
+async function getKeyId(rawPublicKey: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', rawPublicKey)).slice(0, KEY_ID_LENGTH);
+}
+
+/**
+ * Derives the AES-KW key that wraps the content key for one recipient
+ */
+async function deriveWrappingKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  ephemeralPublicKey: Uint8Array,
+  recipientPublicKey: Uint8Array
+): Promise<CryptoKey> {
+  const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+  const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+
+  // Bind the derived key to both public keys
+  const info = new TextEncoder().encode(KDF_INFO);
+  const context = new Uint8Array(info.length + recipientPublicKey.length);
+  context.set(info, 0);
+  context.set(recipientPublicKey, info.length);
+
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: ephemeralPublicKey, info: context },
+    hkdfKey,
+    { name: 'AES-KW', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+function keyIdsEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Encrypts bytes so that any of the given public keys can open them
+ */
+export async function sealForRecipients(
+  plaintext: Uint8Array,
+  recipients: LabelledJwk[]
+): Promise<Uint8Array> {
+  if (recipients.length === 0) {
+    throw new Error('At least one recipient is required');
+  }
+  if (recipients.length > MAX_RECIPIENTS) {
+    throw new Error(`At most ${MAX_RECIPIENTS} recipients are supported`);
+  }
+
+  const contentKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+  const ephemeral = await crypto.subtle.generateKey(ECDH_ALGORITHM, true, ['deriveBits']);
+  const ephemeralPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+
+  const sealed = new Uint8Array(getRecipientsOverhead(recipients.length) + plaintext.length);
+  sealed[0] = RECIPIENTS_VERSION;
+  sealed.set(ephemeralPublicKey, 1);
+  sealed[1 + PUBLIC_KEY_LENGTH] = recipients.length;
+
+  let offset = 2 + PUBLIC_KEY_LENGTH;
+  for (const recipient of recipients) {
+    const rawPublicKey = await exportRawPublicKey(recipient);
+    const wrappingKey = await deriveWrappingKey(
+      ephemeral.privateKey,
+      await importEcdhKey(recipient, false),
+      ephemeralPublicKey,
+      rawPublicKey
+    );
+    const wrappedKey = await crypto.subtle.wrapKey('raw', contentKey, wrappingKey, 'AES-KW');
+    sealed.set(await getKeyId(rawPublicKey), offset);
+    sealed.set(new Uint8Array(wrappedKey), offset + KEY_ID_LENGTH);
+    offset += RECIPIENT_ENTRY_LENGTH;
+  }
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  sealed.set(iv, offset);
+  // The recipient header is authenticated along with the payload
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, tagLength: TAG_LENGTH * 8, additionalData: sealed.slice(0, offset) },
+    contentKey,
+    plaintext
+  );
+  sealed.set(new Uint8Array(ciphertext), offset + IV_LENGTH);
+  return sealed;
+}
+
+/**
+ * Opens bytes produced by sealForRecipients with one recipient's private key
+ */
+export async function openAsRecipient(sealed: Uint8Array, privateKey: LabelledJwk): Promise<Uint8Array> {
+  const malformed = () => new Error('Recipient header is malformed');
+  if (sealed.length < getRecipientsOverhead(0) || sealed[0] !== RECIPIENTS_VERSION) {
+    throw malformed();
+  }
+
+  const ephemeralPublicKey = sealed.slice(1, 1 + PUBLIC_KEY_LENGTH);
+  const count = sealed[1 + PUBLIC_KEY_LENGTH];
+  const headerLength = 2 + PUBLIC_KEY_LENGTH + count * RECIPIENT_ENTRY_LENGTH;
+  if (sealed.length < getRecipientsOverhead(count)) {
+    throw malformed();
+  }
+
+  const ownPublicKey = await exportRawPublicKey(privateKey);
+  const ownKeyId = await getKeyId(ownPublicKey);
+  let wrappedKey: Uint8Array | null = null;
+  for (let offset = 2 + PUBLIC_KEY_LENGTH; offset < headerLength; offset += RECIPIENT_ENTRY_LENGTH) {
+    if (keyIdsEqual(sealed.subarray(offset, offset + KEY_ID_LENGTH), ownKeyId)) {
+      wrappedKey = sealed.slice(offset + KEY_ID_LENGTH, offset + RECIPIENT_ENTRY_LENGTH);
+      break;
+    }
+  }
+  if (!wrappedKey) {
+    throw new NotARecipientError();
+  }
+
+  try {
+    const ephemeralKey = await crypto.subtle.importKey('raw', ephemeralPublicKey, ECDH_ALGORITHM, false, []);
+    const wrappingKey = await deriveWrappingKey(
+      await importEcdhKey(privateKey, true),
+      ephemeralKey,
+      ephemeralPublicKey,
+      ownPublicKey
+    );
+    const contentKey = await crypto.subtle.unwrapKey(
+      'raw',
+      wrappedKey,
+      wrappingKey,
+      'AES-KW',
+      'AES-GCM',
+      false,
+      ['decrypt']
+    );
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: sealed.slice(headerLength, headerLength + IV_LENGTH),
+        tagLength: TAG_LENGTH * 8,
+        additionalData: sealed.slice(0, headerLength),
+      },
+      contentKey,
+      sealed.slice(headerLength + IV_LENGTH)
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    throw new Error('Could not open the payload with your key, it may have been tampered with');
+  }
+}
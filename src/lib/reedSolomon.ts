@@ -0,0 +1,337 @@
+// Reed-Solomon error correction over GF(2^8) with interleaved block framing
+
+const PRIMITIVE_POLY = 0x11d;
+const BLOCK_SIZE = 255;
+
+const EXP = new Uint8Array(512);
+const LOG = new Uint8Array(256);
+
+(() => {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x <<= 1;
+    if (x & 0x100) x ^= PRIMITIVE_POLY;
+  }
+  for (let i = 255; i < 512; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+})();
+
+export class ReedSolomonError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReedSolomonError';
+  }
+}
+
+export interface EccDecodeResult {
+  data: Uint8Array;
+  // Number of corrupted bytes (symbols) that were repaired
+  corrected: number;
+}
+
+function gfMul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0;
+  return EXP[LOG[a] + LOG[b]];
+}
+
+function gfDiv(a: number, b: number): number {
+  if (b === 0) throw new ReedSolomonError('Division by zero');
+  if (a === 0) return 0;
+  return EXP[(LOG[a] + 255 - LOG[b]) % 255];
+}
+
+function gfPow(x: number, power: number): number {
+  return EXP[(((LOG[x] * power) % 255) + 255) % 255];
+}
+
+function gfInverse(x: number): number {
+  return EXP[255 - LOG[x]];
+}
+
+// Polynomials are stored highest degree first
+
+function polyScale(p: number[], x: number): number[] {
+  return p.map((coef) => gfMul(coef, x));
+}
+
+function polyAdd(p: number[], q: number[]): number[] {
+  const length = Math.max(p.length, q.length);
+  const result = new Array<number>(length).fill(0);
+  for (let i = 0; i < p.length; i++) result[i + length - p.length] = p[i];
+  for (let i = 0; i < q.length; i++) result[i + length - q.length] ^= q[i];
+  return result;
+}
+
+function polyMul(p: number[], q: number[]): number[] {
+  const result = new Array<number>(p.length + q.length - 1).fill(0);
+  for (let j = 0; j < q.length; j++) {
+    for (let i = 0; i < p.length; i++) {
+      result[i + j] ^= gfMul(p[i], q[j]);
+    }
+  }
+  return result;
+}
+
+function polyEval(p: number[] | Uint8Array, x: number): number {
+  let y = p[0];
+  for (let i = 1; i < p.length; i++) {
+    y = gfMul(y, x) ^ p[i];
+  }
+  return y;
+}
+
+const generatorCache = new Map<number, number[]>();
+
+function generatorPoly(nsym: number): number[] {
+  let g = generatorCache.get(nsym);
+  if (!g) {
+    g = [1];
+    for (let i = 0; i < nsym; i++) {
+      g = polyMul(g, [1, gfPow(2, i)]);
+    }
+    generatorCache.set(nsym, g);
+  }
+  return g;
+}
+
+/**
+ * Encodes one block, returning the message followed by nsym parity bytes
+ */
+export function rsEncodeBlock(message: Uint8Array, nsym: number): Uint8Array {
+  if (message.length + nsym > BLOCK_SIZE) {
+    throw new ReedSolomonError('Message too long for a single block');
+  }
+
+  const gen = generatorPoly(nsym);
+  const output = new Uint8Array(message.length + nsym);
+  output.set(message);
+
+  // Polynomial division by the generator, the remainder is the parity
+  for (let i = 0; i < message.length; i++) {
+    const coef = output[i];
+    if (coef !== 0) {
+      for (let j = 1; j < gen.length; j++) {
+        output[i + j] ^= gfMul(gen[j], coef);
+      }
+    }
+  }
+
+  output.set(message);
+  return output;
+}
+
+function calcSyndromes(codeword: Uint8Array, nsym: number): number[] {
+  // Leading zero keeps the indices aligned with the textbook formulation
+  const synd = [0];
+  for (let i = 0; i < nsym; i++) {
+    synd.push(polyEval(codeword, gfPow(2, i)));
+  }
+  return synd;
+}
+
+/**
+ * Berlekamp-Massey: computes the error locator polynomial from the syndromes
+ */
+function findErrorLocator(synd: number[], nsym: number): number[] {
+  let errLoc = [1];
+  let oldLoc = [1];
+  const shift = synd.length - nsym;
+
+  for (let i = 0; i < nsym; i++) {
+    const k = i + shift;
+    let delta = synd[k];
+    for (let j = 1; j < errLoc.length; j++) {
+      delta ^= gfMul(errLoc[errLoc.length - 1 - j], synd[k - j]);
+    }
+    oldLoc = [...oldLoc, 0];
+
+    if (delta !== 0) {
+      if (oldLoc.length > errLoc.length) {
+        const newLoc = polyScale(oldLoc, delta);
+        oldLoc = polyScale(errLoc, gfInverse(delta));
+        errLoc = newLoc;
+      }
+      errLoc = polyAdd(errLoc, polyScale(oldLoc, delta));
+    }
+  }
+
+  while (errLoc.length > 0 && errLoc[0] === 0) errLoc.shift();
+  if ((errLoc.length - 1) * 2 > nsym) {
+    throw new ReedSolomonError('Too many errors to correct');
+  }
+  return errLoc;
+}
+
+/**
+ * Chien search: finds the error positions from the (reversed) locator polynomial
+ */
+function findErrors(errLocReversed: number[], length: number): number[] {
+  const errorCount = errLocReversed.length - 1;
+  const positions: number[] = [];
+  for (let i = 0; i < length; i++) {
+    if (polyEval(errLocReversed, gfPow(2, i)) === 0) {
+      positions.push(length - 1 - i);
+    }
+  }
+  if (positions.length !== errorCount) {
+    throw new ReedSolomonError('Too many errors to correct');
+  }
+  return positions;
+}
+
+/**
+ * Forney algorithm: computes error magnitudes and repairs the codeword in place
+ */
+function correctErrata(codeword: Uint8Array, synd: number[], errPos: number[]): void {
+  const coefPos = errPos.map((p) => codeword.length - 1 - p);
+
+  let errataLoc = [1];
+  for (const i of coefPos) {
+    errataLoc = polyMul(errataLoc, polyAdd([1], [gfPow(2, i), 0]));
+  }
+
+  // Error evaluator: (synd * locator) mod x^(nsym + 1)
+  const product = polyMul([...synd].reverse(), errataLoc);
+  const evaluatorLength = errataLoc.length;
+  const errEval = product.slice(product.length - evaluatorLength);
+
+  const X = coefPos.map((p) => gfPow(2, p));
+
+  for (let i = 0; i < X.length; i++) {
+    const xiInv = gfInverse(X[i]);
+
+    let locPrime = 1;
+    for (let j = 0; j < X.length; j++) {
+      if (j !== i) {
+        locPrime = gfMul(locPrime, 1 ^ gfMul(xiInv, X[j]));
+      }
+    }
+    if (locPrime === 0) {
+      throw new ReedSolomonError('Could not compute error magnitude');
+    }
+
+    const y = gfMul(X[i], polyEval(errEval, xiInv));
+    codeword[errPos[i]] ^= gfDiv(y, locPrime);
+  }
+}
+
+/**
+ * Decodes one block (message + nsym parity bytes), correcting up to nsym / 2 byte errors
+ */
+export function rsDecodeBlock(codeword: Uint8Array, nsym: number): EccDecodeResult {
+  const repaired = new Uint8Array(codeword);
+  const synd = calcSyndromes(repaired, nsym);
+
+  let corrected = 0;
+  if (synd.some((s) => s !== 0)) {
+    const errLoc = findErrorLocator(synd, nsym);
+    const errPos = findErrors([...errLoc].reverse(), repaired.length);
+    correctErrata(repaired, synd, errPos);
+    corrected = errPos.length;
+
+    if (calcSyndromes(repaired, nsym).some((s) => s !== 0)) {
+      throw new ReedSolomonError('Too many errors to correct');
+    }
+  }
+
+  return { data: repaired.slice(0, repaired.length - nsym), corrected };
+}
+
+/**
+ * Number of blocks used for a message of the given length
+ */
+function blockCount(messageLength: number, nsym: number): number {
+  return Math.max(1, Math.ceil(messageLength / (BLOCK_SIZE - nsym)));
+}
+
+/**
+ * Splits a length into `count` nearly equal parts (the first ones one byte longer)
+ */
+function splitSizes(total: number, count: number): number[] {
+  const base = Math.floor(total / count);
+  const extra = total % count;
+  return Array.from({ length: count }, (_, i) => base + (i < extra ? 1 : 0));
+}
+
+/**
+ * Size of the encoded stream for a message of the given length
+ */
+export function getEccEncodedLength(messageLength: number, nsym: number): number {
+  return messageLength + blockCount(messageLength, nsym) * nsym;
+}
+
+/**
+ * Largest message length whose encoded stream fits in `capacity` bytes
+ */
+export function getEccMessageCapacity(capacity: number, nsym: number): number {
+  let length = Math.max(0, capacity - blockCount(capacity, nsym) * nsym);
+  while (getEccEncodedLength(length + 1, nsym) <= capacity) length++;
+  while (length > 0 && getEccEncodedLength(length, nsym) > capacity) length--;
+  return getEccEncodedLength(length, nsym) <= capacity ? length : 0;
+}
+
+/**
+ * Encodes a message of any length into interleaved Reed-Solomon blocks.
+ * Interleaving spreads a run of damaged bytes (a damaged image region) over
+ * many blocks, so each block only has to repair a few of them
+ */
+export function eccEncode(message: Uint8Array, nsym: number): Uint8Array {
+  const count = blockCount(message.length, nsym);
+  const sizes = splitSizes(message.length, count);
+
+  const blocks: Uint8Array[] = [];
+  let offset = 0;
+  for (const size of sizes) {
+    blocks.push(rsEncodeBlock(message.subarray(offset, offset + size), nsym));
+    offset += size;
+  }
+
+  const output = new Uint8Array(getEccEncodedLength(message.length, nsym));
+  const longest = blocks[0].length;
+  let index = 0;
+  for (let j = 0; j < longest; j++) {
+    for (const block of blocks) {
+      if (j < block.length) output[index++] = block[j];
+    }
+  }
+  return output;
+}
+
+/**
+ * Decodes a stream produced by eccEncode, repairing errors block by block
+ */
+export function eccDecode(encoded: Uint8Array, nsym: number): EccDecodeResult {
+  // The block count satisfies count = blockCount(length - count * nsym); there is at most one
+  let count = 1;
+  while (count * nsym < encoded.length && blockCount(encoded.length - count * nsym, nsym) !== count) {
+    count++;
+  }
+  const messageLength = encoded.length - count * nsym;
+  if (messageLength < 0 || blockCount(messageLength, nsym) !== count) {
+    throw new ReedSolomonError('Invalid error correction stream length');
+  }
+
+  const sizes = splitSizes(messageLength, count).map((size) => size + nsym);
+  const blocks = sizes.map((size) => new Uint8Array(size));
+  let index = 0;
+  for (let j = 0; j < sizes[0]; j++) {
+    for (let b = 0; b < count; b++) {
+      if (j < sizes[b]) blocks[b][j] = encoded[index++];
+    }
+  }
+
+  const message = new Uint8Array(messageLength);
+  let offset = 0;
+  let corrected = 0;
+  for (const block of blocks) {
+    const result = rsDecodeBlock(block, nsym);
+    message.set(result.data, offset);
+    offset += result.data.length;
+    corrected += result.corrected;
+  }
+
+  return { data: message, corrected };
+}
@@ -0,0 +1,69 @@
+// Key-seeded pixel ordering for scattered LSB embedding
+
+/**
+ * Small fast PRNG (sfc32) - deterministic for a given 128-bit seed
+ */
+function sfc32(a: number, b: number, c: number, d: number): () => number {
+  return () => {
+    a |= 0; b |= 0; c |= 0; d |= 0;
+    const t = (((a + b) | 0) + d) | 0;
+    d = (d + 1) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+    return t >>> 0;
+  };
+}
+
+/**
+ * Derives a PRNG from a secret key by hashing it with SHA-256
+ */
+async function createKeyedRandom(key: string): Promise<() => number> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  const seed = new DataView(digest);
+  const random = sfc32(
+    seed.getUint32(0, false),
+    seed.getUint32(4, false),
+    seed.getUint32(8, false),
+    seed.getUint32(12, false)
+  );
+
+  // Discard the first outputs so similar seeds diverge
+  for (let i = 0; i < 16; i++) random();
+  return random;
+}
+
+/**
+ * Returns a uniformly distributed integer in [0, bound) without modulo bias
+ */
+function randomBelow(random: () => number, bound: number): number {
+  const limit = 0x100000000 - (0x100000000 % bound);
+  let value = random();
+  while (value >= limit) {
+    value = random();
+  }
+  return value % bound;
+}
+
+/**
+ * Creates a key-dependent permutation of pixel indices (Fisher-Yates shuffle).
+ * The same key and pixel count always produce the same order, so the decoder
+ * can revisit the channels the encoder wrote.
+ */
+export async function createPixelOrder(key: string, pixelCount: number): Promise<Uint32Array> {
+  const random = await createKeyedRandom(key);
+  const order = new Uint32Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    order[i] = i;
+  }
+
+  for (let i = pixelCount - 1; i > 0; i--) {
+    const j = randomBelow(random, i + 1);
+    const tmp = order[i];
+    order[i] = order[j];
+    order[j] = tmp;
+  }
+
+  return order;
+}
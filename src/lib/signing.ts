@@ -0,0 +1,164 @@
+// ECDSA P-256 signatures proving which key pair sealed a payload (WebCrypto)
+
+const SIGNATURE_VERSION = 1;
+const PUBLIC_KEY_LENGTH = 65; // Uncompressed P-256 point
+const SIGNATURE_LENGTH = 64; // r || s
+
+// Domain separation so a signature made here can't be replayed as anything else
+const SIGNING_CONTEXT = 'StegoVault signature v1';
+
+const KEY_ALGORITHM: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+/**
+ * Size of the block appended to signed payloads: version + public key + signature
+ */
+export const SIGNATURE_BLOCK_SIZE = 1 + PUBLIC_KEY_LENGTH + SIGNATURE_LENGTH;
+
+// JWK labelled with its owner's name in the standard `kid` member
+export type LabelledJwk = JsonWebKey & { kid?: string };
+
+export interface SigningKeyPair {
+  publicKey: LabelledJwk;
+  privateKey: LabelledJwk;
+}
+
+export interface TrustedKey {
+  name: string;
+  // Verifies the contact's signatures; the fingerprint is this key's
+  publicKey: LabelledJwk;
+  fingerprint: string;
+  // ECDH key payloads are encrypted to, missing for keys exported with a signing key only
+  encryptionKey?: LabelledJwk;
+}
+
+export type SignatureStatus =
+  | { state: 'unsigned' }
+  | { state: 'invalid' }
+  | { state: 'trusted'; signer: string; fingerprint: string }
+  | { state: 'untrusted'; fingerprint: string };
+
+/**
+ * Generates a new signing key pair, exported as JWKs labelled with the owner's name
+ */
+export async function generateSigningKeyPair(name: string): Promise<SigningKeyPair> {
+  const keyPair = await crypto.subtle.generateKey(KEY_ALGORITHM, true, ['sign', 'verify']);
+  const [publicKey, privateKey] = await Promise.all([
+    crypto.subtle.exportKey('jwk', keyPair.publicKey),
+    crypto.subtle.exportKey('jwk', keyPair.privateKey),
+  ]);
+  return {
+    publicKey: { ...publicKey, kid: name },
+    privateKey: { ...privateKey, kid: name },
+  };
+}
+
+/**
+ * Strips everything but the public coordinates from an EC JWK
+ */
+export function toPublicJwk(jwk: LabelledJwk): LabelledJwk {
+  if (jwk.kty !== 'EC' || jwk.crv !== 'P-256' || !jwk.x || !jwk.y) {
+    throw new Error('Only P-256 keys are supported');
+  }
+  return { kty: 'EC', crv: 'P-256', x: jwk.x, y: jwk.y, ...(jwk.kid ? { kid: jwk.kid } : {}) };
+}
+
+async function exportRawPublicKey(jwk: LabelledJwk): Promise<Uint8Array> {
+  const { kid: _kid, ...publicJwk } = toPublicJwk(jwk);
+  const key = await crypto.subtle.importKey('jwk', publicJwk, KEY_ALGORITHM, true, ['verify']);
+  return new Uint8Array(await crypto.subtle.exportKey('raw', key));
+}
+
+async function fingerprintOf(rawPublicKey: Uint8Array): Promise<string> {
+  // First 8 bytes of the SHA-256 of the public key, grouped for reading aloud
+  const digest = await crypto.subtle.digest('SHA-256', rawPublicKey);
+  const hex = Array.from(new Uint8Array(digest).slice(0, 8), (b) => b.toString(16).padStart(2, '0'));
+  return hex.join('').replace(/(.{4})(?!$)/g, '$1 ');
+}
+
+/**
+ * Short, human-comparable fingerprint of a public key
+ */
+export async function getKeyFingerprint(publicKey: LabelledJwk): Promise<string> {
+  return fingerprintOf(await exportRawPublicKey(publicKey));
+}
+
+/**
+ * Whether a JWK holds the same public key as the raw point
+ */
+async function isPublicKey(jwk: LabelledJwk, rawPublicKey: Uint8Array): Promise<boolean> {
+  let raw: Uint8Array;
+  try {
+    raw = await exportRawPublicKey(jwk);
+  } catch {
+    return false;
+  }
+  return raw.length === rawPublicKey.length && raw.every((byte, i) => byte === rawPublicKey[i]);
+}
+
+function withContext(message: Uint8Array): Uint8Array {
+  const context = new TextEncoder().encode(SIGNING_CONTEXT);
+  const output = new Uint8Array(context.length + message.length);
+  output.set(context, 0);
+  output.set(message, context.length);
+  return output;
+}
+
+/**
+ * Signs a message and returns the signature block to append to it
+ */
+export async function signPayload(message: Uint8Array, privateKey: LabelledJwk): Promise<Uint8Array> {
+  const { kid: _kid, ...jwk } = privateKey;
+  const key = await crypto.subtle.importKey('jwk', jwk, KEY_ALGORITHM, false, ['sign']);
+  const signature = new Uint8Array(await crypto.subtle.sign(SIGN_ALGORITHM, key, withContext(message)));
+
+  const block = new Uint8Array(SIGNATURE_BLOCK_SIZE);
+  block[0] = SIGNATURE_VERSION;
+  block.set(await exportRawPublicKey(privateKey), 1);
+  block.set(signature, 1 + PUBLIC_KEY_LENGTH);
+  return block;
+}
+
+/**
+ * Verifies a signature block against the message and looks the signer up in
+ * the list of trusted keys
+ */
+export async function verifyPayload(
+  message: Uint8Array,
+  block: Uint8Array,
+  trustedKeys: TrustedKey[]
+): Promise<SignatureStatus> {
+  if (block.length !== SIGNATURE_BLOCK_SIZE || block[0] !== SIGNATURE_VERSION) {
+    return { state: 'invalid' };
+  }
+
+  const rawPublicKey = block.slice(1, 1 + PUBLIC_KEY_LENGTH);
+  let valid: boolean;
+  try {
+    const key = await crypto.subtle.importKey('raw', rawPublicKey, KEY_ALGORITHM, false, ['verify']);
+    valid = await crypto.subtle.verify(
+      SIGN_ALGORITHM,
+      key,
+      block.slice(1 + PUBLIC_KEY_LENGTH),
+      withContext(message)
+    );
+  } catch {
+    valid = false;
+  }
+  if (!valid) {
+    return { state: 'invalid' };
+  }
+
+  // The short fingerprint is for display; trust takes the whole key to match
+  const fingerprint = await fingerprintOf(rawPublicKey);
+  let trusted: TrustedKey | undefined;
+  for (const key of trustedKeys) {
+    if (await isPublicKey(key.publicKey, rawPublicKey)) {
+      trusted = key;
+      break;
+    }
+  }
+  return trusted
+    ? { state: 'trusted', signer: trusted.name, fingerprint }
+    : { state: 'untrusted', fingerprint };
+}
@@ -1,53 +1,384 @@
 // LSB Steganography Implementation - Cross-Environment Compatible
 
+import { sealBytes, openBytes, ENCRYPTION_OVERHEAD } from './payloadCrypto';
+import { sealForRecipients, openAsRecipient, getRecipientsOverhead } from './recipientCrypto';
+import { createPixelOrder } from './scatter';
+import { serializePayload, deserializeFile, readFileHeader, SecretPayload } from './payload';
+import { compressBytes, decompressBytes } from './compression';
+import { crc32 } from './crc32';
+import { BitReader } from './bitStream';
+import { isPng, getPngBitDepth, encodePng, decodePng, decodePng16, ImageData16 } from './png';
+import { isBmp, encodeBmp, decodeBmp } from './bmp';
+import { isTiff, encodeTiff, decodeTiff } from './tiff';
+import {
+  signPayload,
+  verifyPayload,
+  SIGNATURE_BLOCK_SIZE,
+  LabelledJwk,
+  SignatureStatus,
+  TrustedKey,
+} from './signing';
+import {
+  eccEncode,
+  eccDecode,
+  rsEncodeBlock,
+  rsDecodeBlock,
+  getEccEncodedLength,
+  getEccMessageCapacity,
+} from './reedSolomon';
+
 const DELIMITER = '$$END$$';
-const MAGIC_HEADER = 'STEGO1'; // Version identifier for compatibility
+// Bytes read at a time while scanning for the legacy delimiter
+const LEGACY_READ_SIZE = 1024;
+const CORRUPTED_PAYLOAD_MESSAGE = 'Payload corrupted: the checksum does not match';
+const CHUNK_PAYLOAD_MESSAGE = 'This image holds one frame of a hidden video message';
+const MAGIC_HEADER = 'STEGO1'; // Legacy text-only format, still decoded
+const MAGIC_HEADER_V2 = 'STEGO2'; // Payload flags without a checksum, still decoded
+const MAGIC_HEADER_V3 = 'STEGO3'; // Current format, adds a CRC-32 of the body
+
+// STEGO2 header: magic + flags (2 bytes) + payload length (4 bytes)
+const HEADER_V2_SIZE = MAGIC_HEADER_V2.length + 2 + 4;
+
+// STEGO3 header: the STEGO2 fields followed by the body's CRC-32 (4 bytes)
+const HEADER_V3_SIZE = HEADER_V2_SIZE + 4;
+
+// Bytes in front of the body when a container is stored as a plain byte stream
+export const CONTAINER_HEADER_SIZE = HEADER_V3_SIZE;
+
+// Bits 4-6 of the flags hold the body's bits per channel minus one
+const BITS_PER_CHANNEL_SHIFT = 4;
+const BITS_PER_CHANNEL_MASK = 0x7;
+export const MAX_BITS_PER_CHANNEL = 4;
+// 16-bit samples can give up their whole low byte, which an 8-bit display never shows
+export const MAX_BITS_PER_CHANNEL_16 = 8;
+
+// Bits 7-8 of the flags hold the error correction level (index into ECC_LEVELS)
+const ECC_LEVEL_SHIFT = 7;
+const ECC_LEVEL_MASK = 0x3;
+
+export type EccLevel = 'none' | 'low' | 'medium' | 'high';
+const ECC_LEVELS: EccLevel[] = ['none', 'low', 'medium', 'high'];
+
+// Reed-Solomon parity bytes per 255-byte block; each block repairs half as many bad bytes
+export const ECC_PARITY: Record<EccLevel, number> = { none: 0, low: 16, medium: 32, high: 64 };
+
+// With error correction the header is followed by its own parity bytes
+const HEADER_PARITY = 8;
+
+// Pixels between two progress reports while embedding, bytes while extracting
+const PROGRESS_INTERVAL = 1 << 16;
+
+// Default chunk size of a payload stream
+const STREAM_CHUNK_SIZE = 1 << 16;
+
+/**
+ * Pixels taken by a header of the given size. The header is always stored at
+ * 1 bit per RGB channel; the body starts at the next pixel
+ */
+function getHeaderPixels(headerSize: number, eccLevel: EccLevel): number {
+  return Math.ceil(((headerSize + (eccLevel === 'none' ? 0 : HEADER_PARITY)) * 8) / 3);
+}
 
 /**
- * Converts text to binary string using UTF-8 encoding
- * This ensures consistent encoding across all environments
+ * Flags stored in the STEGO2/STEGO3 header describing how the payload was packed
  */
-function textToBinary(text: string): string {
-  const encoder = new TextEncoder();
-  const bytes = encoder.encode(text);
-  let binary = '';
-  for (let i = 0; i < bytes.length; i++) {
-    binary += bytes[i].toString(2).padStart(8, '0');
+export const PayloadFlags = {
+  ENCRYPTED: 1 << 0,
+  FILE: 1 << 1,
+  ALPHA: 1 << 2,
+  COMPRESSED: 1 << 3,
+  // Bits 4-8 hold the bit depth and error correction level
+  SIGNED: 1 << 9,
+  RECIPIENTS: 1 << 10,
+  // One piece of a payload striped over several images (video frames)
+  CHUNK: 1 << 11,
+} as const;
+
+// Payloads packed with any of these can only be opened once they are read whole
+const WHOLE_PAYLOAD_FLAGS =
+  PayloadFlags.ENCRYPTED | PayloadFlags.RECIPIENTS | PayloadFlags.COMPRESSED | PayloadFlags.SIGNED | PayloadFlags.CHUNK;
+
+/**
+ * Thrown when an image carries a sealed payload and no passphrase was given
+ */
+export class EncryptedPayloadError extends Error {
+  constructor() {
+    super('Encrypted payload present. Enter the passphrase to reveal it.');
+    this.name = 'EncryptedPayloadError';
   }
-  return binary;
 }
 
 /**
- * Converts binary string back to text using UTF-8 decoding
+ * Pixels a payload can be hidden in: 8-bit ImageData, or the full samples of a 16-bit PNG
  */
-function binaryToText(binary: string): string {
-  const bytes = binary.match(/.{1,8}/g);
-  if (!bytes) return '';
-  
-  const byteArray = new Uint8Array(bytes.map((byte) => parseInt(byte, 2)));
-  const decoder = new TextDecoder('utf-8');
-  return decoder.decode(byteArray);
+export type PixelImage = ImageData | ImageData16;
+
+// Bits per stored sample of a cover image
+export type SampleDepth = 8 | 16;
+
+export type ImageFormat = 'png' | 'webp' | 'bmp' | 'tiff';
+
+/**
+ * Lossless formats an encoded image can be exported as
+ */
+export const IMAGE_FORMATS: Record<ImageFormat, { label: string; mimeType: string; extension: string }> = {
+  png: { label: 'PNG', mimeType: 'image/png', extension: 'png' },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp' },
+  bmp: { label: 'BMP', mimeType: 'image/bmp', extension: 'bmp' },
+  tiff: { label: 'TIFF', mimeType: 'image/tiff', extension: 'tif' },
+};
+
+export interface CapacityOptions {
+  encrypted?: boolean;
+  // Number of public keys the payload is encrypted to
+  recipients?: number;
+  bitsPerChannel?: number;
+  alpha?: boolean;
+  // Pixels whose alpha can carry a bit (see countAlphaCarriers), defaults to all of them
+  alphaPixels?: number;
+  eccLevel?: EccLevel;
+  // 16 for the full samples of a 16-bit PNG, which allow more bits per channel
+  sampleDepth?: SampleDepth;
+}
+
+export interface EncodeOptions {
+  passphrase?: string;
+  // Public encryption JWKs (see generateEncryptionKeyPair) to encrypt the payload to, instead of a passphrase
+  recipients?: LabelledJwk[];
+  // Number of low bits replaced in each RGB channel (1-4, or 1-8 in 16-bit images), recorded in the header
+  bitsPerChannel?: number;
+  // Also use the alpha LSB of (near-)opaque pixels
+  alpha?: boolean;
+  // Deflate the payload before sealing, kept only when it actually shrinks
+  compress?: boolean;
+  // Reed-Solomon redundancy over header and payload
+  eccLevel?: EccLevel;
+  // When set, header and payload bits are scattered over a key-seeded pixel order
+  scatterKey?: string;
+  // Private JWK used to sign the payload (see generateSigningKeyPair)
+  signingKey?: LabelledJwk;
+  // Called with the share of the payload written so far (0-100)
+  onProgress?: (progress: number) => void;
+}
+
+export interface DecodeOptions {
+  passphrase?: string;
+  // Private encryption JWK tried on payloads encrypted to recipients
+  privateKey?: LabelledJwk;
+  scatterKey?: string;
+  // Public keys a signature is checked against to name the signer
+  trustedKeys?: TrustedKey[];
+  // Called with the share of the payload read so far (0-100)
+  onProgress?: (progress: number) => void;
+}
+
+// 'unchecked' means the image predates the checksummed STEGO3 header
+export type IntegrityStatus = 'verified' | 'corrupted' | 'unchecked';
+
+export type EncryptionMode = 'none' | 'passphrase' | 'recipients';
+
+export interface DecodeResult {
+  payload: SecretPayload;
+  encrypted: boolean;
+  encryption: EncryptionMode;
+  eccLevel: EccLevel;
+  // Damaged bytes repaired by error correction (header and payload)
+  correctedErrors: number;
+  integrity: IntegrityStatus;
+  signature: SignatureStatus;
+}
+
+export interface ExtractedPayload {
+  flags: number;
+  body: Uint8Array;
+  eccLevel: EccLevel;
+  correctedErrors: number;
+  integrity: IntegrityStatus;
+}
+
+interface ContainerHeader {
+  flags: number;
+  length: number;
+  // CRC-32 of the body, null for STEGO2 headers
+  checksum: number | null;
+  headerSize: number;
+  correctedErrors: number;
+}
+
+function isImageData16(image: PixelImage): image is ImageData16 {
+  return image.data instanceof Uint16Array;
+}
+
+/**
+ * Bits per stored sample of an image's pixel data
+ */
+export function getSampleDepth(image: PixelImage): SampleDepth {
+  return isImageData16(image) ? 16 : 8;
+}
+
+/**
+ * Largest bits-per-channel setting for samples of the given depth
+ */
+export function getMaxBitsPerChannel(sampleDepth: SampleDepth = 8): number {
+  return sampleDepth === 16 ? MAX_BITS_PER_CHANNEL_16 : MAX_BITS_PER_CHANNEL;
+}
+
+/**
+ * Validates a bits-per-channel setting, defaulting to 1
+ */
+function resolveBitsPerChannel(bitsPerChannel = 1, sampleDepth: SampleDepth = 8): number {
+  const max = getMaxBitsPerChannel(sampleDepth);
+  if (!Number.isInteger(bitsPerChannel) || bitsPerChannel < 1 || bitsPerChannel > max) {
+    throw new Error(`Bits per channel must be between 1 and ${max}`);
+  }
+  return bitsPerChannel;
+}
+
+/**
+ * Largest value a sample of the array can hold
+ */
+function getMaxSample(data: Uint8ClampedArray | Uint16Array): number {
+  return data instanceof Uint16Array ? 0xFFFF : 0xFF;
+}
+
+/**
+ * Whether a pixel's alpha can carry a bit. Only the two highest alpha values
+ * (254 and 255 in 8-bit images) qualify, which stays true after the LSB is
+ * rewritten, so the decoder picks the same pixels
+ */
+function isAlphaCarrier(alpha: number, maxSample: number): boolean {
+  return (alpha | 1) === maxSample;
+}
+
+/**
+ * Counts the pixels whose alpha channel can carry a bit in alpha mode
+ */
+export function countAlphaCarriers(imageData: PixelImage): number {
+  const data = imageData.data;
+  const maxSample = getMaxSample(data);
+  let count = 0;
+  for (let i = 3; i < data.length; i += 4) {
+    if (isAlphaCarrier(data[i], maxSample)) count++;
+  }
+  return count;
+}
+
+/**
+ * Counts alpha carriers among the body pixels (everything after the header region)
+ */
+function countBodyAlphaCarriers(
+  data: Uint8ClampedArray | Uint16Array,
+  headerPixels: number,
+  order?: Uint32Array
+): number {
+  const maxSample = getMaxSample(data);
+  let count = 0;
+  for (let n = headerPixels; n < data.length / 4; n++) {
+    const pixel = order ? order[n] : n;
+    if (isAlphaCarrier(data[pixel * 4 + 3], maxSample)) count++;
+  }
+  return count;
+}
+
+/**
+ * Number of body bytes that fit after the header region
+ */
+function getBodyCapacity(
+  width: number,
+  height: number,
+  bitsPerChannel: number,
+  alphaCarriers: number,
+  headerPixels: number
+): number {
+  // Each pixel has 4 channels (RGBA), we use 3 (RGB) plus optionally the alpha LSB
+  const bodyPixels = Math.max(0, width * height - headerPixels);
+  return Math.floor((bodyPixels * 3 * bitsPerChannel + Math.min(alphaCarriers, bodyPixels)) / 8);
+}
+
+/**
+ * Bytes the chosen encryption adds to the payload
+ */
+export function getEncryptionOverhead(options: CapacityOptions): number {
+  if (options.recipients) return getRecipientsOverhead(options.recipients);
+  return options.encrypted ? ENCRYPTION_OVERHEAD : 0;
 }
 
 /**
  * Calculates the maximum text capacity for an image
  */
-export function calculateCapacity(width: number, height: number): number {
-  // Each pixel has 4 channels (RGBA), we use 3 (RGB)
-  // Each channel stores 1 bit of data
+export function calculateCapacity(
+  width: number,
+  height: number,
+  options: CapacityOptions = {}
+): number {
+  // Each channel stores bitsPerChannel bits of data
   // 8 bits = 1 byte (UTF-8 can be multi-byte)
-  const totalBits = width * height * 3;
-  const headerBits = (MAGIC_HEADER.length + 4) * 8; // Header + length prefix
-  const delimiterBits = DELIMITER.length * 8;
+  const eccLevel = options.eccLevel ?? 'none';
+  const alphaCarriers = options.alpha ? options.alphaPixels ?? width * height : 0;
+  let bodyBytes = getBodyCapacity(
+    width,
+    height,
+    resolveBitsPerChannel(options.bitsPerChannel, options.sampleDepth),
+    alphaCarriers,
+    getHeaderPixels(HEADER_V3_SIZE, eccLevel)
+  );
+  if (eccLevel !== 'none') {
+    bodyBytes = getEccMessageCapacity(bodyBytes, ECC_PARITY[eccLevel]);
+  }
+  const overhead = getEncryptionOverhead(options);
   // Conservative estimate for UTF-8 (assuming mostly ASCII)
-  return Math.floor((totalBits - headerBits - delimiterBits) / 8);
+  return Math.max(0, bodyBytes - overhead);
+}
+
+/**
+ * Estimates the PSNR (dB) of the encoded image against the original.
+ * Replacing k low bits with random data adds a mean squared error of (4^k - 1) / 6
+ * to every channel touched, averaged over all RGB channels of the image and
+ * measured against the peak value of the sample depth
+ */
+export function estimatePsnr(
+  width: number,
+  height: number,
+  contentLength: number,
+  options: CapacityOptions = {}
+): number {
+  const sampleDepth = options.sampleDepth ?? 8;
+  const bitsPerChannel = resolveBitsPerChannel(options.bitsPerChannel, sampleDepth);
+  const totalChannels = width * height * 3;
+  if (totalChannels === 0 || contentLength <= 0) return Infinity;
+
+  const eccLevel = options.eccLevel ?? 'none';
+  let bodyLength = contentLength + getEncryptionOverhead(options);
+  if (eccLevel !== 'none') {
+    bodyLength = getEccEncodedLength(bodyLength, ECC_PARITY[eccLevel]);
+  }
+  let bodyBits = bodyLength * 8;
+  if (options.alpha) {
+    // Part of the body goes into alpha, which is not counted in the RGB PSNR
+    bodyBits = (bodyBits * 3 * bitsPerChannel) / (3 * bitsPerChannel + 1);
+  }
+  const headerBytes = HEADER_V3_SIZE + (eccLevel === 'none' ? 0 : HEADER_PARITY);
+  const headerChannels = Math.min(headerBytes * 8, totalChannels);
+  const bodyChannels = Math.min(Math.ceil(bodyBits / bitsPerChannel), totalChannels - headerChannels);
+
+  const squaredError = headerChannels * 0.5 + bodyChannels * ((4 ** bitsPerChannel - 1) / 6);
+  const mse = squaredError / totalChannels;
+
+  const peak = 2 ** sampleDepth - 1;
+  return 10 * Math.log10((peak * peak) / mse);
 }
 
+type RawCanvas =
+  | { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D }
+  | { canvas: OffscreenCanvas; ctx: OffscreenCanvasRenderingContext2D };
+
 /**
- * Creates a consistent ImageData without browser-specific color management
+ * Creates a consistent ImageData without browser-specific color management.
+ * Web Workers have no document and get an OffscreenCanvas
  */
-function createRawCanvas(width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
-  const canvas = document.createElement('canvas');
+function createRawCanvas(width: number, height: number): RawCanvas {
+  const canvas =
+    typeof document === 'undefined' ? new OffscreenCanvas(width, height) : document.createElement('canvas');
   canvas.width = width;
   canvas.height = height;
   
@@ -55,7 +386,7 @@ function createRawCanvas(width: number, height: number): { canvas: HTMLCanvasEle
     willReadFrequently: true,
     colorSpace: 'srgb',
     // Disable alpha premultiplication for consistent pixel values
-  });
+  }) as RawCanvas['ctx'] | null;
   
   if (!ctx) {
     throw new Error('Could not get canvas context');
@@ -64,7 +395,242 @@ function createRawCanvas(width: number, height: number): { canvas: HTMLCanvasEle
   // Disable image smoothing for exact pixel values
   ctx.imageSmoothingEnabled = false;
   
-  return { canvas, ctx };
+  return { canvas, ctx } as RawCanvas;
+}
+
+/**
+ * Encodes the canvas contents as a file of the given type
+ */
+function canvasToBlob(canvas: RawCanvas['canvas'], mimeType: string, quality: number): Promise<Blob | null> {
+  // HTMLCanvasElement itself is undefined in workers, so check for the method
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type: mimeType, quality }).catch(() => null);
+  }
+  return new Promise((resolve) => canvas.toBlob(resolve, mimeType, quality));
+}
+
+/**
+ * Builds a STEGO3 header: magic + flags + length + CRC-32 of the body
+ */
+export function buildHeader(flags: number, body: Uint8Array): Uint8Array {
+  const magicBytes = new TextEncoder().encode(MAGIC_HEADER_V3);
+  const header = new Uint8Array(HEADER_V3_SIZE);
+  const view = new DataView(header.buffer);
+
+  header.set(magicBytes, 0);
+  view.setUint16(magicBytes.length, flags, false); // Big-endian for consistency
+  view.setUint32(magicBytes.length + 2, body.length, false);
+  view.setUint32(magicBytes.length + 6, crc32(body), false);
+
+  return header;
+}
+
+/**
+ * Throws a descriptive error when a payload body does not fit in the image
+ */
+function assertFits(
+  imageData: PixelImage,
+  bodyLength: number,
+  contentLength: number,
+  payloadType: SecretPayload['type'],
+  bitsPerChannel: number,
+  alphaCarriers = 0,
+  compressed = false,
+  eccLevel: EccLevel = 'none'
+): void {
+  let maxBytes = getBodyCapacity(
+    imageData.width,
+    imageData.height,
+    bitsPerChannel,
+    alphaCarriers,
+    getHeaderPixels(HEADER_V3_SIZE, eccLevel)
+  );
+  if (eccLevel !== 'none') {
+    maxBytes = getEccMessageCapacity(maxBytes, ECC_PARITY[eccLevel]);
+  }
+  if (bodyLength <= maxBytes) return;
+
+  if (compressed) {
+    const subject = payloadType === 'text' ? 'Text too long' : 'File too large';
+    throw new Error(
+      `${subject} even after compression (${bodyLength} bytes, ${maxBytes} bytes available)`
+    );
+  }
+
+  const available = Math.max(0, maxBytes - (bodyLength - contentLength));
+  throw new Error(
+    payloadType === 'text'
+      ? `Text too long. Maximum capacity: ${available} characters`
+      : `File too large. Maximum capacity: ${available} bytes`
+  );
+}
+
+/**
+ * Writes bytes into the low bits of the RGB channels, starting at the given
+ * position in the pixel order (sequential, or key-seeded when scattering).
+ * In alpha mode the alpha LSB of carrier pixels takes one more bit per pixel
+ */
+function writeBytes(
+  data: Uint8ClampedArray | Uint16Array,
+  bytes: Uint8Array,
+  startPixel: number,
+  bitsPerChannel: number,
+  order?: Uint32Array,
+  useAlpha = false,
+  onProgress?: (progress: number) => void
+): void {
+  const pixelCount = Math.floor(data.length / 4);
+  const maxSample = getMaxSample(data);
+  const clearMask = maxSample & ~((1 << bitsPerChannel) - 1);
+  const bits = new BitReader(bytes);
+  const bitCount = bits.remaining;
+
+  for (let n = startPixel; n < pixelCount && bits.remaining > 0; n++) {
+    if (onProgress && (n - startPixel) % PROGRESS_INTERVAL === 0) {
+      onProgress(((bitCount - bits.remaining) / bitCount) * 100);
+    }
+    const pixel = order ? order[n] : n;
+
+    // RGB only, the alpha channel (offset 3) is left untouched.
+    // The final group is padded with zeros
+    for (let channel = 0; channel < 3 && bits.remaining > 0; channel++) {
+      const i = pixel * 4 + channel;
+      data[i] = (data[i] & clearMask) | bits.read(bitsPerChannel);
+    }
+
+    const alphaIndex = pixel * 4 + 3;
+    if (useAlpha && bits.remaining > 0 && isAlphaCarrier(data[alphaIndex], maxSample)) {
+      data[alphaIndex] = (data[alphaIndex] & (maxSample - 1)) | bits.read(1);
+    }
+  }
+  onProgress?.(100);
+}
+
+/**
+ * Reads bytes from the low bits of the RGB channels (and the alpha LSB of
+ * carrier pixels in alpha mode) in the pixel order, the way writeBytes wrote
+ * them. It keeps its place between reads, so a payload can be read in pieces
+ */
+class PixelReader {
+  private readonly data: Uint8ClampedArray | Uint16Array;
+  private readonly order?: Uint32Array;
+  private readonly pixelCount: number;
+  private readonly maxSample: number;
+  private position = 0;
+  // Next channel of the current pixel, 3 being its alpha
+  private channel = 0;
+  private bitsPerChannel = 1;
+  private useAlpha = false;
+  // Bits read from the pixels but not yet returned as a byte
+  private pending = 0;
+  private pendingBits = 0;
+
+  constructor(data: Uint8ClampedArray | Uint16Array, order?: Uint32Array) {
+    this.data = data;
+    this.order = order;
+    this.pixelCount = Math.floor(data.length / 4);
+    this.maxSample = getMaxSample(data);
+  }
+
+  /**
+   * Moves to the given position in the pixel order, reading at the given depth from there
+   */
+  seek(startPixel: number, bitsPerChannel = 1, useAlpha = false): void {
+    this.position = startPixel;
+    this.channel = 0;
+    this.bitsPerChannel = bitsPerChannel;
+    this.useAlpha = useAlpha;
+    this.pending = 0;
+    this.pendingBits = 0;
+  }
+
+  /**
+   * Reads the next byteCount bytes. Returns fewer bytes when the image runs out
+   */
+  read(byteCount: number, onProgress?: (progress: number) => void): Uint8Array {
+    const bytes = new Uint8Array(byteCount);
+    let length = 0;
+    while (length < byteCount) {
+      if (onProgress && length % PROGRESS_INTERVAL === 0) {
+        onProgress((length / byteCount) * 100);
+      }
+      while (this.pendingBits < 8) {
+        if (!this.readChannel()) return bytes.subarray(0, length);
+      }
+      this.pendingBits -= 8;
+      bytes[length++] = this.pending >> this.pendingBits;
+      this.pending &= (1 << this.pendingBits) - 1;
+    }
+    onProgress?.(100);
+    return bytes;
+  }
+
+  /**
+   * Appends the bits of the next carrier channel to the pending bits, returning
+   * false at the end of the image
+   */
+  private readChannel(): boolean {
+    while (this.position < this.pixelCount) {
+      const pixel = this.order ? this.order[this.position] : this.position;
+      const channel = this.channel;
+      if (channel < 3) {
+        this.channel++;
+        const value = this.data[pixel * 4 + channel] & ((1 << this.bitsPerChannel) - 1);
+        this.pending = (this.pending << this.bitsPerChannel) | value;
+        this.pendingBits += this.bitsPerChannel;
+        return true;
+      }
+
+      this.channel = 0;
+      this.position++;
+      const alpha = this.data[pixel * 4 + 3];
+      if (this.useAlpha && isAlphaCarrier(alpha, this.maxSample)) {
+        this.pending = (this.pending << 1) | (alpha & 1);
+        this.pendingBits++;
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+/**
+ * Writes a STEGO3 container into the image: the header at 1 bit per channel in
+ * the first pixels, the body at the requested depth after it.
+ * With error correction the header gets its own parity and the body is
+ * Reed-Solomon encoded, which moves the body start further out
+ */
+function embedContainer<T extends PixelImage>(
+  imageData: T,
+  flags: number,
+  body: Uint8Array,
+  bitsPerChannel: number,
+  order?: Uint32Array,
+  eccLevel: EccLevel = 'none',
+  onProgress?: (progress: number) => void
+): T {
+  let header = buildHeader(
+    flags |
+      ((bitsPerChannel - 1) << BITS_PER_CHANNEL_SHIFT) |
+      (ECC_LEVELS.indexOf(eccLevel) << ECC_LEVEL_SHIFT),
+    body
+  );
+  const headerPixels = getHeaderPixels(HEADER_V3_SIZE, eccLevel);
+  if (eccLevel !== 'none') {
+    header = rsEncodeBlock(header, HEADER_PARITY);
+    body = eccEncode(body, ECC_PARITY[eccLevel]);
+  }
+
+  // Create a new array to avoid modifying the original
+  const data = imageData.data.slice();
+  writeBytes(data, header, 0, 1, order);
+  const useAlpha = (flags & PayloadFlags.ALPHA) !== 0;
+  writeBytes(data, body, headerPixels, bitsPerChannel, order, useAlpha, onProgress);
+
+  if (data instanceof Uint16Array) {
+    return { width: imageData.width, height: imageData.height, data } as T;
+  }
+  return new ImageData(data, imageData.width, imageData.height) as T;
 }
 
 /**
@@ -75,191 +641,917 @@ export function encodeText(
   imageData: ImageData,
   secretText: string
 ): ImageData {
-  // Create message with header: MAGIC + length (4 bytes) + message + delimiter
-  const fullMessage = secretText + DELIMITER;
-  const encoder = new TextEncoder();
-  const messageBytes = encoder.encode(fullMessage);
-  
-  // Create header: magic + 4-byte length
-  const headerBytes = encoder.encode(MAGIC_HEADER);
-  const lengthBytes = new Uint8Array(4);
-  const dataView = new DataView(lengthBytes.buffer);
-  dataView.setUint32(0, messageBytes.length, false); // Big-endian for consistency
-  
-  // Combine all bytes
-  const totalBytes = new Uint8Array(headerBytes.length + lengthBytes.length + messageBytes.length);
-  totalBytes.set(headerBytes, 0);
-  totalBytes.set(lengthBytes, headerBytes.length);
-  totalBytes.set(messageBytes, headerBytes.length + lengthBytes.length);
-  
-  // Convert to binary
-  let binaryText = '';
-  for (let i = 0; i < totalBytes.length; i++) {
-    binaryText += totalBytes[i].toString(2).padStart(8, '0');
+  const messageBytes = new TextEncoder().encode(secretText);
+  assertFits(imageData, messageBytes.length, messageBytes.length, 'text', 1);
+  return embedContainer(imageData, 0, messageBytes, 1);
+}
+
+/**
+ * Embeds raw bytes as one chunk of a payload striped over several images.
+ * Framing the chunks is up to the caller (see videoSteganography)
+ */
+export function encodeChunk(imageData: ImageData, chunk: Uint8Array): ImageData {
+  const maxBytes = calculateCapacity(imageData.width, imageData.height);
+  if (chunk.length > maxBytes) {
+    throw new Error(`Chunk too large. Maximum capacity: ${maxBytes} bytes`);
   }
-  
-  const maxBits = imageData.width * imageData.height * 3;
-  if (binaryText.length > maxBits) {
-    const maxChars = Math.floor((maxBits / 8) - headerBytes.length - lengthBytes.length - DELIMITER.length);
-    throw new Error(`Text too long. Maximum capacity: ${maxChars} characters`);
+  return embedContainer(imageData, PayloadFlags.CHUNK, chunk, 1);
+}
+
+/**
+ * Extracts the chunk embedded by encodeChunk, or null when the image holds
+ * something else
+ */
+export function decodeChunk(imageData: ImageData): Uint8Array | null {
+  let extracted: ExtractedPayload;
+  try {
+    extracted = extractPayload(imageData);
+  } catch {
+    return null;
   }
+  if (!(extracted.flags & PayloadFlags.CHUNK)) return null;
+  if (extracted.integrity === 'corrupted') {
+    throw new Error(CORRUPTED_PAYLOAD_MESSAGE);
+  }
+  return extracted.body;
+}
 
-  // Create a new array to avoid modifying the original
-  const data = new Uint8ClampedArray(imageData.data);
-  let binaryIndex = 0;
+export interface PreparedPayload {
+  flags: number;
+  // Serialized, signed, compressed and sealed as requested
+  body: Uint8Array;
+  // Length of the text or file content, for error messages
+  contentLength: number;
+}
+
+/**
+ * Turns a payload into the container body and its flags, signing, compressing
+ * and sealing it as requested. Shared by every carrier format
+ */
+export async function preparePayload(
+  payload: SecretPayload,
+  options: EncodeOptions = {}
+): Promise<PreparedPayload> {
+  let flags = payload.type === 'file' ? PayloadFlags.FILE : 0;
+  let body = serializePayload(payload);
+  const contentLength = payload.type === 'file' ? payload.bytes.length : body.length;
 
-  for (let i = 0; i < data.length && binaryIndex < binaryText.length; i++) {
-    // Skip alpha channel (every 4th value starting from index 3)
-    if ((i + 1) % 4 === 0) continue;
+  if (options.signingKey) {
+    // Signed before compression and sealing, so the signer stays hidden behind the passphrase
+    const signature = await signPayload(getSignedMessage(flags, body), options.signingKey);
+    const signed = new Uint8Array(body.length + signature.length);
+    signed.set(body, 0);
+    signed.set(signature, body.length);
+    body = signed;
+    flags |= PayloadFlags.SIGNED;
+  }
 
-    // Get the bit to encode
-    const bit = parseInt(binaryText[binaryIndex], 10);
-    
-    // Clear the LSB and set it to our bit
-    data[i] = (data[i] & 0xFE) | bit;
-    
-    binaryIndex++;
+  if (options.compress) {
+    const compressed = await compressBytes(body);
+    if (compressed.length < body.length) {
+      body = compressed;
+      flags |= PayloadFlags.COMPRESSED;
+    }
+  }
+
+  if (options.passphrase && options.recipients?.length) {
+    throw new Error('Encrypt with either a passphrase or recipients, not both');
+  }
+  if (options.passphrase) {
+    body = await sealBytes(body, options.passphrase);
+    flags |= PayloadFlags.ENCRYPTED;
+  } else if (options.recipients?.length) {
+    body = await sealForRecipients(body, options.recipients);
+    flags |= PayloadFlags.RECIPIENTS;
   }
 
-  return new ImageData(data, imageData.width, imageData.height);
+  return { flags, body, contentLength };
 }
 
 /**
- * Decodes hidden text from image data using LSB steganography
- * Uses header-based format for reliable cross-environment decoding
+ * Encodes a text or file payload, optionally sealing it with a passphrase (or to
+ * recipients' public keys) and scattering it over a key-seeded pixel order
  */
-export function decodeText(imageData: ImageData): string {
+export async function encodePayload<T extends PixelImage>(
+  imageData: T,
+  payload: SecretPayload,
+  options: EncodeOptions = {}
+): Promise<T> {
+  const bitsPerChannel = resolveBitsPerChannel(options.bitsPerChannel, getSampleDepth(imageData));
+  const eccLevel = options.eccLevel ?? 'none';
+  const prepared = await preparePayload(payload, options);
+  const { body, contentLength } = prepared;
+  let { flags } = prepared;
+
+  const order = options.scatterKey
+    ? await createPixelOrder(options.scatterKey, imageData.width * imageData.height)
+    : undefined;
+
+  let alphaCarriers = 0;
+  if (options.alpha) {
+    flags |= PayloadFlags.ALPHA;
+    alphaCarriers = countBodyAlphaCarriers(
+      imageData.data,
+      getHeaderPixels(HEADER_V3_SIZE, eccLevel),
+      order
+    );
+  }
+
+  assertFits(
+    imageData,
+    body.length,
+    contentLength,
+    payload.type,
+    bitsPerChannel,
+    alphaCarriers,
+    (flags & PayloadFlags.COMPRESSED) !== 0,
+    eccLevel
+  );
+
+  return embedContainer(imageData, flags, body, bitsPerChannel, order, eccLevel, options.onProgress);
+}
+
+/**
+ * Encodes secret text, optionally sealing and scattering it
+ */
+export function encodeMessage<T extends PixelImage>(
+  imageData: T,
+  secretText: string,
+  options: EncodeOptions = {}
+): Promise<T> {
+  return encodePayload(imageData, { type: 'text', text: secretText }, options);
+}
+
+/**
+ * Bytes covered by a signature: the payload type followed by the serialized payload,
+ * so a text signature can't be passed off as a file or the other way round
+ */
+function getSignedMessage(flags: number, serialized: Uint8Array): Uint8Array {
+  const message = new Uint8Array(1 + serialized.length);
+  message[0] = flags & PayloadFlags.FILE ? 1 : 0;
+  message.set(serialized, 1);
+  return message;
+}
+
+function getEccLevel(flags: number): EccLevel {
+  return ECC_LEVELS[(flags >> ECC_LEVEL_SHIFT) & ECC_LEVEL_MASK];
+}
+
+/**
+ * Parses a STEGO2 or STEGO3 header, returning null when the magic or the
+ * error correction flag does not match what the caller expects
+ */
+function parseHeader(
+  bytes: Uint8Array,
+  magic: string,
+  withEcc: boolean,
+  correctedErrors = 0
+): ContainerHeader | null {
+  const headerSize = magic === MAGIC_HEADER_V3 ? HEADER_V3_SIZE : HEADER_V2_SIZE;
+  if (bytes.length < headerSize) return null;
+  if (new TextDecoder('utf-8').decode(bytes.slice(0, magic.length)) !== magic) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, headerSize);
+  const flags = view.getUint16(magic.length, false);
+  if ((getEccLevel(flags) !== 'none') !== withEcc) return null;
+
+  return {
+    flags,
+    length: view.getUint32(magic.length + 2, false),
+    checksum: magic === MAGIC_HEADER_V3 ? view.getUint32(magic.length + 6, false) : null,
+    headerSize,
+    correctedErrors,
+  };
+}
+
+/**
+ * Parses a STEGO3 header stored without error correction, as written by
+ * buildHeader. Returns null when the bytes don't start with one
+ */
+export function parseContainerHeader(
+  bytes: Uint8Array
+): Pick<ContainerHeader, 'flags' | 'length' | 'checksum'> | null {
+  return parseHeader(bytes, MAGIC_HEADER_V3, false);
+}
+
+/**
+ * Parses the STEGO3 (or older STEGO2) header at the start of the candidate bytes,
+ * repairing it with its parity bytes when the image was encoded with error
+ * correction. Returns null when no such header is present
+ */
+function readHeader(candidate: Uint8Array): ContainerHeader | null {
+  // Try the error-corrected headers first, their parity can repair a damaged magic or flags
+  for (const [magic, headerSize] of [
+    [MAGIC_HEADER_V3, HEADER_V3_SIZE],
+    [MAGIC_HEADER_V2, HEADER_V2_SIZE],
+  ] as const) {
+    const codewordSize = headerSize + HEADER_PARITY;
+    if (candidate.length < codewordSize) continue;
+    try {
+      const repaired = rsDecodeBlock(candidate.slice(0, codewordSize), HEADER_PARITY);
+      const header = parseHeader(repaired.data, magic, true, repaired.corrected);
+      if (header) return header;
+    } catch {
+      // Not an error-corrected header, or damaged beyond repair
+    }
+  }
+
+  const header =
+    parseHeader(candidate, MAGIC_HEADER_V3, false) ?? parseHeader(candidate, MAGIC_HEADER_V2, false);
+  if (header) return header;
+
+  const magic = new TextDecoder('utf-8').decode(candidate.slice(0, MAGIC_HEADER_V3.length));
+  if (magic === MAGIC_HEADER_V3 || magic === MAGIC_HEADER_V2) {
+    throw new Error('Hidden message header is damaged beyond repair');
+  }
+  return null;
+}
+
+// Where a STEGO3 or STEGO2 body is stored, once its header has been read
+interface ContainerBody {
+  header: ContainerHeader;
+  eccLevel: EccLevel;
+  // Bytes stored in the image, error correction parity included
+  storedLength: number;
+  // Position in the pixel order where the body starts, and how its bits are stored
+  headerPixels: number;
+  bitsPerChannel: number;
+  useAlpha: boolean;
+}
+
+interface OpenedContainer {
+  reader: PixelReader;
+  // The bytes read while looking for a header
+  candidate: Uint8Array;
+  // Null when the image holds no STEGO3 or STEGO2 container
+  body: ContainerBody | null;
+}
+
+/**
+ * Reads the header at the start of the pixel order once and, when it belongs to
+ * a STEGO3 or STEGO2 container, checks the declared length and moves the reader
+ * to the start of the body. Nothing past the header is read
+ */
+function openContainer(imageData: PixelImage, order?: Uint32Array): OpenedContainer {
   const data = imageData.data;
-  let binaryText = '';
-  let extractedBytes: number[] = [];
+  const reader = new PixelReader(data, order);
+  const candidate = reader.read(HEADER_V3_SIZE + HEADER_PARITY);
+  const header = readHeader(candidate);
+  if (!header) {
+    return { reader, candidate, body: null };
+  }
 
-  // First, extract enough bits for the header (MAGIC + 4 bytes length)
-  const headerSize = MAGIC_HEADER.length + 4;
-  const headerBits = headerSize * 8;
-  
-  for (let i = 0; i < data.length && binaryText.length < headerBits; i++) {
-    // Skip alpha channel
-    if ((i + 1) % 4 === 0) continue;
-    binaryText += (data[i] & 1).toString();
+  const { flags, length: messageLength } = header;
+  const bitsPerChannel = ((flags >> BITS_PER_CHANNEL_SHIFT) & BITS_PER_CHANNEL_MASK) + 1;
+  const useAlpha = (flags & PayloadFlags.ALPHA) !== 0;
+  const eccLevel = getEccLevel(flags);
+  const headerPixels = getHeaderPixels(header.headerSize, eccLevel);
+
+  // Validate length
+  let maxPossibleLength = getBodyCapacity(
+    imageData.width,
+    imageData.height,
+    bitsPerChannel,
+    useAlpha ? countBodyAlphaCarriers(data, headerPixels, order) : 0,
+    headerPixels
+  );
+  if (eccLevel !== 'none') {
+    maxPossibleLength = getEccMessageCapacity(maxPossibleLength, ECC_PARITY[eccLevel]);
   }
-  
-  // Convert header bits to bytes
-  const headerBytes = binaryText.match(/.{1,8}/g);
-  if (!headerBytes || headerBytes.length < headerSize) {
-    throw new Error('No hidden message found in this image');
+  if (bitsPerChannel > getMaxBitsPerChannel(getSampleDepth(imageData)) || messageLength > maxPossibleLength) {
+    throw new Error('Invalid message length detected');
   }
-  
-  for (let j = 0; j < headerSize; j++) {
-    extractedBytes.push(parseInt(headerBytes[j], 2));
+
+  // The body continues after the header region
+  reader.seek(headerPixels, bitsPerChannel, useAlpha);
+  const storedLength =
+    eccLevel === 'none' ? messageLength : getEccEncodedLength(messageLength, ECC_PARITY[eccLevel]);
+  return {
+    reader,
+    candidate,
+    body: { header, eccLevel, storedLength, headerPixels, bitsPerChannel, useAlpha },
+  };
+}
+
+/**
+ * Reads a container body whole, repairing it when it carries error correction
+ * and checking it against the header's checksum
+ */
+function readContainerBody(
+  reader: PixelReader,
+  { header, eccLevel, storedLength }: ContainerBody,
+  onProgress?: (progress: number) => void
+): ExtractedPayload {
+  let body = reader.read(storedLength, onProgress);
+  if (body.length < storedLength) {
+    throw new Error('Failed to extract message');
   }
-  
-  // Check magic header
+
+  let correctedErrors = header.correctedErrors;
+  if (eccLevel !== 'none') {
+    try {
+      const repaired = eccDecode(body, ECC_PARITY[eccLevel]);
+      body = repaired.data;
+      correctedErrors += repaired.corrected;
+    } catch {
+      throw new Error('Hidden message is too damaged to repair');
+    }
+  }
+
+  let integrity: IntegrityStatus = 'unchecked';
+  if (header.checksum !== null) {
+    integrity = crc32(body) === header.checksum ? 'verified' : 'corrupted';
+  }
+
+  return { flags: header.flags, body, eccLevel, correctedErrors, integrity };
+}
+
+/**
+ * Extracts a STEGO1 or legacy message, carrying on from the bytes already read
+ * while looking for a newer header
+ */
+function extractOlderPayload(reader: PixelReader, candidate: Uint8Array, sampleCount: number): ExtractedPayload {
   const decoder = new TextDecoder('utf-8');
-  const magicBytes = new Uint8Array(extractedBytes.slice(0, MAGIC_HEADER.length));
-  const magic = decoder.decode(magicBytes);
-  
-  if (magic !== MAGIC_HEADER) {
+  if (candidate.length < HEADER_V2_SIZE) {
+    throw new Error('No hidden message found in this image');
+  }
+
+  if (decoder.decode(candidate.subarray(0, MAGIC_HEADER.length)) !== MAGIC_HEADER) {
     // Fallback: Try legacy format (no header, just message with delimiter)
-    return decodeLegacyFormat(imageData);
+    return {
+      flags: 0,
+      body: new TextEncoder().encode(decodeLegacyFormat(reader, candidate)),
+      eccLevel: 'none',
+      correctedErrors: 0,
+      integrity: 'unchecked',
+    };
   }
-  
-  // Read message length
-  const lengthBytes = new Uint8Array(extractedBytes.slice(MAGIC_HEADER.length, MAGIC_HEADER.length + 4));
-  const lengthView = new DataView(lengthBytes.buffer);
-  const messageLength = lengthView.getUint32(0, false);
-  
+
+  const headerSize = MAGIC_HEADER.length + 4;
+  const messageLength = new DataView(candidate.buffer, candidate.byteOffset).getUint32(MAGIC_HEADER.length, false);
+
   // Validate length
-  const maxPossibleLength = Math.floor((data.length * 3) / (4 * 8));
+  const maxPossibleLength = Math.floor((sampleCount * 3) / (4 * 8));
   if (messageLength > maxPossibleLength || messageLength > 10000000) {
     throw new Error('Invalid message length detected');
   }
-  
-  // Continue extracting the message
-  const totalBitsNeeded = (headerSize + messageLength) * 8;
-  let bitIndex = 0;
-  binaryText = '';
-  
-  for (let i = 0; i < data.length && binaryText.length < totalBitsNeeded; i++) {
-    if ((i + 1) % 4 === 0) continue;
-    binaryText += (data[i] & 1).toString();
-    bitIndex++;
-  }
-  
-  // Extract message bytes
-  const allBytes = binaryText.match(/.{1,8}/g);
-  if (!allBytes) {
+
+  // Continue extracting the message after the bytes already read
+  let body = new Uint8Array(messageLength);
+  const start = candidate.subarray(headerSize, headerSize + messageLength);
+  const rest = reader.read(messageLength - start.length);
+  if (start.length + rest.length < messageLength) {
     throw new Error('Failed to extract message');
   }
-  
-  const messageStartIndex = headerSize;
-  const messageEndIndex = headerSize + messageLength;
-  const messageByteStrings = allBytes.slice(messageStartIndex, messageEndIndex);
-  
-  const messageBytes = new Uint8Array(messageByteStrings.map(b => parseInt(b, 2)));
-  let message = decoder.decode(messageBytes);
-  
-  // Remove delimiter if present
-  if (message.endsWith(DELIMITER)) {
-    message = message.slice(0, -DELIMITER.length);
+  body.set(start);
+  body.set(rest, start.length);
+
+  // STEGO1 messages end with a delimiter
+  const delimiterBytes = new TextEncoder().encode(DELIMITER);
+  const tail = body.subarray(body.length - delimiterBytes.length);
+  if (decoder.decode(tail) === DELIMITER) {
+    body = body.subarray(0, body.length - delimiterBytes.length);
   }
-  
-  return message;
+
+  return { flags: 0, body, eccLevel: 'none', correctedErrors: 0, integrity: 'unchecked' };
+}
+
+export type PayloadFormat = 'STEGO3' | 'STEGO2' | 'STEGO1';
+
+export interface PayloadRegion {
+  format: PayloadFormat;
+  // Pixels the payload takes from the start of the image, header included
+  pixels: number;
 }
 
 /**
- * Fallback decoder for images encoded without the header format
- * Maintains backward compatibility
+ * Pixels a container body takes after its header in the sequential layout
  */
-function decodeLegacyFormat(imageData: ImageData): string {
-  const data = imageData.data;
-  let binaryText = '';
+function countBodyPixels(
+  data: Uint8ClampedArray | Uint16Array,
+  { storedLength, headerPixels, bitsPerChannel, useAlpha }: ContainerBody
+): number {
+  const bits = storedLength * 8;
+  if (!useAlpha) {
+    return Math.ceil(bits / (3 * bitsPerChannel));
+  }
+
+  // Only some pixels carry an alpha bit, so the pixels are walked until the body fits
+  const maxSample = getMaxSample(data);
+  let pixel = headerPixels;
+  for (let stored = 0; stored < bits && pixel < data.length / 4; pixel++) {
+    stored += 3 * bitsPerChannel + (isAlphaCarrier(data[pixel * 4 + 3], maxSample) ? 1 : 0);
+  }
+  return pixel - headerPixels;
+}
+
+/**
+ * Where a sequentially embedded payload sits: the pixels its header takes and
+ * its body after them, at the depth, alpha use and error-corrected length the
+ * header records. Null when no header is found at the start of the image, as
+ * with scattered payloads
+ */
+export function getPayloadRegion(imageData: PixelImage): PayloadRegion | null {
+  const pixelCount = imageData.width * imageData.height;
+  let opened: OpenedContainer;
+  try {
+    opened = openContainer(imageData);
+  } catch {
+    // A header whose body can't fit in the image
+    return null;
+  }
+
+  const { candidate, body } = opened;
+  if (body) {
+    return {
+      format: body.header.checksum === null ? 'STEGO2' : 'STEGO3',
+      pixels: Math.min(pixelCount, body.headerPixels + countBodyPixels(imageData.data, body)),
+    };
+  }
+
+  // STEGO1: the magic and length at 1 bit per channel, the message and delimiter after them
+  const headerSize = MAGIC_HEADER.length + 4;
+  const magic = new TextDecoder('utf-8').decode(candidate.subarray(0, MAGIC_HEADER.length));
+  if (candidate.length < headerSize || magic !== MAGIC_HEADER) {
+    return null;
+  }
+  const messageLength = new DataView(candidate.buffer, candidate.byteOffset).getUint32(MAGIC_HEADER.length, false);
+  const pixels = Math.ceil(((headerSize + messageLength) * 8) / 3);
+  return pixels > pixelCount ? null : { format: 'STEGO1', pixels };
+}
+
+/**
+ * Extracts the raw payload and its flags from a STEGO3, STEGO2, STEGO1 or legacy
+ * image. With a pixel order only the scattered STEGO2/STEGO3 layout is considered
+ */
+function extractPayload(
+  imageData: PixelImage,
+  order?: Uint32Array,
+  onProgress?: (progress: number) => void
+): ExtractedPayload {
+  const { reader, candidate, body } = openContainer(imageData, order);
+  if (body) {
+    return readContainerBody(reader, body, onProgress);
+  }
+
+  if (order) {
+    throw new Error('No hidden message found for this scatter key');
+  }
+  return extractOlderPayload(reader, candidate, imageData.data.length);
+}
+
+/**
+ * Decodes hidden text from image data using LSB steganography
+ * Uses header-based format for reliable cross-environment decoding
+ */
+export function decodeText(imageData: ImageData): string {
+  const { flags, body, integrity } = extractPayload(imageData);
+  if (integrity === 'corrupted') {
+    throw new Error(CORRUPTED_PAYLOAD_MESSAGE);
+  }
+  if (flags & PayloadFlags.CHUNK) {
+    throw new Error(CHUNK_PAYLOAD_MESSAGE);
+  }
+  if (flags & PayloadFlags.RECIPIENTS) {
+    throw new Error('This message is encrypted to recipients and must be decoded with decodeMessage');
+  }
+  if (flags & PayloadFlags.ENCRYPTED) {
+    throw new EncryptedPayloadError();
+  }
+  if (flags & PayloadFlags.FILE) {
+    throw new Error('This image contains a file rather than a text message');
+  }
+  if (flags & PayloadFlags.COMPRESSED) {
+    throw new Error('This message is compressed and must be decoded with decodeMessage');
+  }
+  if (flags & PayloadFlags.SIGNED) {
+    throw new Error('This message is signed and must be decoded with decodeMessage');
+  }
+  return new TextDecoder('utf-8').decode(body);
+}
+
+/**
+ * Turns decrypted payload bytes back into text or a file based on the header flags
+ */
+async function deserializePayload(
+  flags: number,
+  bytes: Uint8Array,
+  trustedKeys: TrustedKey[] = []
+): Promise<{ payload: SecretPayload; signature: SignatureStatus }> {
+  if (flags & PayloadFlags.COMPRESSED) {
+    bytes = await decompressBytes(bytes);
+  }
+
+  let signature: SignatureStatus = { state: 'unsigned' };
+  if (flags & PayloadFlags.SIGNED) {
+    if (bytes.length < SIGNATURE_BLOCK_SIZE) {
+      throw new Error('Signature block is missing');
+    }
+    const signatureBlock = bytes.slice(bytes.length - SIGNATURE_BLOCK_SIZE);
+    bytes = bytes.slice(0, bytes.length - SIGNATURE_BLOCK_SIZE);
+    signature = await verifyPayload(getSignedMessage(flags, bytes), signatureBlock, trustedKeys);
+  }
+
+  if (flags & PayloadFlags.FILE) {
+    return { payload: { type: 'file', ...deserializeFile(bytes) }, signature };
+  }
+  return { payload: { type: 'text', text: new TextDecoder('utf-8').decode(bytes) }, signature };
+}
+
+/**
+ * Tries the scattered layout for the given key first, then the sequential one,
+ * so a key can be supplied even when the image was embedded sequentially
+ */
+async function extractPayloadWithKey(
+  imageData: PixelImage,
+  scatterKey?: string,
+  onProgress?: (progress: number) => void
+): Promise<ExtractedPayload> {
+  if (scatterKey) {
+    const order = await createPixelOrder(scatterKey, imageData.width * imageData.height);
+    try {
+      return extractPayload(imageData, order, onProgress);
+    } catch {
+      // Fall through to the sequential layout
+    }
+  }
+  return extractPayload(imageData, undefined, onProgress);
+}
+
+/**
+ * Opens an extracted container: decrypts it with the given passphrase or private
+ * key and turns it back into text or a file. Shared by every carrier format
+ */
+export async function openPayload(
+  extracted: ExtractedPayload,
+  options: DecodeOptions = {}
+): Promise<DecodeResult> {
+  const { flags, body, eccLevel, correctedErrors, integrity } = extracted;
+  if (flags & PayloadFlags.CHUNK) {
+    throw new Error(CHUNK_PAYLOAD_MESSAGE);
+  }
+
+  let encryption: EncryptionMode = 'none';
+  if (flags & PayloadFlags.ENCRYPTED) {
+    encryption = 'passphrase';
+  } else if (flags & PayloadFlags.RECIPIENTS) {
+    encryption = 'recipients';
+  }
+
+  if (encryption === 'passphrase' && !options.passphrase) {
+    throw new EncryptedPayloadError();
+  }
+  if (encryption === 'recipients' && !options.privateKey) {
+    throw new Error('This image is encrypted to specific recipients. Set up your key pair to open it.');
+  }
+
+  let payload: SecretPayload;
+  let signature: SignatureStatus;
+  try {
+    let plaintext = body;
+    if (encryption === 'passphrase') {
+      plaintext = await openBytes(body, options.passphrase as string);
+    } else if (encryption === 'recipients') {
+      plaintext = await openAsRecipient(body, options.privateKey as LabelledJwk);
+    }
+    ({ payload, signature } = await deserializePayload(flags, plaintext, options.trustedKeys));
+  } catch (err) {
+    // A checksum mismatch explains the failure better than a bad passphrase or header
+    if (integrity === 'corrupted') {
+      throw new Error(CORRUPTED_PAYLOAD_MESSAGE);
+    }
+    throw err;
+  }
+
+  // A corrupted but still readable payload is returned so the caller can show what survived
+  return {
+    payload,
+    encrypted: encryption !== 'none',
+    encryption,
+    eccLevel,
+    correctedErrors,
+    integrity,
+    signature,
+  };
+}
+
+/**
+ * Decodes a hidden text or file payload, opening sealed payloads with the given
+ * passphrase or private key
+ */
+export async function decodeMessage(
+  imageData: PixelImage,
+  options: DecodeOptions = {}
+): Promise<DecodeResult> {
+  return openPayload(await extractPayloadWithKey(imageData, options.scatterKey, options.onProgress), options);
+}
+
+export interface PayloadStreamOptions extends DecodeOptions {
+  // Largest chunk the stream yields, in bytes
+  chunkSize?: number;
+}
+
+/**
+ * A decoded payload read in chunks. Text comes as UTF-8 bytes and a file as its
+ * contents. The stream can be iterated once; when the checksum does not match,
+ * the iterator throws instead of yielding the last chunk, and what came before
+ * it should be discarded
+ */
+export interface PayloadStream extends AsyncIterable<Uint8Array> {
+  type: SecretPayload['type'];
+  // File name and MIME type, for file payloads
+  name?: string;
+  mimeType?: string;
+  // Bytes the iterator yields in total
+  size: number;
+  // Whether the content carries a checksum, which the iterator compares before its last chunk
+  checked: boolean;
+  encryption: EncryptionMode;
+  eccLevel: EccLevel;
+  correctedErrors: number;
+  signature: SignatureStatus;
+}
+
+/**
+ * Builds a stream that yields size bytes taken from readChunk, calling verify
+ * before the last chunk leaves
+ */
+function createPayloadStream(
+  info: Omit<PayloadStream, typeof Symbol.asyncIterator>,
+  chunkSize: number,
+  readChunk: (byteCount: number) => Uint8Array,
+  verify: () => void,
+  onProgress?: (progress: number) => void
+): PayloadStream {
+  let started = false;
+  return {
+    ...info,
+    async *[Symbol.asyncIterator]() {
+      if (started) {
+        throw new Error('A payload stream can only be read once');
+      }
+      started = true;
+
+      let sent = 0;
+      if (info.size === 0) verify();
+      while (sent < info.size) {
+        const chunk = readChunk(Math.min(chunkSize, info.size - sent));
+        sent += chunk.length;
+        if (sent === info.size) verify();
+        onProgress?.((sent / info.size) * 100);
+        yield chunk;
+      }
+    },
+  };
+}
+
+/**
+ * Yields the content of a payload that had to be decoded whole
+ */
+function createDecodedPayloadStream({ payload, ...result }: DecodeResult, chunkSize: number): PayloadStream {
+  const content = payload.type === 'file' ? payload.bytes : new TextEncoder().encode(payload.text);
+  let offset = 0;
+  return createPayloadStream(
+    {
+      type: payload.type,
+      ...(payload.type === 'file' && { name: payload.name, mimeType: payload.mimeType }),
+      size: content.length,
+      checked: result.integrity !== 'unchecked',
+      encryption: result.encryption,
+      eccLevel: result.eccLevel,
+      correctedErrors: result.correctedErrors,
+      signature: result.signature,
+    },
+    chunkSize,
+    (byteCount) => {
+      const chunk = content.subarray(offset, offset + byteCount);
+      offset += chunk.length;
+      return chunk;
+    },
+    () => {
+      if (result.integrity === 'corrupted') {
+        throw new Error(CORRUPTED_PAYLOAD_MESSAGE);
+      }
+    }
+  );
+}
+
+/**
+ * Opens the container for the given scatter key, falling back to the sequential
+ * layout the way extractPayloadWithKey does
+ */
+async function openContainerWithKey(imageData: PixelImage, scatterKey?: string): Promise<OpenedContainer> {
+  if (scatterKey) {
+    const order = await createPixelOrder(scatterKey, imageData.width * imageData.height);
+    try {
+      const opened = openContainer(imageData, order);
+      if (opened.body) return opened;
+    } catch {
+      // Fall through to the sequential layout
+    }
+  }
+  return openContainer(imageData);
+}
+
+/**
+ * Decodes a hidden payload as a stream of chunks. A plain STEGO3 or STEGO2 body
+ * is read from the pixels as the stream is iterated, with its checksum kept up
+ * as it goes, so the payload is never held in memory whole. Sealed, compressed,
+ * signed or error-corrected payloads, and older formats, can only be opened
+ * whole; their content is decoded up front and handed out in chunks
+ */
+export async function openPayloadStream(
+  imageData: PixelImage,
+  options: PayloadStreamOptions = {}
+): Promise<PayloadStream> {
+  const { chunkSize = STREAM_CHUNK_SIZE, onProgress } = options;
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+    throw new Error('Chunk size must be a positive whole number of bytes');
+  }
+
+  const { reader, candidate, body } = await openContainerWithKey(imageData, options.scatterKey);
+  if (!body || body.eccLevel !== 'none' || body.header.flags & WHOLE_PAYLOAD_FLAGS) {
+    const extracted = body
+      ? readContainerBody(reader, body, onProgress)
+      : extractOlderPayload(reader, candidate, imageData.data.length);
+    return createDecodedPayloadStream(await openPayload(extracted, options), chunkSize);
+  }
+
+  const { flags, checksum, length } = body.header;
+  let remaining = length;
+  let crc = 0;
+  const readBody = (byteCount: number) => {
+    const bytes = reader.read(Math.min(byteCount, remaining));
+    if (bytes.length < Math.min(byteCount, remaining)) {
+      throw new Error('Failed to extract message');
+    }
+    remaining -= bytes.length;
+    crc = crc32(bytes, crc);
+    return bytes;
+  };
+  const verify = () => {
+    // Anything stored after the content still counts towards the checksum
+    readBody(remaining);
+    if (checksum !== null && crc !== checksum) {
+      throw new Error(CORRUPTED_PAYLOAD_MESSAGE);
+    }
+  };
+
+  const info = {
+    checked: checksum !== null,
+    encryption: 'none' as const,
+    eccLevel: 'none' as const,
+    correctedErrors: body.header.correctedErrors,
+    signature: { state: 'unsigned' as const },
+  };
+  if (!(flags & PayloadFlags.FILE)) {
+    return createPayloadStream({ ...info, type: 'text', size: length }, chunkSize, readBody, verify, onProgress);
+  }
+
+  const file = readFileHeader(readBody);
+  if (file.size > remaining) {
+    throw new Error('Embedded file is truncated');
+  }
+  return createPayloadStream({ ...info, type: 'file', ...file }, chunkSize, readBody, verify, onProgress);
+}
+
+// A decoded payload whose file content is kept in a Blob rather than an array
+export type BlobPayload =
+  | { type: 'text'; text: string }
+  | { type: 'file'; name: string; mimeType: string; blob: Blob };
+
+export interface BlobDecodeResult extends Omit<DecodeResult, 'payload'> {
+  payload: BlobPayload;
+}
+
+/**
+ * Moves the content of a decoded file into a Blob
+ */
+export function toBlobResult({ payload, ...result }: DecodeResult): BlobDecodeResult {
+  if (payload.type === 'text') {
+    return { ...result, payload };
+  }
+  const { name, mimeType, bytes } = payload;
+  return { ...result, payload: { type: 'file', name, mimeType, blob: new Blob([bytes], { type: mimeType }) } };
+}
+
+/**
+ * Decodes a hidden payload through openPayloadStream, adding a file's chunks to
+ * a Blob as they are read, so its content never sits in one array. When a
+ * streamed body fails its checksum the image is decoded whole instead, which
+ * returns what survived the way decodeMessage does
+ */
+export async function decodeMessageAsBlob(
+  imageData: PixelImage,
+  options: DecodeOptions = {}
+): Promise<BlobDecodeResult> {
+  const stream = await openPayloadStream(imageData, options);
+  const { type, name = '', mimeType = '', checked, encryption, eccLevel, correctedErrors, signature } = stream;
+
+  let blob = new Blob([], { type: mimeType });
   let text = '';
+  const decoder = new TextDecoder('utf-8');
+  try {
+    for await (const chunk of stream) {
+      if (type === 'file') {
+        blob = new Blob([blob, chunk], { type: mimeType });
+      } else {
+        text += decoder.decode(chunk, { stream: true });
+      }
+    }
+  } catch (err) {
+    if (err instanceof Error && err.message === CORRUPTED_PAYLOAD_MESSAGE) {
+      return toBlobResult(await decodeMessage(imageData, options));
+    }
+    throw err;
+  }
 
-  for (let i = 0; i < data.length; i++) {
-    // Skip alpha channel
-    if ((i + 1) % 4 === 0) continue;
+  return {
+    payload: type === 'file' ? { type, name, mimeType, blob } : { type, text: text + decoder.decode() },
+    encrypted: encryption !== 'none',
+    encryption,
+    eccLevel,
+    correctedErrors,
+    integrity: checked ? 'verified' : 'unchecked',
+    signature,
+  };
+}
+
+/**
+ * Fallback decoder for images encoded without the header format, reading on
+ * from the given bytes until the delimiter. Maintains backward compatibility
+ */
+function decodeLegacyFormat(reader: PixelReader, bytes: Uint8Array): string {
+  let text = '';
 
-    // Extract the LSB
-    binaryText += (data[i] & 1).toString();
+  while (bytes.length > 0) {
+    for (const byte of bytes) {
+      // Legacy messages were written as UTF-8, which never contains these bytes,
+      // so seeing one means the bits aren't a message
+      if (byte === 0xC0 || byte === 0xC1 || byte >= 0xF5) {
+        throw new Error('No hidden message found in this image');
+      }
 
-    // Every 8 bits, convert to character and check for delimiter
-    if (binaryText.length % 8 === 0) {
-      const byte = binaryText.slice(-8);
-      const charCode = parseInt(byte, 2);
-      
-      // Only accept printable ASCII and common Unicode
-      if (charCode >= 32 && charCode <= 126) {
-        text += String.fromCharCode(charCode);
-      } else if (charCode > 0) {
-        // Try UTF-8 aware decoding for non-ASCII
-        try {
-          const decoder = new TextDecoder('utf-8', { fatal: true });
-          const bytes = new Uint8Array([charCode]);
-          text += decoder.decode(bytes);
-        } catch {
-          text += String.fromCharCode(charCode);
-        }
+      // Every byte but NUL becomes the character with its code, as a lone byte
+      // above 127 is not valid UTF-8 either
+      if (byte > 0) {
+        text += String.fromCharCode(byte);
       }
-      
+
       // Check if we've found the delimiter
       if (text.endsWith(DELIMITER)) {
         return text.slice(0, -DELIMITER.length);
       }
-      
+
       // Safety limit to prevent infinite loops
       if (text.length > 1000000) {
-        break;
+        throw new Error('No hidden message found in this image');
       }
     }
+    bytes = reader.read(LEGACY_READ_SIZE);
   }
 
   throw new Error('No hidden message found in this image');
 }
 
+export interface LoadedImage {
+  imageData: ImageData;
+  // Full samples of a 16-bit PNG; imageData then holds their high bytes
+  imageData16?: ImageData16;
+  width: number;
+  height: number;
+}
+
+/**
+ * Keeps the high byte of every sample of a 16-bit image
+ */
+function toImageData8(image: ImageData16): ImageData {
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = image.data[i] >> 8;
+  }
+  return new ImageData(data, image.width, image.height);
+}
+
 /**
- * Loads an image file and returns its ImageData with consistent processing
+ * Loads an image file and returns its ImageData with consistent processing.
+ * PNG, BMP and TIFF files are decoded here so every sample is read exactly as
+ * stored, without the browser's colour management; other formats go through
+ * the browser. 16-bit PNGs also come back with their full samples
  */
-export function loadImage(file: File): Promise<{ imageData: ImageData; width: number; height: number }> {
+export async function loadImage(file: Blob): Promise<LoadedImage> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (getPngBitDepth(bytes) === 16) {
+    const imageData16 = decodePng16(bytes);
+    return { imageData: toImageData8(imageData16), imageData16, width: imageData16.width, height: imageData16.height };
+  }
+
+  const decode = isPng(bytes) ? decodePng : isBmp(bytes) ? decodeBmp : isTiff(bytes) ? decodeTiff : null;
+  if (decode) {
+    const imageData = decode(bytes);
+    return { imageData, width: imageData.width, height: imageData.height };
+  }
+
   return new Promise((resolve, reject) => {
     // Use createImageBitmap for more consistent cross-browser behavior when available
     if (typeof createImageBitmap !== 'undefined' && file.type !== 'image/gif') {
@@ -291,8 +1583,14 @@ export function loadImage(file: File): Promise<{ imageData: ImageData; width: nu
 /**
  * Fallback image loading using Image element
  */
-function loadImageFallback(file: File): Promise<{ imageData: ImageData; width: number; height: number }> {
+function loadImageFallback(file: Blob): Promise<LoadedImage> {
   return new Promise((resolve, reject) => {
+    // Workers have createImageBitmap but no Image element to fall back to
+    if (typeof Image === 'undefined') {
+      reject(new Error('Failed to load image'));
+      return;
+    }
+
     const reader = new FileReader();
     
     reader.onload = (e) => {
@@ -320,25 +1618,77 @@ function loadImageFallback(file: File): Promise<{ imageData: ImageData; width: n
 }
 
 /**
- * Converts ImageData to a downloadable PNG blob with lossless encoding
+ * Converts ImageData to a downloadable blob with lossless encoding. PNG, BMP and
+ * TIFF are written here, sample for sample; WebP comes from the canvas, which
+ * encodes it losslessly at quality 1. 16-bit images can only be written as PNG
  */
-export function imageDataToBlob(imageData: ImageData): Promise<Blob> {
-  return new Promise((resolve, reject) => {
-    const { canvas, ctx } = createRawCanvas(imageData.width, imageData.height);
-    ctx.putImageData(imageData, 0, 0);
-    
-    canvas.toBlob(
-      (blob) => {
-        if (blob) {
-          resolve(blob);
-        } else {
-          reject(new Error('Failed to create blob'));
-        }
-      },
-      'image/png', // PNG is lossless, preserving LSB data
-      1.0
+export async function imageDataToBlob(imageData: PixelImage, format: ImageFormat = 'png'): Promise<Blob> {
+  const { mimeType } = IMAGE_FORMATS[format];
+  if (format === 'png') {
+    return new Blob([await encodePng(imageData)], { type: mimeType });
+  }
+  if (isImageData16(imageData)) {
+    throw new Error(`16-bit images cannot be saved as ${IMAGE_FORMATS[format].label}, use PNG`);
+  }
+  if (format === 'bmp' || format === 'tiff') {
+    const bytes = format === 'bmp' ? encodeBmp(imageData) : encodeTiff(imageData);
+    return new Blob([bytes], { type: mimeType });
+  }
+
+  const { canvas, ctx } = createRawCanvas(imageData.width, imageData.height);
+  ctx.putImageData(imageData, 0, 0);
+
+  const blob = await canvasToBlob(canvas, mimeType, 1.0);
+  if (!blob) {
+    throw new Error('Failed to create blob');
+  }
+  if (blob.type !== mimeType) {
+    // Browsers fall back to PNG for types they can't encode
+    throw new Error(`This browser cannot write ${IMAGE_FORMATS[format].label} images`);
+  }
+  return blob;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Exports an encoded image, then reads the file back and checks that the hidden
+ * container survived bit for bit before it is handed to the user
+ */
+export async function exportEncodedImage(
+  imageData: PixelImage,
+  format: ImageFormat = 'png',
+  scatterKey?: string
+): Promise<Blob> {
+  const blob = await imageDataToBlob(imageData, format);
+  const loaded = await loadImage(blob);
+  const readBack = loaded.imageData16 ?? loaded.imageData;
+
+  const expected = await extractPayloadWithKey(imageData, scatterKey);
+  let actual: ExtractedPayload | null = null;
+  try {
+    actual = await extractPayloadWithKey(readBack, scatterKey);
+  } catch {
+    // Reported below
+  }
+  const intact =
+    actual !== null &&
+    actual.flags === expected.flags &&
+    actual.integrity === 'verified' &&
+    actual.correctedErrors === expected.correctedErrors &&
+    bytesEqual(actual.body, expected.body);
+  if (!intact) {
+    throw new Error(
+      `Self-check failed: the exported ${IMAGE_FORMATS[format].label} file does not carry the hidden data intact`
     );
-  });
+  }
+  return blob;
 }
 
 /**
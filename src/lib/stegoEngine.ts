@@ -0,0 +1,257 @@
+// Runs encoding, decoding and analysis on a Web Worker, so the page stays responsive
+//
+// Every task gets a worker of its own: cancelling a task terminates its
+// worker, whatever it is doing, and nothing stays in memory once the task is
+// done. Pixel buffers the page has no further use for are transferred rather
+// than copied. Where workers are unavailable the tasks run on the page.
+
+import { EncryptedPayloadError, PixelImage, ImageFormat, BlobDecodeResult } from './steganography';
+import { JpegEncodeOptions } from './jpegSteganography';
+import { JpegImage } from './jpeg';
+import { VideoFrame } from './videoSteganography';
+import { WatermarkResult } from './watermark';
+import { ImageAnalysis } from './steganalysis';
+import { AudioCarrier } from './audioSteganography';
+import { InspectedImage, BitPlaneView, BitPlaneChannel, BitPlaneViewOptions } from './bitPlanes';
+import { SecretPayload } from './payload';
+import {
+  runStegoTask,
+  StegoTask,
+  StegoTaskKind,
+  StegoTaskResults,
+  StegoTaskResult,
+  TaskEncodeOptions,
+  TaskDecodeOptions,
+  VideoPayloadMode,
+} from './stegoTasks';
+
+// Messages stegoWorker sends back for a task
+export type StegoWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; result: StegoTaskResult }
+  | { type: 'error'; name: string; message: string };
+
+export interface EngineOptions {
+  // Called with the task's progress, 0-100
+  onProgress?: (progress: number) => void;
+  // Aborting stops the task and rejects with a TaskCancelledError
+  signal?: AbortSignal;
+}
+
+/**
+ * Thrown when a task is stopped through its abort signal
+ */
+export class TaskCancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'TaskCancelledError';
+  }
+}
+
+/**
+ * Rebuilds an error thrown on the worker. Only name and message survive the
+ * trip, so errors the panels tell apart by class are recreated
+ */
+function toError(name: string, message: string): Error {
+  if (name === 'EncryptedPayloadError') return new EncryptedPayloadError();
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+/**
+ * Runs the task on the page, for environments without Web Workers. It can't
+ * be interrupted, a cancellation only takes effect once it is done
+ */
+async function runOnPage(task: StegoTask, { onProgress, signal }: EngineOptions): Promise<StegoTaskResult> {
+  const result = await runStegoTask(task, (progress) => onProgress?.(progress));
+  if (signal?.aborted) throw new TaskCancelledError();
+  return result;
+}
+
+function getFrameBuffers(frames: VideoFrame[]): Transferable[] {
+  return frames.map((frame) => frame.imageData.data.buffer);
+}
+
+function runTask<K extends StegoTaskKind>(
+  task: Extract<StegoTask, { kind: K }>,
+  transfer: Transferable[],
+  options: EngineOptions = {}
+): Promise<StegoTaskResults[K]> {
+  const { onProgress, signal } = options;
+  if (signal?.aborted) {
+    return Promise.reject(new TaskCancelledError());
+  }
+  if (typeof Worker === 'undefined') {
+    return runOnPage(task, options) as Promise<StegoTaskResults[K]>;
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./stegoWorker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      reject(new TaskCancelledError());
+    };
+
+    worker.addEventListener('message', (event: MessageEvent<StegoWorkerResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        onProgress?.(response.progress);
+        return;
+      }
+      finish();
+      if (response.type === 'result') {
+        resolve(response.result as StegoTaskResults[K]);
+      } else {
+        reject(toError(response.name, response.message));
+      }
+    });
+    worker.addEventListener('error', (event) => {
+      finish();
+      reject(new Error(event.message || 'The encoding worker stopped unexpectedly'));
+    });
+    signal?.addEventListener('abort', handleAbort);
+    worker.postMessage(task, transfer);
+  });
+}
+
+/**
+ * Decodes a cover file, embeds a payload and exports the image as a
+ * self-checked file (see exportEncodedImage)
+ */
+export function encodeImageInWorker(
+  file: Blob,
+  payload: SecretPayload,
+  options: TaskEncodeOptions,
+  format: ImageFormat,
+  engine?: EngineOptions
+): Promise<Blob> {
+  return runTask({ kind: 'encodeImage', file, payload, options, format }, [], engine);
+}
+
+/**
+ * Hides a payload in a JPEG's coefficients. The image is copied, so it can be encoded again
+ */
+export function encodeJpegInWorker(
+  image: JpegImage,
+  payload: SecretPayload,
+  options: JpegEncodeOptions,
+  engine?: EngineOptions
+): Promise<Blob> {
+  return runTask({ kind: 'encodeJpeg', image, payload, options }, [], engine);
+}
+
+/**
+ * Decodes the payload hidden in an image file, streaming a file into a Blob
+ * (see decodeMessageAsBlob)
+ */
+export function decodeImageInWorker(
+  file: Blob,
+  options: TaskDecodeOptions,
+  engine?: EngineOptions
+): Promise<BlobDecodeResult> {
+  return runTask({ kind: 'decodeImage', file, options }, [], engine);
+}
+
+/**
+ * Decodes the payload hidden in a JPEG file's bytes, which are transferred
+ */
+export function decodeJpegInWorker(
+  bytes: Uint8Array,
+  options: TaskDecodeOptions,
+  engine?: EngineOptions
+): Promise<BlobDecodeResult> {
+  return runTask({ kind: 'decodeJpeg', bytes, options }, [bytes.buffer], engine);
+}
+
+/**
+ * Hides a message or watermark in video frames. The frames are copied, so they
+ * can be encoded again; the encoded ones come back without a copy
+ */
+export function encodeFramesInWorker(
+  frames: VideoFrame[],
+  text: string,
+  mode: VideoPayloadMode,
+  engine?: EngineOptions
+): Promise<VideoFrame[]> {
+  return runTask({ kind: 'encodeVideo', frames, text, mode }, [], engine);
+}
+
+/**
+ * Reads a message striped over video frames, whose pixels are transferred
+ */
+export function decodeFramesInWorker(frames: VideoFrame[], engine?: EngineOptions): Promise<string> {
+  return runTask({ kind: 'decodeVideoText', frames }, getFrameBuffers(frames), engine);
+}
+
+/**
+ * Reads a message striped over frames saved as image files, given in order
+ */
+export function decodeImageFramesInWorker(files: Blob[], engine?: EngineOptions): Promise<string> {
+  return runTask({ kind: 'decodeImageFrames', files }, [], engine);
+}
+
+/**
+ * Reads a watermark from video frames, whose pixels are transferred
+ */
+export function decodeWatermarkInWorker(frames: VideoFrame[], engine?: EngineOptions): Promise<WatermarkResult> {
+  return runTask({ kind: 'decodeVideoWatermark', frames }, getFrameBuffers(frames), engine);
+}
+
+/**
+ * Hides a payload in an audio carrier's samples and returns the WAV file. The
+ * carrier is copied, so it can be encoded again
+ */
+export function encodeAudioInWorker(
+  audio: AudioCarrier,
+  payload: SecretPayload,
+  options: TaskEncodeOptions,
+  engine?: EngineOptions
+): Promise<Blob> {
+  return runTask({ kind: 'encodeAudio', audio, payload, options }, [], engine);
+}
+
+/**
+ * Decodes the payload hidden in an audio carrier. The carrier is copied, so it
+ * can be decoded again with another passphrase
+ */
+export function decodeAudioInWorker(
+  audio: AudioCarrier,
+  options: TaskDecodeOptions,
+  engine?: EngineOptions
+): Promise<BlobDecodeResult> {
+  return runTask({ kind: 'decodeAudio', audio, options }, [], engine);
+}
+
+/**
+ * Runs the steganalysis tests on an image file (see analyzeImage)
+ */
+export function analyzeImageInWorker(file: Blob, engine?: EngineOptions): Promise<ImageAnalysis> {
+  return runTask({ kind: 'analyzeImage', file }, [], engine);
+}
+
+/**
+ * Loads an image file's pixels and finds the payload region (see inspectImage).
+ * The pixels come back without a copy
+ */
+export function inspectImageInWorker(file: Blob, engine?: EngineOptions): Promise<InspectedImage> {
+  return runTask({ kind: 'inspectImage', file }, [], engine);
+}
+
+/**
+ * Renders a bit plane of an image and of its original (see renderBitPlanes).
+ * The images are copied, so they can be rendered again
+ */
+export function renderBitPlanesInWorker(
+  image: PixelImage,
+  channel: BitPlaneChannel,
+  bit: number,
+  options: BitPlaneViewOptions,
+  engine?: EngineOptions
+): Promise<BitPlaneView> {
+  return runTask({ kind: 'renderBitPlanes', image, channel, bit, options }, [], engine);
+}
@@ -0,0 +1,156 @@
+// Encoding, decoding, analysis and inspection tasks run by the stego engine, on a Web Worker or,
+// where workers are unavailable, on the page (see stegoEngine)
+
+import {
+  loadImage,
+  encodePayload,
+  exportEncodedImage,
+  decodeMessageAsBlob,
+  toBlobResult,
+  PixelImage,
+  ImageFormat,
+  EncodeOptions,
+  DecodeOptions,
+  BlobDecodeResult,
+} from './steganography';
+import { encodeJpegPayload, decodeJpegMessage, JpegEncodeOptions } from './jpegSteganography';
+import { decodeJpeg, JpegImage } from './jpeg';
+import {
+  encodeTextInFrames,
+  encodeWatermarkInFrames,
+  decodeTextFromFrames,
+  decodeWatermarkFromFrames,
+  VideoFrame,
+} from './videoSteganography';
+import { WatermarkResult } from './watermark';
+import { analyzeImage, ImageAnalysis } from './steganalysis';
+import { encodeAudioPayload, decodeAudioMessage, AudioCarrier } from './audioSteganography';
+import {
+  inspectImage,
+  renderBitPlanes,
+  InspectedImage,
+  BitPlaneView,
+  BitPlaneChannel,
+  BitPlaneViewOptions,
+} from './bitPlanes';
+import { SecretPayload } from './payload';
+
+// Share of an image encode spent embedding; the rest goes to writing and checking the file
+const EMBED_PROGRESS_SHARE = 60;
+
+// Callbacks can't be sent to a worker, progress is reported through runStegoTask instead
+export type TaskEncodeOptions = Omit<EncodeOptions, 'onProgress'>;
+export type TaskDecodeOptions = Omit<DecodeOptions, 'onProgress'>;
+
+export type VideoPayloadMode = 'message' | 'watermark';
+
+export type StegoTask =
+  // Image files are decoded on the worker too: PNG, BMP and TIFF are read in script
+  | {
+      kind: 'encodeImage';
+      file: Blob;
+      payload: SecretPayload;
+      options: TaskEncodeOptions;
+      format: ImageFormat;
+    }
+  | { kind: 'encodeJpeg'; image: JpegImage; payload: SecretPayload; options: JpegEncodeOptions }
+  | { kind: 'decodeImage'; file: Blob; options: TaskDecodeOptions }
+  // The bytes of a JPEG file
+  | { kind: 'decodeJpeg'; bytes: Uint8Array; options: TaskDecodeOptions }
+  | { kind: 'encodeVideo'; frames: VideoFrame[]; text: string; mode: VideoPayloadMode }
+  | { kind: 'decodeVideoText'; frames: VideoFrame[] }
+  // Frames saved as image files, in order
+  | { kind: 'decodeImageFrames'; files: Blob[] }
+  | { kind: 'decodeVideoWatermark'; frames: VideoFrame[] }
+  | { kind: 'encodeAudio'; audio: AudioCarrier; payload: SecretPayload; options: TaskEncodeOptions }
+  | { kind: 'decodeAudio'; audio: AudioCarrier; options: TaskDecodeOptions }
+  | { kind: 'analyzeImage'; file: Blob }
+  | { kind: 'inspectImage'; file: Blob }
+  | {
+      kind: 'renderBitPlanes';
+      image: PixelImage;
+      channel: BitPlaneChannel;
+      bit: number;
+      options: BitPlaneViewOptions;
+    };
+
+export type StegoTaskKind = StegoTask['kind'];
+
+export interface StegoTaskResults {
+  // The exported, self-checked file
+  encodeImage: Blob;
+  encodeJpeg: Blob;
+  // A decoded file comes as a Blob
+  decodeImage: BlobDecodeResult;
+  decodeJpeg: BlobDecodeResult;
+  encodeVideo: VideoFrame[];
+  decodeVideoText: string;
+  decodeImageFrames: string;
+  decodeVideoWatermark: WatermarkResult;
+  // The encoded WAV file
+  encodeAudio: Blob;
+  decodeAudio: BlobDecodeResult;
+  analyzeImage: ImageAnalysis;
+  inspectImage: InspectedImage;
+  renderBitPlanes: BitPlaneView;
+}
+
+export type StegoTaskResult = StegoTaskResults[StegoTaskKind];
+
+/**
+ * Runs a task to completion, reporting its progress (0-100) along the way
+ */
+export async function runStegoTask(
+  task: StegoTask,
+  onProgress: (progress: number) => void
+): Promise<StegoTaskResult> {
+  switch (task.kind) {
+    case 'encodeImage': {
+      const { imageData, imageData16 } = await loadImage(task.file);
+      // Only PNG output keeps the full samples of a 16-bit cover
+      const cover = task.format === 'png' ? imageData16 ?? imageData : imageData;
+      const encoded = await encodePayload(cover, task.payload, {
+        ...task.options,
+        onProgress: (progress) => onProgress((progress * EMBED_PROGRESS_SHARE) / 100),
+      });
+      const blob = await exportEncodedImage(encoded, task.format, task.options.scatterKey);
+      onProgress(100);
+      return blob;
+    }
+    case 'encodeJpeg':
+      return encodeJpegPayload(task.image, task.payload, task.options);
+    case 'decodeImage': {
+      const { imageData, imageData16 } = await loadImage(task.file);
+      return decodeMessageAsBlob(imageData16 ?? imageData, { ...task.options, onProgress });
+    }
+    case 'decodeJpeg':
+      return toBlobResult(await decodeJpegMessage(decodeJpeg(task.bytes), task.options));
+    case 'encodeVideo': {
+      const encode = task.mode === 'watermark' ? encodeWatermarkInFrames : encodeTextInFrames;
+      return encode(task.frames, task.text, onProgress);
+    }
+    case 'decodeVideoText':
+      return decodeTextFromFrames(task.frames, onProgress);
+    case 'decodeImageFrames': {
+      const frames: VideoFrame[] = [];
+      for (const file of task.files) {
+        frames.push({ imageData: (await loadImage(file)).imageData, timestamp: 0 });
+      }
+      return decodeTextFromFrames(frames, onProgress);
+    }
+    case 'decodeVideoWatermark':
+      return decodeWatermarkFromFrames(task.frames, onProgress);
+    case 'encodeAudio':
+      return encodeAudioPayload(task.audio, task.payload, { ...task.options, onProgress });
+    case 'decodeAudio':
+      return toBlobResult(await decodeAudioMessage(task.audio, { ...task.options, onProgress }));
+    case 'analyzeImage': {
+      const { imageData, imageData16 } = await loadImage(task.file);
+      return analyzeImage(imageData16 ?? imageData, onProgress);
+    }
+    case 'inspectImage':
+      return inspectImage(task.file);
+    case 'renderBitPlanes':
+      return renderBitPlanes(task.image, task.channel, task.bit, task.options);
+  }
+}
@@ -0,0 +1,39 @@
+// Web Worker that runs one stego engine task and reports its progress
+
+import { runStegoTask, StegoTask, StegoTaskKind, StegoTaskResult, StegoTaskResults } from './stegoTasks';
+import { StegoWorkerResponse } from './stegoEngine';
+
+function respond(response: StegoWorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(response, { transfer });
+}
+
+/**
+ * Pixel buffers of a result, which are handed back without a copy
+ */
+function getResultBuffers(kind: StegoTaskKind, result: StegoTaskResult): Transferable[] {
+  switch (kind) {
+    case 'encodeVideo':
+      return (result as StegoTaskResults['encodeVideo']).map((frame) => frame.imageData.data.buffer);
+    case 'inspectImage':
+      return [(result as StegoTaskResults['inspectImage']).image.data.buffer];
+    case 'renderBitPlanes': {
+      const { plane, originalPlane } = result as StegoTaskResults['renderBitPlanes'];
+      return originalPlane ? [plane.data.buffer, originalPlane.data.buffer] : [plane.data.buffer];
+    }
+    default:
+      return [];
+  }
+}
+
+self.addEventListener('message', async (event: MessageEvent<StegoTask>) => {
+  try {
+    const result = await runStegoTask(event.data, (progress) => respond({ type: 'progress', progress }));
+    respond({ type: 'result', result }, getResultBuffers(event.data.kind, result));
+  } catch (err) {
+    respond({
+      type: 'error',
+      name: err instanceof Error ? err.name : 'Error',
+      message: err instanceof Error ? err.message : 'Processing failed',
+    });
+  }
+});
@@ -0,0 +1,233 @@
+// Baseline TIFF encoder and decoder for uncompressed 8-bit images
+//
+// Writes a single strip of chunky RGB (or RGBA with unassociated alpha) pixels,
+// which every TIFF reader supports and which keeps every channel bit-exact.
+
+const TAG_IMAGE_WIDTH = 256;
+const TAG_IMAGE_LENGTH = 257;
+const TAG_BITS_PER_SAMPLE = 258;
+const TAG_COMPRESSION = 259;
+const TAG_PHOTOMETRIC = 262;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_SAMPLES_PER_PIXEL = 277;
+const TAG_ROWS_PER_STRIP = 278;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_X_RESOLUTION = 282;
+const TAG_Y_RESOLUTION = 283;
+const TAG_PLANAR_CONFIG = 284;
+const TAG_RESOLUTION_UNIT = 296;
+const TAG_EXTRA_SAMPLES = 338;
+
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+// Byte size of each field type, indexed by type
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+const COMPRESSION_NONE = 1;
+const PHOTOMETRIC_MIN_IS_WHITE = 0;
+const PHOTOMETRIC_MIN_IS_BLACK = 1;
+const PHOTOMETRIC_RGB = 2;
+const EXTRA_SAMPLE_UNASSOCIATED_ALPHA = 2;
+const RESOLUTION_UNIT_INCH = 2;
+const DPI = 72;
+
+interface TiffEntry {
+  tag: number;
+  type: number;
+  values: number[];
+}
+
+/**
+ * Whether the bytes start like a TIFF file (either byte order)
+ */
+export function isTiff(bytes: Uint8Array): boolean {
+  if (bytes.length < 8) return false;
+  const littleEndian = bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0;
+  const bigEndian = bytes[0] === 0x4D && bytes[1] === 0x4D && bytes[2] === 0 && bytes[3] === 42;
+  return littleEndian || bigEndian;
+}
+
+/**
+ * Writes the pixels as a little-endian, single-strip uncompressed TIFF
+ */
+export function encodeTiff(imageData: ImageData): Uint8Array {
+  const { width, height, data } = imageData;
+  let withAlpha = false;
+  for (let i = 3; i < data.length && !withAlpha; i += 4) {
+    withAlpha = data[i] !== 255;
+  }
+  const samples = withAlpha ? 4 : 3;
+  const stripLength = width * height * samples;
+
+  const stripOffsets: TiffEntry = { tag: TAG_STRIP_OFFSETS, type: TYPE_LONG, values: [0] };
+  const entries: TiffEntry[] = [
+    { tag: TAG_IMAGE_WIDTH, type: TYPE_LONG, values: [width] },
+    { tag: TAG_IMAGE_LENGTH, type: TYPE_LONG, values: [height] },
+    { tag: TAG_BITS_PER_SAMPLE, type: TYPE_SHORT, values: new Array(samples).fill(8) },
+    { tag: TAG_COMPRESSION, type: TYPE_SHORT, values: [COMPRESSION_NONE] },
+    { tag: TAG_PHOTOMETRIC, type: TYPE_SHORT, values: [PHOTOMETRIC_RGB] },
+    stripOffsets,
+    { tag: TAG_SAMPLES_PER_PIXEL, type: TYPE_SHORT, values: [samples] },
+    { tag: TAG_ROWS_PER_STRIP, type: TYPE_LONG, values: [height] },
+    { tag: TAG_STRIP_BYTE_COUNTS, type: TYPE_LONG, values: [stripLength] },
+    { tag: TAG_X_RESOLUTION, type: TYPE_RATIONAL, values: [DPI, 1] },
+    { tag: TAG_Y_RESOLUTION, type: TYPE_RATIONAL, values: [DPI, 1] },
+    { tag: TAG_PLANAR_CONFIG, type: TYPE_SHORT, values: [1] },
+    { tag: TAG_RESOLUTION_UNIT, type: TYPE_SHORT, values: [RESOLUTION_UNIT_INCH] },
+  ];
+  if (withAlpha) {
+    entries.push({ tag: TAG_EXTRA_SAMPLES, type: TYPE_SHORT, values: [EXTRA_SAMPLE_UNASSOCIATED_ALPHA] });
+  }
+
+  // Layout: header, IFD, out-of-line values, then the pixel strip
+  const ifdOffset = 8;
+  const ifdSize = 2 + entries.length * 12 + 4;
+  let extraOffset = ifdOffset + ifdSize;
+  const extraOffsets = entries.map((entry) => {
+    const size = TYPE_SIZES[entry.type] * (entry.type === TYPE_RATIONAL ? entry.values.length / 2 : entry.values.length);
+    if (size <= 4) return 0;
+    const offset = extraOffset;
+    extraOffset += size + (size & 1);
+    return offset;
+  });
+  const stripOffset = extraOffset;
+  stripOffsets.values[0] = stripOffset;
+
+  const bytes = new Uint8Array(stripOffset + stripLength);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x49, 0x49, 42, 0]);
+  view.setUint32(4, ifdOffset, true);
+
+  view.setUint16(ifdOffset, entries.length, true);
+  entries.forEach((entry, index) => {
+    const position = ifdOffset + 2 + index * 12;
+    const count = entry.type === TYPE_RATIONAL ? entry.values.length / 2 : entry.values.length;
+    view.setUint16(position, entry.tag, true);
+    view.setUint16(position + 2, entry.type, true);
+    view.setUint32(position + 4, count, true);
+
+    let valueOffset = position + 8;
+    if (extraOffsets[index]) {
+      view.setUint32(position + 8, extraOffsets[index], true);
+      valueOffset = extraOffsets[index];
+    }
+    entry.values.forEach((value, i) => {
+      if (entry.type === TYPE_SHORT) {
+        view.setUint16(valueOffset + i * 2, value, true);
+      } else {
+        view.setUint32(valueOffset + i * 4, value, true);
+      }
+    });
+  });
+  view.setUint32(ifdOffset + 2 + entries.length * 12, 0, true); // no further IFDs
+
+  let out = stripOffset;
+  for (let i = 0; i < data.length; i += 4) {
+    bytes[out++] = data[i];
+    bytes[out++] = data[i + 1];
+    bytes[out++] = data[i + 2];
+    if (withAlpha) bytes[out++] = data[i + 3];
+  }
+
+  return bytes;
+}
+
+/**
+ * Reads the first image of an uncompressed, 8-bit chunky TIFF (RGB, RGBA or grayscale)
+ */
+export function decodeTiff(bytes: Uint8Array): ImageData {
+  if (!isTiff(bytes)) {
+    throw new Error('Not a TIFF file');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = bytes[0] === 0x49;
+  const ifdOffset = view.getUint32(4, littleEndian);
+  if (ifdOffset + 2 > bytes.length) {
+    throw new Error('TIFF file is truncated');
+  }
+  const entryCount = view.getUint16(ifdOffset, littleEndian);
+  if (ifdOffset + 2 + entryCount * 12 > bytes.length) {
+    throw new Error('TIFF file is truncated');
+  }
+
+  const tags = new Map<number, number[]>();
+  for (let index = 0; index < entryCount; index++) {
+    const position = ifdOffset + 2 + index * 12;
+    const tag = view.getUint16(position, littleEndian);
+    const type = view.getUint16(position + 2, littleEndian);
+    const count = view.getUint32(position + 4, littleEndian);
+    if (type !== TYPE_SHORT && type !== TYPE_LONG) continue;
+
+    const size = TYPE_SIZES[type] * count;
+    const valueOffset = size <= 4 ? position + 8 : view.getUint32(position + 8, littleEndian);
+    if (valueOffset + size > bytes.length) {
+      throw new Error('TIFF file is truncated');
+    }
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      values.push(
+        type === TYPE_SHORT
+          ? view.getUint16(valueOffset + i * 2, littleEndian)
+          : view.getUint32(valueOffset + i * 4, littleEndian)
+      );
+    }
+    tags.set(tag, values);
+  }
+
+  const width = tags.get(TAG_IMAGE_WIDTH)?.[0] ?? 0;
+  const height = tags.get(TAG_IMAGE_LENGTH)?.[0] ?? 0;
+  const samples = tags.get(TAG_SAMPLES_PER_PIXEL)?.[0] ?? 1;
+  const photometric = tags.get(TAG_PHOTOMETRIC)?.[0] ?? PHOTOMETRIC_MIN_IS_BLACK;
+  const compression = tags.get(TAG_COMPRESSION)?.[0] ?? COMPRESSION_NONE;
+  const planar = tags.get(TAG_PLANAR_CONFIG)?.[0] ?? 1;
+  const bitsPerSample = tags.get(TAG_BITS_PER_SAMPLE) ?? [1];
+  const stripOffsets = tags.get(TAG_STRIP_OFFSETS) ?? [];
+  const stripByteCounts = tags.get(TAG_STRIP_BYTE_COUNTS) ?? [];
+  const isRgb = photometric === PHOTOMETRIC_RGB && samples >= 3;
+  const isGray =
+    (photometric === PHOTOMETRIC_MIN_IS_BLACK || photometric === PHOTOMETRIC_MIN_IS_WHITE) && samples >= 1;
+
+  if (
+    compression !== COMPRESSION_NONE ||
+    planar !== 1 ||
+    bitsPerSample.some((bits) => bits !== 8) ||
+    !(isRgb || isGray)
+  ) {
+    throw new Error('Only uncompressed 8-bit RGB and grayscale TIFF images are supported');
+  }
+  if (width === 0 || height === 0) {
+    throw new Error('TIFF image has no size');
+  }
+
+  // Strips are consecutive runs of rows, joined here into one buffer
+  const pixels = new Uint8Array(width * height * samples);
+  let filled = 0;
+  stripOffsets.forEach((offset, index) => {
+    const available = Math.max(0, bytes.length - offset);
+    const length = Math.min(stripByteCounts[index] ?? 0, pixels.length - filled, available);
+    pixels.set(bytes.subarray(offset, offset + length), filled);
+    filled += length;
+  });
+  if (filled < pixels.length) {
+    throw new Error('TIFF file is truncated');
+  }
+
+  const hasAlpha = isRgb ? samples >= 4 : samples >= 2;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let pixel = 0, i = 0; pixel < width * height; pixel++, i += samples) {
+    const out = pixel * 4;
+    if (isRgb) {
+      data[out] = pixels[i];
+      data[out + 1] = pixels[i + 1];
+      data[out + 2] = pixels[i + 2];
+    } else {
+      const gray = photometric === PHOTOMETRIC_MIN_IS_WHITE ? 255 - pixels[i] : pixels[i];
+      data[out] = data[out + 1] = data[out + 2] = gray;
+    }
+    data[out + 3] = hasAlpha ? pixels[i + (isRgb ? 3 : 1)] : 255;
+  }
+
+  return new ImageData(data, width, height);
+}
@@ -0,0 +1,531 @@
+// Minimal MP4 (ISO BMFF) and WebM (Matroska) demuxers for WebCodecs
+//
+// Only what frame extraction needs: the first video track's codec configuration
+// and the position, timing and key-frame flag of every encoded sample.
+
+export interface EncodedSample {
+  offset: number;
+  size: number;
+  // Presentation time and duration in microseconds
+  timestamp: number;
+  duration: number;
+  isKey: boolean;
+}
+
+export interface DemuxedVideo {
+  codec: string;
+  description?: Uint8Array;
+  width: number;
+  height: number;
+  fps: number;
+  duration: number;
+  // In decode order
+  samples: EncodedSample[];
+}
+
+const hex = (value: number) => value.toString(16).padStart(2, '0');
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+function avcCodecString(type: string, avcC: Uint8Array): string {
+  return `${type}.${hex(avcC[1])}${hex(avcC[2])}${hex(avcC[3])}`;
+}
+
+function hevcCodecString(type: string, hvcC: Uint8Array): string {
+  const view = new DataView(hvcC.buffer, hvcC.byteOffset, hvcC.byteLength);
+  const profileSpace = ['', 'A', 'B', 'C'][hvcC[1] >> 6];
+  const tier = hvcC[1] & 0x20 ? 'H' : 'L';
+  const profile = hvcC[1] & 0x1F;
+
+  // Compatibility flags are written in reverse bit order
+  const flags = view.getUint32(2);
+  let reversed = 0;
+  for (let i = 0; i < 32; i++) {
+    reversed = (reversed << 1) | ((flags >>> i) & 1);
+  }
+
+  const constraints = Array.from(hvcC.subarray(6, 12));
+  while (constraints.length > 0 && constraints[constraints.length - 1] === 0) {
+    constraints.pop();
+  }
+  return [
+    type,
+    `${profileSpace}${profile}`,
+    (reversed >>> 0).toString(16),
+    `${tier}${hvcC[12]}`,
+    ...constraints.map((byte) => byte.toString(16)),
+  ].join('.');
+}
+
+function av1CodecString(av1C: Uint8Array): string {
+  const profile = av1C[1] >> 5;
+  const level = av1C[1] & 0x1F;
+  const tier = av1C[2] & 0x80 ? 'H' : 'M';
+  const bitDepth = av1C[2] & 0x40 ? (av1C[2] & 0x20 ? 12 : 10) : 8;
+  return `av01.${profile}.${pad2(level)}${tier}.${pad2(bitDepth)}`;
+}
+
+/**
+ * Frame rate from sample timestamps, for containers that don't store one
+ */
+function estimateFps(samples: EncodedSample[]): number {
+  if (samples.length < 2) return 0;
+  const times = samples.map((sample) => sample.timestamp).sort((a, b) => a - b);
+  const span = times[times.length - 1] - times[0];
+  return span > 0 ? ((samples.length - 1) * 1e6) / span : 0;
+}
+
+// --- MP4 ---
+
+interface Mp4Box {
+  type: string;
+  start: number;
+  end: number;
+}
+
+function readBoxes(view: DataView, start: number, end: number): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+
+    const type = String.fromCharCode(
+      view.getUint8(offset + 4),
+      view.getUint8(offset + 5),
+      view.getUint8(offset + 6),
+      view.getUint8(offset + 7)
+    );
+    boxes.push({ type, start: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function findBox(view: DataView, parent: Mp4Box, path: string[]): Mp4Box | undefined {
+  let box: Mp4Box | undefined = parent;
+  for (const type of path) {
+    box = readBoxes(view, box.start, box.end).find((child) => child.type === type);
+    if (!box) return undefined;
+  }
+  return box;
+}
+
+function isMp4(view: DataView): boolean {
+  return view.byteLength >= 8 && view.getUint32(4) === 0x66747970; // 'ftyp'
+}
+
+function readSampleEntry(
+  view: DataView,
+  stsd: Mp4Box
+): { codec: string; description?: Uint8Array; width: number; height: number } | null {
+  // Full box header + entry count, then the first sample entry
+  const entry = readBoxes(view, stsd.start + 8, stsd.end)[0];
+  if (!entry) return null;
+
+  // Visual sample entry: width and height, then child boxes after 78 bytes
+  const width = view.getUint16(entry.start + 24);
+  const height = view.getUint16(entry.start + 26);
+  const children = readBoxes(view, entry.start + 78, entry.end);
+  const child = (type: string) => {
+    const box = children.find((c) => c.type === type);
+    return box ? new Uint8Array(view.buffer, view.byteOffset + box.start, box.end - box.start) : undefined;
+  };
+
+  switch (entry.type) {
+    case 'avc1':
+    case 'avc3': {
+      const avcC = child('avcC');
+      return avcC ? { codec: avcCodecString(entry.type, avcC), description: avcC, width, height } : null;
+    }
+    case 'hvc1':
+    case 'hev1': {
+      const hvcC = child('hvcC');
+      return hvcC ? { codec: hevcCodecString(entry.type, hvcC), description: hvcC, width, height } : null;
+    }
+    case 'vp08':
+      return { codec: 'vp8', width, height };
+    case 'vp09': {
+      const vpcC = child('vpcC');
+      if (!vpcC) return null;
+      // Full box header, then profile, level, bit depth (high nibble)
+      return { codec: `vp09.${pad2(vpcC[4])}.${pad2(vpcC[5])}.${pad2(vpcC[6] >> 4)}`, width, height };
+    }
+    case 'av01': {
+      const av1C = child('av1C');
+      return av1C ? { codec: av1CodecString(av1C), description: av1C, width, height } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function demuxMp4(view: DataView): DemuxedVideo | null {
+  const file: Mp4Box = { type: 'file', start: 0, end: view.byteLength };
+  const moov = findBox(view, file, ['moov']);
+  if (!moov) return null;
+
+  const track = readBoxes(view, moov.start, moov.end)
+    .filter((box) => box.type === 'trak')
+    .find((trak) => {
+      const hdlr = findBox(view, trak, ['mdia', 'hdlr']);
+      return hdlr && view.getUint32(hdlr.start + 8) === 0x76696465; // 'vide'
+    });
+  if (!track) return null;
+
+  const mdhd = findBox(view, track, ['mdia', 'mdhd']);
+  const stbl = findBox(view, track, ['mdia', 'minf', 'stbl']);
+  if (!mdhd || !stbl) return null;
+  const timescale = view.getUint32(mdhd.start + (view.getUint8(mdhd.start) === 1 ? 20 : 12));
+
+  const table = (type: string) => findBox(view, stbl, [type]);
+  const stsd = table('stsd');
+  const stts = table('stts');
+  const stsc = table('stsc');
+  const stsz = table('stsz');
+  const chunkOffsets = table('stco') ?? table('co64');
+  // Fragmented files keep their samples in moof boxes instead
+  if (!stsd || !stts || !stsc || !stsz || !chunkOffsets || !timescale) return null;
+
+  const entry = readSampleEntry(view, stsd);
+  if (!entry) return null;
+
+  // Sample sizes
+  const fixedSize = view.getUint32(stsz.start + 4);
+  const sampleCount = view.getUint32(stsz.start + 8);
+  const sizes = Array.from({ length: sampleCount }, (_, i) =>
+    fixedSize || view.getUint32(stsz.start + 12 + i * 4)
+  );
+
+  // Chunk offsets
+  const is64 = chunkOffsets.type === 'co64';
+  const chunkCount = view.getUint32(chunkOffsets.start + 4);
+  const offsets = Array.from({ length: chunkCount }, (_, i) => {
+    const at = chunkOffsets.start + 8 + i * (is64 ? 8 : 4);
+    return is64 ? view.getUint32(at) * 2 ** 32 + view.getUint32(at + 4) : view.getUint32(at);
+  });
+
+  // Samples per chunk, expanded to a byte offset per sample
+  const sampleOffsets: number[] = [];
+  const stscCount = view.getUint32(stsc.start + 4);
+  for (let i = 0; i < stscCount; i++) {
+    const at = stsc.start + 8 + i * 12;
+    const firstChunk = view.getUint32(at) - 1;
+    const samplesPerChunk = view.getUint32(at + 4);
+    const lastChunk = i + 1 < stscCount ? view.getUint32(at + 12) - 1 : chunkCount;
+    for (let chunk = firstChunk; chunk < lastChunk; chunk++) {
+      let offset = offsets[chunk];
+      for (let s = 0; s < samplesPerChunk && sampleOffsets.length < sampleCount; s++) {
+        sampleOffsets.push(offset);
+        offset += sizes[sampleOffsets.length - 1];
+      }
+    }
+  }
+
+  // Decode times
+  const decodeTimes: number[] = [];
+  const durations: number[] = [];
+  let time = 0;
+  const sttsCount = view.getUint32(stts.start + 4);
+  for (let i = 0; i < sttsCount; i++) {
+    const count = view.getUint32(stts.start + 8 + i * 8);
+    const delta = view.getUint32(stts.start + 12 + i * 8);
+    for (let s = 0; s < count; s++) {
+      decodeTimes.push(time);
+      durations.push(delta);
+      time += delta;
+    }
+  }
+
+  // Composition offsets (B-frames)
+  const compositionOffsets = new Array<number>(sampleCount).fill(0);
+  const ctts = table('ctts');
+  if (ctts) {
+    const signed = view.getUint8(ctts.start) === 1;
+    const count = view.getUint32(ctts.start + 4);
+    let sample = 0;
+    for (let i = 0; i < count; i++) {
+      const repeat = view.getUint32(ctts.start + 8 + i * 8);
+      const at = ctts.start + 12 + i * 8;
+      const offset = signed ? view.getInt32(at) : view.getUint32(at);
+      for (let s = 0; s < repeat && sample < sampleCount; s++) {
+        compositionOffsets[sample++] = offset;
+      }
+    }
+  }
+
+  // Sync samples; without a table every sample is a key frame
+  const stss = table('stss');
+  let keySamples: Set<number> | null = null;
+  if (stss) {
+    const count = view.getUint32(stss.start + 4);
+    keySamples = new Set(Array.from({ length: count }, (_, i) => view.getUint32(stss.start + 8 + i * 4) - 1));
+  }
+
+  const count = Math.min(sampleCount, sampleOffsets.length, decodeTimes.length);
+  const toMicros = (value: number) => Math.round((value * 1e6) / timescale);
+  const samples: EncodedSample[] = [];
+  for (let i = 0; i < count; i++) {
+    // A cut-off recording keeps the samples it still holds in full
+    if (sampleOffsets[i] + sizes[i] > view.byteLength) break;
+    samples.push({
+      offset: sampleOffsets[i],
+      size: sizes[i],
+      timestamp: toMicros(decodeTimes[i] + compositionOffsets[i]),
+      duration: toMicros(durations[i]),
+      isKey: keySamples ? keySamples.has(i) : true,
+    });
+  }
+
+  const duration = time / timescale;
+  return {
+    ...entry,
+    fps: duration > 0 ? count / duration : estimateFps(samples),
+    duration,
+    samples,
+  };
+}
+
+// --- WebM ---
+
+const EBML_ID = 0x1A45DFA3;
+const SEGMENT_ID = 0x18538067;
+const INFO_ID = 0x1549A966;
+const TIMECODE_SCALE_ID = 0x2AD7B1;
+const TRACKS_ID = 0x1654AE6B;
+const TRACK_ENTRY_ID = 0xAE;
+const TRACK_NUMBER_ID = 0xD7;
+const TRACK_TYPE_ID = 0x83;
+const CODEC_ID_ID = 0x86;
+const CODEC_PRIVATE_ID = 0x63A2;
+const DEFAULT_DURATION_ID = 0x23E383;
+const VIDEO_ID = 0xE0;
+const PIXEL_WIDTH_ID = 0xB0;
+const PIXEL_HEIGHT_ID = 0xBA;
+const CLUSTER_ID = 0x1F43B675;
+const TIMECODE_ID = 0xE7;
+const SIMPLE_BLOCK_ID = 0xA3;
+const BLOCK_GROUP_ID = 0xA0;
+const BLOCK_ID = 0xA1;
+const REFERENCE_BLOCK_ID = 0xFB;
+
+// Elements whose children are read in place rather than skipped
+const EBML_MASTERS = new Set([SEGMENT_ID, INFO_ID, TRACKS_ID, TRACK_ENTRY_ID, VIDEO_ID, CLUSTER_ID]);
+
+const TRACK_TYPE_VIDEO = 1;
+
+interface WebmTrack {
+  number: number;
+  type: number;
+  codecId: string;
+  codecPrivate?: Uint8Array;
+  defaultDuration: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Reads an EBML variable-length integer. Element IDs keep their length marker,
+ * sizes drop it; an all-ones size means "unknown" and is returned as -1
+ */
+function readVint(view: DataView, offset: number, keepMarker: boolean): { value: number; length: number } {
+  const first = view.getUint8(offset);
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8) throw new Error('Invalid EBML data');
+
+  let value = keepMarker ? first : first & (0xFF >> length);
+  let allOnes = value === 0xFF >> length;
+  for (let i = 1; i < length; i++) {
+    const byte = view.getUint8(offset + i);
+    value = value * 256 + byte;
+    allOnes = allOnes && byte === 0xFF;
+  }
+  return { value: !keepMarker && allOnes ? -1 : value, length };
+}
+
+/**
+ * Whether the variable-length integer at offset lies within the data
+ */
+function fitsVint(view: DataView, offset: number): boolean {
+  if (offset >= view.byteLength) return false;
+  // The length is one more than the leading zero bits of the first byte
+  const length = Math.clz32(view.getUint8(offset)) - 23;
+  return offset + Math.min(length, 8) <= view.byteLength;
+}
+
+function readUint(view: DataView, offset: number, size: number): number {
+  let value = 0;
+  for (let i = 0; i < size; i++) {
+    value = value * 256 + view.getUint8(offset + i);
+  }
+  return value;
+}
+
+function isWebm(view: DataView): boolean {
+  return view.byteLength >= 4 && view.getUint32(0) === EBML_ID;
+}
+
+function getWebmCodec(track: WebmTrack): { codec: string; description?: Uint8Array } | null {
+  switch (track.codecId) {
+    case 'V_VP8':
+      return { codec: 'vp8' };
+    case 'V_VP9':
+      // Profile 0, level 1, 8 bit; the decoder reads the real values from the stream
+      return { codec: 'vp09.00.10.08' };
+    case 'V_AV1':
+      return track.codecPrivate
+        ? { codec: av1CodecString(track.codecPrivate), description: track.codecPrivate }
+        : { codec: 'av01.0.04M.08' };
+    case 'V_MPEG4/ISO/AVC':
+      return track.codecPrivate
+        ? { codec: avcCodecString('avc1', track.codecPrivate), description: track.codecPrivate }
+        : null;
+    case 'V_MPEGH/ISO/HEVC':
+      return track.codecPrivate
+        ? { codec: hevcCodecString('hvc1', track.codecPrivate), description: track.codecPrivate }
+        : null;
+    default:
+      return null;
+  }
+}
+
+function demuxWebm(view: DataView): DemuxedVideo | null {
+  const tracks: WebmTrack[] = [];
+  let track: WebmTrack | null = null;
+  let timecodeScale = 1_000_000; // nanoseconds per tick
+  let clusterTime = 0;
+  const blocks: { track: number; offset: number; size: number; time: number; isKey: boolean }[] = [];
+
+  const readBlock = (start: number, end: number, simple: boolean, hasReference: boolean) => {
+    const trackNumber = readVint(view, start, false);
+    const header = start + trackNumber.length;
+    const flags = view.getUint8(header + 2);
+    if (flags & 0x06) {
+      throw new Error('Laced WebM video blocks are not supported');
+    }
+    blocks.push({
+      track: trackNumber.value,
+      offset: header + 3,
+      size: end - header - 3,
+      time: clusterTime + view.getInt16(header),
+      isKey: simple ? (flags & 0x80) !== 0 : !hasReference,
+    });
+  };
+
+  // Walks elements linearly, stepping into the masters we need. This also copes
+  // with the unknown-size segments and clusters that live recordings produce,
+  // and with files cut off mid-element, whose last element is left out
+  let offset = 0;
+  while (fitsVint(view, offset)) {
+    const id = readVint(view, offset, true);
+    if (!fitsVint(view, offset + id.length)) break;
+    const size = readVint(view, offset + id.length, false);
+    const body = offset + id.length + size.length;
+    const end = size.value < 0 ? view.byteLength : Math.min(body + size.value, view.byteLength);
+
+    if (EBML_MASTERS.has(id.value)) {
+      if (id.value === TRACK_ENTRY_ID) {
+        track = { number: 0, type: 0, codecId: '', defaultDuration: 0, width: 0, height: 0 };
+        tracks.push(track);
+      }
+      offset = body;
+      continue;
+    }
+    if (size.value < 0 || body + size.value > view.byteLength) break;
+
+    switch (id.value) {
+      case TIMECODE_SCALE_ID:
+        timecodeScale = readUint(view, body, size.value);
+        break;
+      case TRACK_NUMBER_ID:
+        if (track) track.number = readUint(view, body, size.value);
+        break;
+      case TRACK_TYPE_ID:
+        if (track) track.type = readUint(view, body, size.value);
+        break;
+      case CODEC_ID_ID:
+        if (track) track.codecId = String.fromCharCode(...new Uint8Array(view.buffer, view.byteOffset + body, size.value)).replace(/\0+$/, '');
+        break;
+      case CODEC_PRIVATE_ID:
+        if (track) track.codecPrivate = new Uint8Array(view.buffer, view.byteOffset + body, size.value);
+        break;
+      case DEFAULT_DURATION_ID:
+        if (track) track.defaultDuration = readUint(view, body, size.value);
+        break;
+      case PIXEL_WIDTH_ID:
+        if (track) track.width = readUint(view, body, size.value);
+        break;
+      case PIXEL_HEIGHT_ID:
+        if (track) track.height = readUint(view, body, size.value);
+        break;
+      case TIMECODE_ID:
+        clusterTime = readUint(view, body, size.value);
+        break;
+      case SIMPLE_BLOCK_ID:
+        readBlock(body, end, true, false);
+        break;
+      case BLOCK_GROUP_ID: {
+        let block: { start: number; end: number } | null = null;
+        let hasReference = false;
+        for (let child = body; child < end; ) {
+          const childId = readVint(view, child, true);
+          const childSize = readVint(view, child + childId.length, false);
+          const childBody = child + childId.length + childSize.length;
+          if (childSize.value < 0) break;
+          if (childId.value === BLOCK_ID) block = { start: childBody, end: childBody + childSize.value };
+          if (childId.value === REFERENCE_BLOCK_ID) hasReference = true;
+          child = childBody + childSize.value;
+        }
+        if (block) readBlock(block.start, block.end, false, hasReference);
+        break;
+      }
+    }
+    offset = end;
+  }
+
+  const video = tracks.find((t) => t.type === TRACK_TYPE_VIDEO);
+  if (!video) return null;
+  const codec = getWebmCodec(video);
+  if (!codec) return null;
+
+  const toMicros = (ticks: number) => Math.round((ticks * timecodeScale) / 1000);
+  const frameDuration = video.defaultDuration > 0 ? Math.round(video.defaultDuration / 1000) : 0;
+  const samples: EncodedSample[] = blocks
+    .filter((block) => block.track === video.number)
+    .map((block) => ({
+      offset: block.offset,
+      size: block.size,
+      timestamp: toMicros(block.time),
+      duration: frameDuration,
+      isKey: block.isKey,
+    }));
+  if (samples.length === 0) return null;
+
+  const fps = video.defaultDuration > 0 ? 1e9 / video.defaultDuration : estimateFps(samples);
+  return {
+    ...codec,
+    width: video.width,
+    height: video.height,
+    fps,
+    duration: fps > 0 ? samples.length / fps : 0,
+    samples,
+  };
+}
+
+/**
+ * Demuxes the first video track of an MP4 or WebM file. Returns null for other
+ * containers and layouts this demuxer doesn't handle (e.g. fragmented MP4)
+ */
+export function demuxVideo(buffer: ArrayBuffer): DemuxedVideo | null {
+  const view = new DataView(buffer);
+  if (isMp4(view)) return demuxMp4(view);
+  if (isWebm(view)) return demuxWebm(view);
+  return null;
+}
@@ -1,7 +1,10 @@
 // Video Steganography Implementation using Frame-Based LSB
 // Cross-Environment Compatible
 
-import { encodeText, decodeText, calculateCapacity } from './steganography';
+import { decodeText, calculateCapacity, encodeChunk, decodeChunk } from './steganography';
+import { muxAvi, demuxAvi } from './avi';
+import { demuxVideo } from './videoDemux';
+import { embedWatermark, decodeWatermark, WatermarkResult } from './watermark';
 
 export interface VideoFrame {
   imageData: ImageData;
@@ -14,8 +17,21 @@ export interface VideoMetadata {
   duration: number;
   frameCount: number;
   fps: number;
+  // Index of every extracted frame within the video
+  frameIndices: number[];
+  // Whether those indices are exact (decoded) or estimated from seek times
+  frameAccurate: boolean;
 }
 
+type ExtractedVideo = { frames: VideoFrame[]; metadata: VideoMetadata };
+
+// Per-frame sequence header: stream id (4 bytes) + chunk index (2 bytes) + chunk count (2 bytes)
+const SEQUENCE_HEADER_SIZE = 8;
+const MAX_CHUNKS = 0xFFFF;
+
+// Short messages stay in a few frames instead of spreading a few bytes over every frame
+const MIN_CHUNK_SIZE = 256;
+
 /**
  * Creates a raw canvas for consistent pixel handling
  */
@@ -39,13 +55,14 @@ function createRawCanvas(width: number, height: number): { canvas: HTMLCanvasEle
 }
 
 /**
- * Extracts frames from a video file with consistent pixel handling
+ * Extracts frames by seeking a video element, for browsers without WebCodecs.
+ * The frame rate is assumed, so the frames read are not guaranteed to match
  */
-export async function extractFrames(
+function extractFramesBySeeking(
   file: File,
-  maxFrames: number = 30,
+  maxFrames: number,
   onProgress?: (progress: number) => void
-): Promise<{ frames: VideoFrame[]; metadata: VideoMetadata }> {
+): Promise<ExtractedVideo> {
   return new Promise((resolve, reject) => {
     const video = document.createElement('video');
 
@@ -98,6 +115,8 @@ export async function extractFrames(
             duration,
             frameCount: frames.length,
             fps: totalFrames / duration,
+            frameIndices: frames.map((frame) => Math.round(frame.timestamp * estimatedFps)),
+            frameAccurate: false,
           },
         });
       } catch (err) {
@@ -113,20 +132,139 @@ export async function extractFrames(
   });
 }
 
+/**
+ * Decodes the first frames of an MP4 or WebM file with WebCodecs, in presentation
+ * order. Returns null when the browser, container or codec isn't supported
+ */
+async function extractFramesWithWebCodecs(
+  file: File,
+  maxFrames: number,
+  onProgress?: (progress: number) => void
+): Promise<ExtractedVideo | null> {
+  if (typeof VideoDecoder === 'undefined') return null;
+
+  const buffer = await file.arrayBuffer();
+  let video: ReturnType<typeof demuxVideo>;
+  try {
+    video = demuxVideo(buffer);
+  } catch {
+    return null;
+  }
+  if (!video || video.samples.length === 0 || !video.samples[0].isKey) return null;
+
+  const config: VideoDecoderConfig = {
+    codec: video.codec,
+    description: video.description,
+    codedWidth: video.width,
+    codedHeight: video.height,
+  };
+  const support = await VideoDecoder.isConfigSupported(config).catch(() => null);
+  if (!support?.supported) return null;
+
+  // Frame index = position in presentation order
+  const { samples } = video;
+  const presentationOrder = samples.map((_, i) => i).sort((a, b) => samples[a].timestamp - samples[b].timestamp);
+  const wanted = presentationOrder.slice(0, maxFrames);
+  const indexByTimestamp = new Map(wanted.map((sample, index) => [samples[sample].timestamp, index]));
+  // Every sample up to the last wanted one in decode order is needed as a reference
+  const lastSample = Math.max(...wanted);
+
+  let raw: ReturnType<typeof createRawCanvas> | null = null;
+  const decoded = new Map<number, VideoFrame>();
+
+  const decoder = new VideoDecoder({
+    output: (frame) => {
+      const index = indexByTimestamp.get(frame.timestamp);
+      if (index !== undefined && !decoded.has(index)) {
+        raw ??= createRawCanvas(frame.displayWidth, frame.displayHeight);
+        raw.ctx.drawImage(frame, 0, 0);
+        const imageData = raw.ctx.getImageData(0, 0, raw.canvas.width, raw.canvas.height);
+        decoded.set(index, { imageData, timestamp: frame.timestamp / 1e6 });
+        onProgress?.((decoded.size / wanted.length) * 50);
+      }
+      frame.close();
+    },
+    error: () => {
+      // A decoding error also rejects flush(), which reports it
+    },
+  });
+
+  try {
+    decoder.configure(config);
+    for (let i = 0; i <= lastSample; i++) {
+      const sample = samples[i];
+      decoder.decode(
+        new EncodedVideoChunk({
+          type: sample.isKey ? 'key' : 'delta',
+          timestamp: sample.timestamp,
+          duration: sample.duration,
+          data: new Uint8Array(buffer, sample.offset, sample.size),
+        })
+      );
+    }
+    await decoder.flush();
+  } finally {
+    // The decoder holds on to hardware resources until closed, however decoding ended
+    if (decoder.state !== 'closed') decoder.close();
+  }
+
+  const frameIndices = [...decoded.keys()].sort((a, b) => a - b);
+  if (frameIndices.length === 0 || !raw) return null;
+
+  return {
+    frames: frameIndices.map((index) => decoded.get(index) as VideoFrame),
+    metadata: {
+      width: raw.canvas.width,
+      height: raw.canvas.height,
+      duration: video.duration,
+      frameCount: frameIndices.length,
+      fps: video.fps,
+      frameIndices,
+      frameAccurate: true,
+    },
+  };
+}
+
+/**
+ * Extracts the first frames of a video file with consistent pixel handling.
+ * Uses WebCodecs for exact frames where possible, seeking otherwise
+ */
+export async function extractFrames(
+  file: File,
+  maxFrames: number = 30,
+  onProgress?: (progress: number) => void
+): Promise<ExtractedVideo> {
+  try {
+    const decoded = await extractFramesWithWebCodecs(file, maxFrames, onProgress);
+    if (decoded) return decoded;
+  } catch {
+    // Fall back to seeking below
+  }
+  return extractFramesBySeeking(file, maxFrames, onProgress);
+}
+
+/**
+ * Payload bytes one frame can carry next to its sequence header
+ */
+function getFrameChunkCapacity(frame: VideoFrame): number {
+  const { width, height } = frame.imageData;
+  return Math.max(0, calculateCapacity(width, height) - SEQUENCE_HEADER_SIZE);
+}
+
 /**
  * Calculates total capacity across all frames
  */
 export function calculateVideoCapacity(frames: VideoFrame[]): number {
-  if (frames.length === 0) return 0;
-  const frameCapacity = calculateCapacity(
-    frames[0].imageData.width,
-    frames[0].imageData.height
-  );
-  return frameCapacity;
+  const usableFrames = Math.min(frames.length, MAX_CHUNKS);
+  return frames
+    .slice(0, usableFrames)
+    .reduce((total, frame) => total + getFrameChunkCapacity(frame), 0);
 }
 
 /**
- * Encodes text into video frames (uses first frame only for reliability)
+ * Encodes text into video frames, striping it over as many frames as it needs.
+ * Every carrier frame gets a sequence header so the chunks can be put back in
+ * order whichever frame is read first
  */
 export function encodeTextInFrames(
   frames: VideoFrame[],
@@ -137,66 +275,239 @@ export function encodeTextInFrames(
     throw new Error('No frames to encode');
   }
 
+  const messageBytes = new TextEncoder().encode(secretText);
   const capacity = calculateVideoCapacity(frames);
-  if (secretText.length > capacity) {
+  if (messageBytes.length > capacity) {
     throw new Error(`Text too long. Maximum capacity: ${capacity} characters`);
   }
 
+  // Spread evenly over all frames, but never below MIN_CHUNK_SIZE per frame
+  const frameCapacity = getFrameChunkCapacity(frames[0]);
+  const chunkSize = Math.min(
+    frameCapacity,
+    Math.max(MIN_CHUNK_SIZE, Math.ceil(messageBytes.length / frames.length))
+  );
+  const chunkCount = Math.max(1, Math.ceil(messageBytes.length / chunkSize));
+  const streamId = crypto.getRandomValues(new Uint32Array(1))[0];
+
   const encodedFrames = frames.map((frame, index) => {
-    if (index === 0) {
-      const encodedImageData = encodeText(frame.imageData, secretText);
-      onProgress?.(50 + (50 / frames.length));
-      return { ...frame, imageData: encodedImageData };
-    }
     onProgress?.(50 + ((index + 1) / frames.length) * 50);
-    return frame;
+    if (index >= chunkCount) return frame;
+
+    const data = messageBytes.subarray(index * chunkSize, (index + 1) * chunkSize);
+    const chunk = new Uint8Array(SEQUENCE_HEADER_SIZE + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, streamId, false);
+    view.setUint16(4, index, false);
+    view.setUint16(6, chunkCount, false);
+    chunk.set(data, SEQUENCE_HEADER_SIZE);
+
+    return { ...frame, imageData: encodeChunk(frame.imageData, chunk) };
   });
 
   return encodedFrames;
 }
 
 /**
- * Decodes text from video frames (checks first frame)
+ * Decodes text from video frames, reassembling the chunks by their sequence
+ * headers. Frames may be given in any order
  */
-export function decodeTextFromFrames(frames: VideoFrame[]): string {
+export function decodeTextFromFrames(frames: VideoFrame[], onProgress?: (progress: number) => void): string {
   if (frames.length === 0) {
     throw new Error('No frames to decode');
   }
 
-  try {
-    return decodeText(frames[0].imageData);
-  } catch {
+  // Chunks grouped by stream, in case frames from different encodings are mixed
+  const streams = new Map<number, { count: number; chunks: Map<number, Uint8Array> }>();
+  for (const [frameIndex, frame] of frames.entries()) {
+    onProgress?.(((frameIndex + 1) / frames.length) * 100);
+    const chunk = decodeChunk(frame.imageData);
+    if (!chunk || chunk.length < SEQUENCE_HEADER_SIZE) continue;
+
+    const view = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+    const streamId = view.getUint32(0, false);
+    const index = view.getUint16(4, false);
+    const count = view.getUint16(6, false);
+    if (count === 0 || index >= count) continue;
+
+    const stream = streams.get(streamId) ?? { count, chunks: new Map<number, Uint8Array>() };
+    stream.chunks.set(index, chunk.subarray(SEQUENCE_HEADER_SIZE));
+    streams.set(streamId, stream);
+  }
+
+  if (streams.size === 0) {
+    // Videos encoded before striping hold the whole message in one frame
+    for (const frame of frames) {
+      try {
+        return decodeText(frame.imageData);
+      } catch {
+        // Try the next frame
+      }
+    }
     throw new Error('No hidden message found in this video');
   }
+
+  const stream = [...streams.values()].reduce((best, candidate) =>
+    candidate.chunks.size > best.chunks.size ? candidate : best
+  );
+  if (stream.chunks.size < stream.count) {
+    throw new Error(
+      `Only ${stream.chunks.size} of ${stream.count} frames carrying the hidden message were found`
+    );
+  }
+
+  const parts = Array.from({ length: stream.count }, (_, i) => stream.chunks.get(i) as Uint8Array);
+  const messageBytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    messageBytes.set(part, offset);
+    offset += part.length;
+  }
+  return new TextDecoder('utf-8').decode(messageBytes);
 }
 
 /**
- * Creates a PNG blob from encoded frame for lossless export
+ * Embeds a short watermark into every frame, so it survives lossy re-encoding
+ */
+export function encodeWatermarkInFrames(
+  frames: VideoFrame[],
+  message: string,
+  onProgress?: (progress: number) => void
+): VideoFrame[] {
+  if (frames.length === 0) {
+    throw new Error('No frames to encode');
+  }
+
+  return frames.map((frame, index) => {
+    onProgress?.(50 + ((index + 1) / frames.length) * 50);
+    return { ...frame, imageData: embedWatermark(frame.imageData, message) };
+  });
+}
+
+/**
+ * Reads a watermark from video frames, voting across all of them
+ */
+export function decodeWatermarkFromFrames(
+  frames: VideoFrame[],
+  onProgress?: (progress: number) => void
+): WatermarkResult {
+  if (frames.length === 0) {
+    throw new Error('No frames to decode');
+  }
+  return decodeWatermark(frames.map((frame) => frame.imageData), onProgress);
+}
+
+/**
+ * Muxes encoded frames into a lossless (uncompressed) AVI video
  */
 export async function framesToVideoBlob(
   frames: VideoFrame[],
   fps: number = 30,
   onProgress?: (progress: number) => void
 ): Promise<Blob> {
+  if (frames.length === 0) {
+    throw new Error('No frames to export');
+  }
+
+  // Raw pixels keep every LSB intact, unlike browser video encoders
+  const blob = muxAvi(frames.map((frame) => frame.imageData), fps);
+  onProgress?.(100);
+  return blob;
+}
+
+/**
+ * Records frames into a compressed, shareable video (WebM where supported).
+ * Only watermarks survive this; falls back to lossless AVI without MediaRecorder
+ */
+export async function framesToCompressedVideoBlob(
+  frames: VideoFrame[],
+  fps: number = 30,
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  if (frames.length === 0) {
+    throw new Error('No frames to export');
+  }
+  if (typeof MediaRecorder === 'undefined') {
+    return framesToVideoBlob(frames, fps, onProgress);
+  }
+
   const { canvas, ctx } = createRawCanvas(frames[0].imageData.width, frames[0].imageData.height);
+  // Frames are pushed manually, one per putImageData
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'].find((type) =>
+    MediaRecorder.isTypeSupported(type)
+  );
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
 
-  // Output as lossless PNG to preserve hidden data
-  ctx.putImageData(frames[0].imageData, 0, 0);
-  
-  return new Promise((resolve, reject) => {
-    canvas.toBlob(
-      (blob) => {
-        if (blob) {
-          onProgress?.(100);
-          resolve(blob);
-        } else {
-          reject(new Error('Failed to create output'));
-        }
-      },
-      'image/png',
-      1.0
-    );
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>((resolve, reject) => {
+    recorder.onstop = () => resolve();
+    recorder.onerror = () => reject(new Error('Failed to record video'));
   });
+
+  recorder.start();
+  for (let i = 0; i < frames.length; i++) {
+    ctx.putImageData(frames[i].imageData, 0, 0);
+    track.requestFrame();
+    // MediaRecorder timestamps frames in real time
+    await new Promise((resolve) => setTimeout(resolve, 1000 / fps));
+    onProgress?.(((i + 1) / frames.length) * 100);
+  }
+  recorder.stop();
+  await stopped;
+  track.stop();
+
+  return new Blob(chunks, { type: recorder.mimeType || 'video/webm' });
+}
+
+/**
+ * File extension for a blob produced by the export functions
+ */
+export function getVideoExtension(blob: Blob): string {
+  if (blob.type.includes('mp4')) return 'mp4';
+  if (blob.type.includes('msvideo')) return 'avi';
+  return 'webm';
+}
+
+/**
+ * Whether a file is an AVI video, as exported by framesToVideoBlob
+ */
+export function isAviFile(file: File): boolean {
+  return file.type === 'video/x-msvideo' || file.type === 'video/avi' || /\.avi$/i.test(file.name);
+}
+
+/**
+ * Reads every frame of an uncompressed AVI video bit-exactly
+ */
+export async function extractAviFrames(file: File): Promise<ExtractedVideo> {
+  const { frames, width, height, fps } = demuxAvi(await file.arrayBuffer());
+  const frameRate = fps > 0 ? fps : 30;
+
+  return {
+    frames: frames.map((imageData, i) => ({ imageData, timestamp: i / frameRate })),
+    metadata: {
+      width,
+      height,
+      duration: frames.length / frameRate,
+      frameCount: frames.length,
+      fps: frameRate,
+      frameIndices: frames.map((_, i) => i),
+      frameAccurate: true,
+    },
+  };
+}
+
+/**
+ * Renders a frame as a JPEG data URL for previews
+ */
+export function getFrameThumbnail(frame: VideoFrame): string {
+  const { canvas, ctx } = createRawCanvas(frame.imageData.width, frame.imageData.height);
+  ctx.putImageData(frame.imageData, 0, 0);
+  return canvas.toDataURL('image/jpeg', 0.8);
 }
 
 /**
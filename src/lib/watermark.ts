@@ -0,0 +1,207 @@
+// Compression-resilient watermark in the DCT domain of 8x8 luma blocks
+//
+// Every block carries one bit as the sign of the difference between two
+// mid-frequency coefficients, which lossy codecs mostly keep. The packet is
+// repeated over every block and every frame, and decoding sums the differences
+// (soft voting) before Reed-Solomon repairs whatever bits are still wrong.
+
+import { crc32 } from './crc32';
+import { rsEncodeBlock, rsDecodeBlock, ReedSolomonError } from './reedSolomon';
+
+const BLOCK_SIZE = 8;
+
+// Longest message in bytes (UTF-8)
+export const WATERMARK_MAX_LENGTH = 32;
+
+// Packet: length + message (zero-padded) + CRC-32, then Reed-Solomon parity
+const PACKET_DATA_LENGTH = 1 + WATERMARK_MAX_LENGTH + 4;
+const PACKET_PARITY = 16;
+const PACKET_BITS = (PACKET_DATA_LENGTH + PACKET_PARITY) * 8;
+
+// Minimum coefficient difference after embedding; higher survives harder compression
+const STRENGTH = 24;
+
+// Coefficient pair (row, column): mid frequencies with similar JPEG/H.264 quantisation
+const COEFFICIENT_A: [number, number] = [2, 3];
+const COEFFICIENT_B: [number, number] = [3, 2];
+
+export interface WatermarkResult {
+  message: string;
+  // 0-1: how strongly the votes for each bit agreed, on average
+  confidence: number;
+  // Bytes repaired by Reed-Solomon
+  correctedErrors: number;
+}
+
+/**
+ * Orthonormal 2D DCT-II basis function for frequency (u, v)
+ */
+function dctBasis(u: number, v: number): Float64Array {
+  const scale = (k: number) => (k === 0 ? Math.sqrt(1 / BLOCK_SIZE) : Math.sqrt(2 / BLOCK_SIZE));
+  const basis = new Float64Array(BLOCK_SIZE * BLOCK_SIZE);
+  for (let y = 0; y < BLOCK_SIZE; y++) {
+    for (let x = 0; x < BLOCK_SIZE; x++) {
+      basis[y * BLOCK_SIZE + x] =
+        scale(u) * scale(v) *
+        Math.cos(((2 * y + 1) * u * Math.PI) / (2 * BLOCK_SIZE)) *
+        Math.cos(((2 * x + 1) * v * Math.PI) / (2 * BLOCK_SIZE));
+    }
+  }
+  return basis;
+}
+
+// Projecting a block onto A - B gives the coefficient difference directly, and
+// adding a multiple of it moves the two coefficients apart without touching others
+const DIFFERENCE_BASIS = (() => {
+  const a = dctBasis(...COEFFICIENT_A);
+  const b = dctBasis(...COEFFICIENT_B);
+  return a.map((value, i) => value - b[i]);
+})();
+
+function getBlockCount(width: number, height: number): number {
+  return Math.floor(width / BLOCK_SIZE) * Math.floor(height / BLOCK_SIZE);
+}
+
+/**
+ * Whether a frame is large enough to hold the whole packet at least once
+ */
+export function canWatermark(width: number, height: number): boolean {
+  return getBlockCount(width, height) >= PACKET_BITS;
+}
+
+function luma(data: Uint8ClampedArray, i: number): number {
+  return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+}
+
+/**
+ * Coefficient difference (A - B) of the luma block at the given block position
+ */
+function blockDifference(imageData: ImageData, blockX: number, blockY: number): number {
+  const { data, width } = imageData;
+  let sum = 0;
+  for (let y = 0; y < BLOCK_SIZE; y++) {
+    let i = ((blockY * BLOCK_SIZE + y) * width + blockX * BLOCK_SIZE) * 4;
+    for (let x = 0; x < BLOCK_SIZE; x++, i += 4) {
+      sum += luma(data, i) * DIFFERENCE_BASIS[y * BLOCK_SIZE + x];
+    }
+  }
+  return sum;
+}
+
+function buildPacket(message: string): Uint8Array {
+  const messageBytes = new TextEncoder().encode(message);
+  if (messageBytes.length > WATERMARK_MAX_LENGTH) {
+    throw new Error(`Watermark too long. Maximum: ${WATERMARK_MAX_LENGTH} bytes`);
+  }
+
+  const data = new Uint8Array(PACKET_DATA_LENGTH);
+  data[0] = messageBytes.length;
+  data.set(messageBytes, 1);
+  new DataView(data.buffer).setUint32(1 + WATERMARK_MAX_LENGTH, crc32(data.subarray(0, 1 + WATERMARK_MAX_LENGTH)), false);
+  return rsEncodeBlock(data, PACKET_PARITY);
+}
+
+function getPacketBit(packet: Uint8Array, bit: number): number {
+  return (packet[bit >> 3] >> (7 - (bit & 7))) & 1;
+}
+
+/**
+ * Embeds a short watermark into one frame
+ */
+export function embedWatermark(imageData: ImageData, message: string): ImageData {
+  const { width, height } = imageData;
+  if (!canWatermark(width, height)) {
+    throw new Error('Video is too small to hold a watermark');
+  }
+
+  const packet = buildPacket(message);
+  const output = new ImageData(new Uint8ClampedArray(imageData.data), width, height);
+  const { data } = output;
+  const blocksX = Math.floor(width / BLOCK_SIZE);
+  const blocksY = Math.floor(height / BLOCK_SIZE);
+
+  for (let blockY = 0; blockY < blocksY; blockY++) {
+    for (let blockX = 0; blockX < blocksX; blockX++) {
+      const bit = getPacketBit(packet, (blockY * blocksX + blockX) % PACKET_BITS);
+      const sign = bit ? 1 : -1;
+      const difference = blockDifference(output, blockX, blockY);
+      if (sign * difference >= STRENGTH) continue;
+
+      // Luma delta that moves the difference to exactly sign * STRENGTH; adding
+      // the same delta to R, G and B leaves the chroma alone
+      const amount = (sign * STRENGTH - difference) / 2;
+      for (let y = 0; y < BLOCK_SIZE; y++) {
+        let i = ((blockY * BLOCK_SIZE + y) * width + blockX * BLOCK_SIZE) * 4;
+        for (let x = 0; x < BLOCK_SIZE; x++, i += 4) {
+          const delta = Math.round(amount * DIFFERENCE_BASIS[y * BLOCK_SIZE + x]);
+          data[i] += delta;
+          data[i + 1] += delta;
+          data[i + 2] += delta;
+        }
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Reads a watermark by voting over every block of every frame
+ */
+export function decodeWatermark(
+  frames: ImageData[],
+  onProgress?: (progress: number) => void
+): WatermarkResult {
+  const votes = new Float64Array(PACKET_BITS);
+  const weights = new Float64Array(PACKET_BITS);
+
+  for (const [index, frame] of frames.entries()) {
+    onProgress?.(((index + 1) / frames.length) * 100);
+    if (!canWatermark(frame.width, frame.height)) continue;
+    const blocksX = Math.floor(frame.width / BLOCK_SIZE);
+    const blocksY = Math.floor(frame.height / BLOCK_SIZE);
+    for (let blockY = 0; blockY < blocksY; blockY++) {
+      for (let blockX = 0; blockX < blocksX; blockX++) {
+        const bit = (blockY * blocksX + blockX) % PACKET_BITS;
+        const difference = blockDifference(frame, blockX, blockY);
+        votes[bit] += difference;
+        weights[bit] += Math.abs(difference);
+      }
+    }
+  }
+
+  const notFound = () => new Error('No watermark found in this video');
+  if (weights.every((weight) => weight === 0)) {
+    throw notFound();
+  }
+
+  const packet = new Uint8Array(PACKET_BITS / 8);
+  let agreement = 0;
+  for (let bit = 0; bit < PACKET_BITS; bit++) {
+    if (votes[bit] > 0) {
+      packet[bit >> 3] |= 0x80 >> (bit & 7);
+    }
+    agreement += weights[bit] > 0 ? Math.abs(votes[bit]) / weights[bit] : 0;
+  }
+
+  let decoded;
+  try {
+    decoded = rsDecodeBlock(packet, PACKET_PARITY);
+  } catch (err) {
+    if (err instanceof ReedSolomonError) throw notFound();
+    throw err;
+  }
+
+  const { data } = decoded;
+  const length = data[0];
+  const checksum = new DataView(data.buffer, data.byteOffset).getUint32(1 + WATERMARK_MAX_LENGTH, false);
+  if (length > WATERMARK_MAX_LENGTH || checksum !== crc32(data.subarray(0, 1 + WATERMARK_MAX_LENGTH))) {
+    throw notFound();
+  }
+
+  return {
+    message: new TextDecoder('utf-8').decode(data.subarray(1, 1 + length)),
+    confidence: agreement / PACKET_BITS,
+    correctedErrors: decoded.corrected,
+  };
+}
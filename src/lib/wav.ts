@@ -0,0 +1,118 @@
+// Minimal RIFF/WAVE reader and writer for 16-bit PCM audio
+//
+// Parsing only locates the sample data, so a file can be written back with
+// every byte outside the changed samples left exactly as it was.
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE;
+const FMT_CHUNK_SIZE = 16;
+
+export interface WavInfo {
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  // Byte range of the interleaved samples within the file
+  dataOffset: number;
+  dataLength: number;
+}
+
+function readFourCC(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+function writeFourCC(view: DataView, offset: number, fourcc: string): void {
+  for (let i = 0; i < 4; i++) {
+    view.setUint8(offset + i, fourcc.charCodeAt(i));
+  }
+}
+
+/**
+ * Whether the bytes start like a WAVE file
+ */
+export function isWav(bytes: Uint8Array): boolean {
+  if (bytes.length < 12) return false;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return readFourCC(view, 0) === 'RIFF' && readFourCC(view, 8) === 'WAVE';
+}
+
+/**
+ * Locates the format and sample data of a PCM WAVE file
+ */
+export function parseWav(bytes: Uint8Array): WavInfo {
+  if (!isWav(bytes)) {
+    throw new Error('Not a WAV file');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let format: Omit<WavInfo, 'dataOffset' | 'dataLength'> | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const id = readFourCC(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      let audioFormat = view.getUint16(body, true);
+      // Extensible files carry the real format in the first two bytes of the sub-format GUID
+      if (audioFormat === WAVE_FORMAT_EXTENSIBLE && size >= 40) {
+        audioFormat = view.getUint16(body + 24, true);
+      }
+      if (audioFormat !== WAVE_FORMAT_PCM) {
+        throw new Error('Only uncompressed PCM WAV files are supported');
+      }
+      format = {
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (id === 'data') {
+      if (!format) {
+        throw new Error('WAV file is missing its format chunk');
+      }
+      // Some writers leave the size unset (0 or 0xFFFFFFFF) when streaming
+      const dataLength = size === 0 || body + size > bytes.length ? bytes.length - body : size;
+      return { ...format, dataOffset: body, dataLength };
+    }
+
+    // Chunks are padded to an even size
+    offset = body + size + (size & 1);
+  }
+
+  throw new Error('WAV file has no audio data');
+}
+
+/**
+ * Writes interleaved 16-bit samples as a PCM WAVE file
+ */
+export function encodeWav(samples: Int16Array, channels: number, sampleRate: number): Uint8Array {
+  const dataLength = samples.length * 2;
+  const bytes = new Uint8Array(44 + dataLength);
+  const view = new DataView(bytes.buffer);
+
+  writeFourCC(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeFourCC(view, 8, 'WAVE');
+
+  writeFourCC(view, 12, 'fmt ');
+  view.setUint32(16, FMT_CHUNK_SIZE, true);
+  view.setUint16(20, WAVE_FORMAT_PCM, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * 2, true); // byte rate
+  view.setUint16(32, channels * 2, true); // block align
+  view.setUint16(34, 16, true);
+
+  writeFourCC(view, 36, 'data');
+  view.setUint32(40, dataLength, true);
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(44 + i * 2, samples[i], true);
+  }
+
+  return bytes;
+}
@@ -0,0 +1,124 @@
+// Minimal ZIP archive writer
+//
+// Entries are stored without compression: encoded images are already
+// compressed (or deliberately uncompressed), so deflating them again would
+// cost time for next to no gain.
+
+import { crc32 } from './crc32';
+
+const LOCAL_HEADER_SIGNATURE = 0x04034B50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014B50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054B50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+
+const VERSION = 20; // 2.0, the baseline every unzip tool reads
+const FLAG_UTF8_NAME = 1 << 11;
+const METHOD_STORED = 0;
+// Entry counts and offsets are 16 and 32-bit without the ZIP64 extension
+const MAX_ENTRIES = 0xFFFF;
+const MAX_ARCHIVE_SIZE = 0xFFFFFFFF;
+
+export interface ZipEntry {
+  name: string;
+  bytes: Uint8Array;
+}
+
+/**
+ * Date and time in MS-DOS format, as stored in ZIP headers (local time, 2 s resolution)
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Makes entry names unique by numbering repeats: photo.png, photo (2).png, ...
+ */
+export function uniqueZipNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name) => {
+    let candidate = name;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      const dot = name.lastIndexOf('.');
+      candidate = dot > 0 ? `${name.slice(0, dot)} (${n})${name.slice(dot)}` : `${name} (${n})`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
+
+/**
+ * Packs files into a ZIP archive
+ */
+export function createZip(entries: ZipEntry[], modified = new Date()): Uint8Array {
+  if (entries.length > MAX_ENTRIES) {
+    throw new Error(`A ZIP archive holds at most ${MAX_ENTRIES} files`);
+  }
+
+  const encoder = new TextEncoder();
+  const names = entries.map((entry) => encoder.encode(entry.name));
+  const dataSize = entries.reduce(
+    (sum, entry, i) => sum + LOCAL_HEADER_SIZE + names[i].length + entry.bytes.length,
+    0
+  );
+  const directorySize = names.reduce((sum, name) => sum + CENTRAL_HEADER_SIZE + name.length, 0);
+  const totalSize = dataSize + directorySize + END_OF_CENTRAL_DIRECTORY_SIZE;
+  if (totalSize > MAX_ARCHIVE_SIZE) {
+    throw new Error('The files are too large for one ZIP archive');
+  }
+
+  const output = new Uint8Array(totalSize);
+  const view = new DataView(output.buffer);
+  const { time, date } = toDosDateTime(modified);
+
+  // Fields shared by the local and central headers, from "version needed" on
+  const writeCommonFields = (offset: number, name: Uint8Array, checksum: number, size: number): void => {
+    view.setUint16(offset, VERSION, true);
+    view.setUint16(offset + 2, FLAG_UTF8_NAME, true);
+    view.setUint16(offset + 4, METHOD_STORED, true);
+    view.setUint16(offset + 6, time, true);
+    view.setUint16(offset + 8, date, true);
+    view.setUint32(offset + 10, checksum, true);
+    view.setUint32(offset + 14, size, true); // compressed size
+    view.setUint32(offset + 18, size, true); // uncompressed size
+    view.setUint16(offset + 22, name.length, true);
+  };
+
+  const localOffsets: number[] = [];
+  const checksums: number[] = [];
+  let offset = 0;
+  entries.forEach((entry, i) => {
+    localOffsets.push(offset);
+    checksums.push(crc32(entry.bytes));
+    view.setUint32(offset, LOCAL_HEADER_SIGNATURE, true);
+    writeCommonFields(offset + 4, names[i], checksums[i], entry.bytes.length);
+    // Extra field length at offset + 28 stays 0
+    output.set(names[i], offset + LOCAL_HEADER_SIZE);
+    output.set(entry.bytes, offset + LOCAL_HEADER_SIZE + names[i].length);
+    offset += LOCAL_HEADER_SIZE + names[i].length + entry.bytes.length;
+  });
+
+  const directoryOffset = offset;
+  entries.forEach((entry, i) => {
+    view.setUint32(offset, CENTRAL_HEADER_SIGNATURE, true);
+    view.setUint16(offset + 4, VERSION, true); // version made by
+    writeCommonFields(offset + 6, names[i], checksums[i], entry.bytes.length);
+    // Extra, comment, disk number and attribute fields stay 0
+    view.setUint32(offset + 42, localOffsets[i], true);
+    output.set(names[i], offset + CENTRAL_HEADER_SIZE);
+    offset += CENTRAL_HEADER_SIZE + names[i].length;
+  });
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  view.setUint16(offset + 8, entries.length, true); // entries on this disk
+  view.setUint16(offset + 10, entries.length, true); // entries in total
+  view.setUint32(offset + 12, directorySize, true);
+  view.setUint32(offset + 16, directoryOffset, true);
+
+  return output;
+}
@@ -1,21 +1,28 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Shield, Eye, EyeOff, Github, Info, Image, Film } from 'lucide-react';
-import { ModeToggle } from '@/components/ModeToggle';
+import { Shield, Eye, EyeOff, Github, Info, Image, Film, Music } from 'lucide-react';
+import { ModeToggle, Mode } from '@/components/ModeToggle';
 import { EncodePanel } from '@/components/EncodePanel';
 import { DecodePanel } from '@/components/DecodePanel';
+import { AnalyzePanel } from '@/components/AnalyzePanel';
 import { VideoEncodePanel } from '@/components/VideoEncodePanel';
 import { VideoDecodePanel } from '@/components/VideoDecodePanel';
+import { AudioEncodePanel } from '@/components/AudioEncodePanel';
+import { AudioDecodePanel } from '@/components/AudioDecodePanel';
 import { MediaTypeToggle, MediaType } from '@/components/MediaTypeToggle';
 import { HeroBackground } from '@/components/HeroBackground';
 import { UserMenu } from '@/components/UserMenu';
 
-type Mode = 'encode' | 'decode';
-
 const Index = () => {
   const [mode, setMode] = useState<Mode>('encode');
   const [mediaType, setMediaType] = useState<MediaType>('image');
 
+  // Steganalysis only covers images
+  const handleMediaTypeChange = (type: MediaType) => {
+    setMediaType(type);
+    if (type !== 'image' && mode === 'analyze') setMode('decode');
+  };
+
   return (
     <div className="min-h-screen relative">
       <HeroBackground />
@@ -46,7 +53,7 @@ const Index = () => {
           </h1>
           
           <p className="text-lg text-muted-foreground max-w-md mx-auto">
-            Hide secret messages within images and videos using advanced LSB steganography. 
+            Hide secret messages within images, videos and audio using advanced LSB steganography. 
             Your data stays private—no servers, no traces.
           </p>
         </motion.header>
@@ -59,11 +66,15 @@ const Index = () => {
           className="card-gradient rounded-2xl border border-border shadow-card p-6 md:p-8"
         >
           {/* Media Type Toggle */}
-          <MediaTypeToggle mediaType={mediaType} onMediaTypeChange={setMediaType} />
+          <MediaTypeToggle mediaType={mediaType} onMediaTypeChange={handleMediaTypeChange} />
 
           {/* Mode Toggle */}
           <div className="mb-8">
-            <ModeToggle mode={mode} onModeChange={setMode} />
+            <ModeToggle
+              mode={mode}
+              onModeChange={setMode}
+              modes={mediaType === 'image' ? undefined : ['encode', 'decode']}
+            />
           </div>
 
           {/* Panel Content */}
@@ -76,9 +87,11 @@ const Index = () => {
               transition={{ duration: 0.2 }}
             >
               {mediaType === 'image' ? (
-                mode === 'encode' ? <EncodePanel /> : <DecodePanel />
-              ) : (
+                mode === 'encode' ? <EncodePanel /> : mode === 'decode' ? <DecodePanel /> : <AnalyzePanel />
+              ) : mediaType === 'video' ? (
                 mode === 'encode' ? <VideoEncodePanel /> : <VideoDecodePanel />
+              ) : (
+                mode === 'encode' ? <AudioEncodePanel /> : <AudioDecodePanel />
               )}
             </motion.div>
           </AnimatePresence>
@@ -105,7 +118,7 @@ const Index = () => {
             {
               icon: Shield,
               title: 'Secure',
-              description: 'PNG output ensures lossless encoding',
+              description: 'Lossless PNG, WebP, BMP or TIFF output',
             },
           ].map((feature, index) => (
             <motion.div
@@ -143,15 +156,25 @@ const Index = () => {
               <p className="text-sm text-muted-foreground leading-relaxed">
                 <span className="text-foreground font-medium">Image Steganography:</span>{' '}
                 Uses <span className="text-primary font-medium">LSB (Least Significant Bit)</span> technique 
-                to embed text into pixel RGB values. The output is a lossless PNG to preserve data integrity.
+                to embed text into pixel RGB values. The output is a lossless PNG to preserve data integrity
+                (16-bit PNGs keep their full samples and hold up to 8 bits per channel),
+                or a JPEG that carries the data in its DCT coefficients (F5 matrix encoding).
               </p>
             </div>
             <div className="flex items-start gap-3">
               <Film className="w-4 h-4 text-primary flex-shrink-0 mt-0.5" />
               <p className="text-sm text-muted-foreground leading-relaxed">
                 <span className="text-foreground font-medium">Video Steganography:</span>{' '}
-                Extracts video frames and applies LSB encoding to the first frame. 
-                Outputs as PNG to prevent compression from destroying hidden data.
+                Extracts video frames and spreads the message over their LSBs. Outputs a lossless
+                AVI so compression can't destroy the hidden data, or embeds a compression-resistant watermark.
+              </p>
+            </div>
+            <div className="flex items-start gap-3">
+              <Music className="w-4 h-4 text-primary flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-muted-foreground leading-relaxed">
+                <span className="text-foreground font-medium">Audio Steganography:</span>{' '}
+                Hides data in the lowest bit of 16-bit PCM samples. The output is a WAV file that
+                is identical to the original apart from those bits.
               </p>
             </div>
           </div>
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import {
+  encodeAudioPayload,
+  decodeAudioMessage,
+  calculateAudioCapacity,
+  describeAudio,
+  AudioCarrier,
+} from "@/lib/audioSteganography";
+import { EncryptedPayloadError } from "@/lib/steganography";
+import { encodeWav, parseWav } from "@/lib/wav";
+
+function createAudio(bytes: Uint8Array): AudioCarrier {
+  const info = parseWav(bytes);
+  const sampleCount = info.dataLength / 2;
+  return { bytes, info, sampleCount, duration: sampleCount / info.channels / info.sampleRate, converted: false };
+}
+
+function createTone(sampleCount: number): AudioCarrier {
+  const samples = new Int16Array(sampleCount).map((_, i) => Math.round(8000 * Math.sin(i / 7)));
+  return createAudio(encodeWav(samples, 2, 44100));
+}
+
+// jsdom's Blob has no arrayBuffer()
+function readBlob(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+describe("audio steganography", () => {
+  it("hides a message in the lowest bit of the samples only", async () => {
+    const audio = createTone(20000);
+    const bytes = await readBlob(await encodeAudioPayload(audio, { type: "text", text: "in the noise floor" }));
+    expect(bytes).toHaveLength(audio.bytes.length);
+
+    const changes = Array.from(bytes).flatMap((byte, i) => (byte === audio.bytes[i] ? [] : [i]));
+    expect(changes.length).toBeGreaterThan(0);
+    for (const index of changes) {
+      expect(index).toBeGreaterThanOrEqual(audio.info.dataOffset);
+      // Little-endian samples: only low bytes change, and only in their last bit
+      expect((index - audio.info.dataOffset) % 2).toBe(0);
+      expect(bytes[index] ^ audio.bytes[index]).toBe(1);
+    }
+
+    const result = await decodeAudioMessage(createAudio(bytes));
+    expect(result.payload).toEqual({ type: "text", text: "in the noise floor" });
+    expect(result.integrity).toBe("verified");
+  });
+
+  it("seals a message with a passphrase", async () => {
+    const blob = await encodeAudioPayload(createTone(20000), { type: "text", text: "sealed" }, { passphrase: "pw" });
+    const encoded = createAudio(await readBlob(blob));
+
+    await expect(decodeAudioMessage(encoded)).rejects.toBeInstanceOf(EncryptedPayloadError);
+    await expect(decodeAudioMessage(encoded, { passphrase: "wrong" })).rejects.toThrow(
+      "Incorrect passphrase or the payload has been tampered with"
+    );
+    expect((await decodeAudioMessage(encoded, { passphrase: "pw" })).payload).toEqual({ type: "text", text: "sealed" });
+  });
+
+  it("holds up to its capacity", async () => {
+    const audio = createTone(3000);
+    const capacity = calculateAudioCapacity(audio);
+    const text = "a".repeat(capacity);
+
+    const encoded = createAudio(await readBlob(await encodeAudioPayload(audio, { type: "text", text })));
+    expect((await decodeAudioMessage(encoded)).payload).toEqual({ type: "text", text });
+    await expect(encodeAudioPayload(audio, { type: "text", text: `${text}a` })).rejects.toThrow();
+  });
+
+  it("describes the carrier", () => {
+    expect(describeAudio(createTone(44100 * 2 * 3))).toBe("3.0s, stereo, 44.1 kHz, 16-bit PCM");
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { muxAvi, demuxAvi } from "@/lib/avi";
+import { encodeTextInFrames, decodeTextFromFrames } from "@/lib/videoSteganography";
+
+function createFrame(width: number, height: number, seed: number): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4).map((_, i) => (i % 4 === 3 ? 128 : (i * 29 + seed) & 0xFF));
+  return new ImageData(data, width, height);
+}
+
+// jsdom's Blob has no arrayBuffer()
+function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+function rgbOf(frame: ImageData): number[] {
+  return Array.from(frame.data).filter((_, i) => i % 4 !== 3);
+}
+
+describe("AVI", () => {
+  it("keeps every RGB bit and the frame rate through a round trip", async () => {
+    // A width of 5 pads every stored row
+    const frames = [0, 1, 2].map((seed) => createFrame(5, 3, seed));
+    const blob = muxAvi(frames, 29.97);
+    expect(blob.type).toBe("video/x-msvideo");
+
+    const video = demuxAvi(await readBlob(blob));
+    expect(video).toMatchObject({ width: 5, height: 3, fps: 29.97 });
+    expect(video.frames.map(rgbOf)).toEqual(frames.map(rgbOf));
+    // Alpha is not stored
+    expect(video.frames[0].data[3]).toBe(255);
+  });
+
+  it("carries a message hidden in the frames", async () => {
+    const frames = [0, 1, 2, 3].map((seed) => ({ imageData: createFrame(40, 30, seed), timestamp: seed / 25 }));
+    const encoded = encodeTextInFrames(frames, "hidden in a video");
+
+    const video = demuxAvi(await readBlob(muxAvi(encoded.map((frame) => frame.imageData), 25)));
+    const decoded = video.frames.map((imageData, i) => ({ imageData, timestamp: i / video.fps }));
+    expect(decodeTextFromFrames(decoded)).toBe("hidden in a video");
+  });
+
+  it("rejects empty or mixed-size frames and other files", async () => {
+    expect(() => muxAvi([], 25)).toThrow("No frames to write");
+    expect(() => muxAvi([createFrame(4, 4, 0), createFrame(4, 5, 0)], 25)).toThrow(
+      "All frames must have the same size"
+    );
+    expect(() => demuxAvi(new Uint8Array(64).buffer)).toThrow("Not an AVI file");
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { renderBitPlanes } from "@/lib/bitPlanes";
+import { encodePayload, getPayloadRegion, EncodeOptions } from "@/lib/steganography";
+
+/**
+ * A cover whose low bits are all clear or all set. Some pixels are half
+ * transparent, so they carry no alpha bit
+ */
+function createFlatCover(width: number, height: number, lowBits: 0 | 1): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    data.fill(lowBits ? 0x8F : 0x80, pixel * 4, pixel * 4 + 3);
+    data[pixel * 4 + 3] = pixel % 3 === 2 ? 128 : 254 + lowBits;
+  }
+  return new ImageData(data, width, height);
+}
+
+/** Pixels up to the last one the encoder changed in either of two opposite covers */
+async function countWrittenPixels(options: EncodeOptions, text: string): Promise<number> {
+  let written = 0;
+  for (const lowBits of [0, 1] as const) {
+    const cover = createFlatCover(80, 80, lowBits);
+    const image = await encodePayload(new ImageData(cover.data.slice(), 80, 80), { type: "text", text }, options);
+    for (let i = 0; i < image.data.length; i++) {
+      if (image.data[i] !== cover.data[i]) written = Math.max(written, Math.floor(i / 4) + 1);
+    }
+  }
+  return written;
+}
+
+describe("getPayloadRegion", () => {
+  it.each([
+    ["at 1 bit per channel", {}],
+    ["at 3 bits per channel", { bitsPerChannel: 3 }],
+    ["with error correction", { bitsPerChannel: 2, eccLevel: "high" as const }],
+    ["in alpha too", { alpha: true }],
+    ["encrypted, at 2 bits per channel and in alpha", { passphrase: "region", bitsPerChannel: 2, alpha: true }],
+  ])("covers header and body of a STEGO3 payload %s", async (_, options) => {
+    const text = "A message long enough to run well past the header. ".repeat(6);
+    const image = await encodePayload(createFlatCover(80, 80, 0), { type: "text", text }, options);
+
+    expect(getPayloadRegion(image)).toEqual({
+      format: "STEGO3",
+      pixels: await countWrittenPixels(options, text),
+    });
+  });
+
+  it("labels a legacy message STEGO1", () => {
+    const image = createFlatCover(40, 40, 0);
+    const bytes = new TextEncoder().encode("STEGO1\0\0\0\x05hello");
+    bytes.forEach((byte, i) => {
+      for (let bit = 0; bit < 8; bit++) {
+        const channel = i * 8 + bit;
+        const index = Math.floor(channel / 3) * 4 + (channel % 3);
+        image.data[index] = (image.data[index] & 0xFE) | ((byte >> (7 - bit)) & 1);
+      }
+    });
+    expect(getPayloadRegion(image)).toEqual({ format: "STEGO1", pixels: Math.ceil((15 * 8) / 3) });
+  });
+
+  it("finds nothing in a clean image or a scattered payload", async () => {
+    const cover = createFlatCover(80, 80, 0);
+    expect(getPayloadRegion(cover)).toBeNull();
+
+    const scattered = await encodePayload(
+      new ImageData(cover.data.slice(), 80, 80),
+      { type: "text", text: "scattered" },
+      { scatterKey: "key" }
+    );
+    expect(getPayloadRegion(scattered)).toBeNull();
+  });
+});
+
+describe("renderBitPlanes", () => {
+  it("marks the bits that differ from the original and tints the payload region", () => {
+    const original = createFlatCover(4, 1, 0);
+    const image = new ImageData(original.data.slice(), 4, 1);
+    image.data[0] ^= 1;
+    image.data[8] ^= 1;
+
+    const view = renderBitPlanes(image, "red", 0, { original, highlightPixels: 2 });
+    const colors = (plane: ImageData) =>
+      [0, 1, 2, 3].map((pixel) => Array.from(plane.data.slice(pixel * 4, pixel * 4 + 4)));
+    expect(view.differences).toBe(2);
+    expect(colors(view.plane)).toEqual([
+      [230, 38, 38, 255],
+      [8, 69, 63, 255],
+      [230, 38, 38, 255],
+      [0, 0, 0, 255],
+    ]);
+    expect(colors(view.originalPlane as ImageData)).toEqual([
+      [8, 69, 63, 255],
+      [8, 69, 63, 255],
+      [0, 0, 0, 255],
+      [0, 0, 0, 255],
+    ]);
+  });
+
+  it("renders a single plane without an original", () => {
+    const view = renderBitPlanes(createFlatCover(2, 1, 1), "alpha", 0);
+    expect(view.originalPlane).toBeNull();
+    expect(view.differences).toBe(0);
+    expect(Array.from(view.plane.data)).toEqual([255, 255, 255, 255, 255, 255, 255, 255]);
+  });
+});
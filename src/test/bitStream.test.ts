@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { BitReader } from "@/lib/bitStream";
+import { encodeMessage, decodeMessage } from "@/lib/steganography";
+
+describe("BitReader", () => {
+  it("reads groups of bits most significant first, across byte boundaries", () => {
+    const reader = new BitReader(new Uint8Array([0b10111010, 0b10101110]));
+    expect([3, 2, 1, 7, 3].map((count) => reader.read(count))).toEqual([0b101, 0b11, 0b0, 0b1010101, 0b110]);
+    expect(reader.remaining).toBe(0);
+  });
+
+  it("reads 32 bits as an unsigned number", () => {
+    const reader = new BitReader(new Uint8Array([0xDE, 0xAD, 0xBE, 0xEF]));
+    expect(reader.read(32)).toBe(0xDEADBEEF);
+  });
+
+  it("pads with zero bits past the end", () => {
+    const reader = new BitReader(new Uint8Array([0b10100000]));
+    expect(reader.read(3)).toBe(0b101);
+    expect(reader.remaining).toBe(5);
+    expect(reader.read(8)).toBe(0);
+    expect(reader.remaining).toBe(0);
+  });
+});
+
+describe("bit embedding", () => {
+  function createCover(width: number, height: number): ImageData {
+    const data = new Uint8ClampedArray(width * height * 4).map((_, i) => (i % 4 === 3 ? 255 : (i * 29) & 0xFE));
+    return new ImageData(data, width, height);
+  }
+
+  it("writes the header one bit per colour channel, in pixel and channel order", async () => {
+    const image = await encodeMessage(createCover(40, 40), "in order");
+    // The low bits of R, G and B of the first pixels spell the magic
+    const bits = Array.from({ length: 48 }, (_, n) => image.data[Math.floor(n / 3) * 4 + (n % 3)] & 1);
+    const magic = Array.from({ length: 6 }, (_, byte) =>
+      String.fromCharCode(bits.slice(byte * 8, byte * 8 + 8).reduce((value, bit) => (value << 1) | bit, 0))
+    );
+    expect(magic.join("")).toBe("STEGO3");
+    // Alpha is left alone
+    expect(Array.from(image.data).filter((_, i) => i % 4 === 3).every((alpha) => alpha === 255)).toBe(true);
+  });
+
+  it.each([1, 3])("reads back a body whose last group is padded, at %i bits per channel", async (bitsPerChannel) => {
+    for (const text of ["a", "ab", "abc", "abcd"]) {
+      const image = await encodeMessage(createCover(40, 40), text, { bitsPerChannel });
+      expect((await decodeMessage(image)).payload).toEqual({ type: "text", text });
+    }
+  });
+});
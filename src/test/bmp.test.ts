@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { encodeBmp, decodeBmp, isBmp } from "@/lib/bmp";
+import { encodeMessage, decodeMessage } from "@/lib/steganography";
+
+function createImage(width: number, height: number, transparent: boolean): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4).map((_, i) => (i * 37 + (i >> 7)) & 0xFF);
+  if (!transparent) for (let i = 3; i < data.length; i += 4) data[i] = 255;
+  return new ImageData(data, width, height);
+}
+
+describe("BMP", () => {
+  it.each([
+    [1, 1],
+    [3, 5],
+    [17, 9],
+  ])("round-trips a %ix%i image, with and without transparency", (width, height) => {
+    for (const transparent of [false, true]) {
+      const image = createImage(width, height, transparent);
+      const bytes = encodeBmp(image);
+      expect(isBmp(bytes)).toBe(true);
+      // 24-bit rows padded to 4 bytes, or 32-bit pixels after a V4 header
+      expect(new DataView(bytes.buffer).getUint16(28, true)).toBe(transparent ? 32 : 24);
+
+      const decoded = decodeBmp(bytes);
+      expect([decoded.width, decoded.height]).toEqual([width, height]);
+      expect(Array.from(decoded.data)).toEqual(Array.from(image.data));
+    }
+  });
+
+  it("reads top-down files", () => {
+    const image = createImage(3, 2, false);
+    const bytes = encodeBmp(image);
+    const view = new DataView(bytes.buffer);
+    const offset = view.getUint32(10, true);
+    // Swap the two 12-byte rows and mark the height as top-down
+    const rows = [bytes.slice(offset, offset + 12), bytes.slice(offset + 12, offset + 24)];
+    bytes.set(rows[1], offset);
+    bytes.set(rows[0], offset + 12);
+    view.setInt32(22, -2, true);
+
+    expect(Array.from(decodeBmp(bytes).data)).toEqual(Array.from(image.data));
+  });
+
+  it("carries a hidden message", async () => {
+    const image = await encodeMessage(createImage(60, 60, false), "kept in a bitmap", { bitsPerChannel: 2 });
+    const result = await decodeMessage(decodeBmp(encodeBmp(image)));
+    expect(result.payload).toEqual({ type: "text", text: "kept in a bitmap" });
+  });
+
+  it("rejects compressed and truncated files", () => {
+    const bytes = encodeBmp(createImage(4, 4, false));
+    expect(() => decodeBmp(bytes.subarray(0, bytes.length - 1))).toThrow("BMP file is truncated");
+
+    new DataView(bytes.buffer).setUint32(30, 1, true);
+    expect(() => decodeBmp(bytes)).toThrow("Only uncompressed 24 and 32-bit BMP images are supported");
+    expect(() => decodeBmp(new Uint8Array(32))).toThrow("Not a BMP file");
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { compressBytes, decompressBytes } from "@/lib/compression";
+import { preparePayload, encodeMessage, decodeMessage, calculateCapacity, PayloadFlags } from "@/lib/steganography";
+
+function createCover(width: number, height: number, seed = 1): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let state = seed;
+  for (let i = 0; i < data.length; i++) {
+    // xorshift32
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    data[i] = i % 4 === 3 ? 255 : state;
+  }
+  return new ImageData(data, width, height);
+}
+
+function createNoise(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let state = 7;
+  for (let i = 0; i < length; i++) {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    bytes[i] = state & 0xFF;
+  }
+  return bytes;
+}
+
+describe("compressBytes", () => {
+  it("round-trips through decompressBytes", async () => {
+    const text = new TextEncoder().encode("Compress me, compress me again. ".repeat(50));
+    const compressed = await compressBytes(text);
+    expect(compressed.length).toBeLessThan(text.length / 5);
+    expect(Array.from(await decompressBytes(compressed))).toEqual(Array.from(text));
+  });
+
+  it("round-trips incompressible and empty input", async () => {
+    for (const bytes of [createNoise(2000), new Uint8Array(0)]) {
+      expect(Array.from(await decompressBytes(await compressBytes(bytes)))).toEqual(Array.from(bytes));
+    }
+  });
+
+  it("refuses a corrupted stream", async () => {
+    const compressed = await compressBytes(new TextEncoder().encode("intact ".repeat(20)));
+    await expect(decompressBytes(compressed.slice(0, compressed.length - 6))).rejects.toThrow(
+      "Compressed payload is corrupted"
+    );
+  });
+});
+
+describe("compressed payloads", () => {
+  it("set the COMPRESSED flag when compression saves space", async () => {
+    const text = "A repetitive message. ".repeat(40);
+    const prepared = await preparePayload({ type: "text", text }, { compress: true });
+    expect(prepared.flags & PayloadFlags.COMPRESSED).toBeTruthy();
+    expect(prepared.body.length).toBeLessThan(text.length);
+  });
+
+  it.each([
+    ["short text", { type: "text" as const, text: "hi" }],
+    [
+      "random bytes",
+      { type: "file" as const, name: "noise.bin", mimeType: "application/octet-stream", bytes: createNoise(500) },
+    ],
+  ])("keep %s as it is when compression would not shrink it", async (_, payload) => {
+    const plain = await preparePayload(payload);
+    const prepared = await preparePayload(payload, { compress: true });
+    expect(prepared.flags & PayloadFlags.COMPRESSED).toBe(0);
+    expect(Array.from(prepared.body)).toEqual(Array.from(plain.body));
+  });
+
+  it("leave the flag off without the option", async () => {
+    const prepared = await preparePayload({ type: "text", text: "A repetitive message. ".repeat(40) });
+    expect(prepared.flags & PayloadFlags.COMPRESSED).toBe(0);
+  });
+
+  it("decode a compressed message that would not fit uncompressed", async () => {
+    const text = "Fits once deflated. ".repeat(Math.ceil(calculateCapacity(40, 40) / 10));
+    await expect(encodeMessage(createCover(40, 40), text)).rejects.toThrow("Text too long");
+    const image = await encodeMessage(createCover(40, 40), text, { compress: true });
+    expect((await decodeMessage(image)).payload).toEqual({ type: "text", text });
+  });
+});
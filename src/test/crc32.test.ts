@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { crc32 } from "@/lib/crc32";
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xCBF43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  it("continues a checksum over data read in chunks", () => {
+    const bytes = new Uint8Array(1000).map((_, i) => (i * 7) & 0xFF);
+    const chunked = [0, 1, 300, 999].reduce(
+      (crc, start, i, starts) => crc32(bytes.subarray(start, starts[i + 1] ?? bytes.length), crc),
+      0
+    );
+    expect(chunked).toBe(crc32(bytes));
+  });
+
+  it("changes with any flipped bit", () => {
+    const bytes = new TextEncoder().encode("integrity");
+    const original = crc32(bytes);
+    bytes[4] ^= 0x10;
+    expect(crc32(bytes)).not.toBe(original);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { parseCsv } from "@/lib/csv";
+
+describe("parseCsv", () => {
+  it("splits rows and fields", () => {
+    expect(parseCsv("file,message\na.png,hello\nb.png,")).toEqual([
+      ["file", "message"],
+      ["a.png", "hello"],
+      ["b.png", ""],
+    ]);
+  });
+
+  it("reads quoted fields holding separators, line breaks and quotes", () => {
+    expect(parseCsv('a.png,"hello, ""world""\r\nsecond line"\r\nb.png,""')).toEqual([
+      ["a.png", 'hello, "world"\r\nsecond line'],
+      ["b.png", ""],
+    ]);
+  });
+
+  it("skips blank lines and a byte order mark but keeps a row of one empty quoted field", () => {
+    expect(parseCsv('\uFEFFfile\r\n\r\n\n""\nlast\n')).toEqual([["file"], [""], ["last"]]);
+  });
+
+  it("takes another separator", () => {
+    expect(parseCsv("a.png;one, two\nb.png;three", ";")).toEqual([
+      ["a.png", "one, two"],
+      ["b.png", "three"],
+    ]);
+  });
+
+  it("rejects an unterminated quoted field", () => {
+    expect(() => parseCsv('a.png,"never closed\n')).toThrow("CSV file has an unterminated quoted field");
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { inflateZlib } from "@/lib/inflate";
+import { compressBytes } from "@/lib/compression";
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (const byte of bytes) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/** A zlib stream of stored (uncompressed) blocks, one per part */
+function createStoredStream(parts: Uint8Array[]): Uint8Array {
+  const bytes: number[] = [0x78, 0x01];
+  parts.forEach((part, index) => {
+    const final = index === parts.length - 1 ? 1 : 0;
+    bytes.push(final, part.length & 0xFF, part.length >> 8, ~part.length & 0xFF, (~part.length >> 8) & 0xFF);
+    bytes.push(...part);
+  });
+  const joined = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    joined.set(part, offset);
+    offset += part.length;
+  }
+  const checksum = adler32(joined);
+  bytes.push(checksum >>> 24, (checksum >> 16) & 0xFF, (checksum >> 8) & 0xFF, checksum & 0xFF);
+  return new Uint8Array(bytes);
+}
+
+/** Type of the first deflate block: 0 stored, 1 fixed and 2 dynamic Huffman codes */
+function getBlockType(stream: Uint8Array): number {
+  return (stream[2] >> 1) & 3;
+}
+
+/** Text that repeats with variations, so deflate uses both literals and back-references */
+function createText(length: number): Uint8Array {
+  const words = ["carrier", "payload", "pixel", "header", "parity", "seal", "the", "of"];
+  let text = "";
+  for (let i = 0; text.length < length; i++) text += words[(i * 7 + (i >> 3)) % words.length] + (i % 11 ? " " : ".\n");
+  return new TextEncoder().encode(text.slice(0, length));
+}
+
+describe("inflateZlib", () => {
+  it("joins stored blocks", () => {
+    const parts = [new Uint8Array([1, 2, 3]), new Uint8Array(0), new Uint8Array(300).map((_, i) => i)];
+    const output = inflateZlib(createStoredStream(parts));
+    expect(Array.from(output)).toEqual([1, 2, 3, ...Array.from(parts[2])]);
+  });
+
+  it("decodes fixed Huffman codes", async () => {
+    const input = new TextEncoder().encode("abcabcabcabc, hidden in plain sight");
+    const stream = await compressBytes(input);
+    expect(getBlockType(stream)).toBe(1);
+    expect(Array.from(inflateZlib(stream))).toEqual(Array.from(input));
+  });
+
+  it("decodes dynamic Huffman codes across long back-references", async () => {
+    const input = createText(100000);
+    const stream = await compressBytes(input);
+    expect(getBlockType(stream)).toBe(2);
+    // A small size hint makes the output grow as it goes
+    expect(Array.from(inflateZlib(stream, 16))).toEqual(Array.from(input));
+  });
+
+  it("rejects a stream whose checksum does not match", async () => {
+    const stream = await compressBytes(createText(1000));
+    stream[stream.length - 1] ^= 1;
+    expect(() => inflateZlib(stream)).toThrow("Compressed data is corrupted");
+    expect(() => inflateZlib(stream.subarray(0, stream.length - 10))).toThrow("Compressed data is corrupted");
+    expect(() => inflateZlib(new Uint8Array([0x78, 0x02, 0, 0, 0, 0]))).toThrow("Compressed data is corrupted");
+  });
+
+  it("stops at the output limit", async () => {
+    const stream = await compressBytes(new Uint8Array(5000));
+    expect(inflateZlib(stream, 0, 5000).length).toBe(5000);
+    expect(() => inflateZlib(stream, 0, 4999)).toThrow("Decompressed data is too large");
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { decodeJpeg, encodeJpeg, isJpeg, JpegImage } from "@/lib/jpeg";
+import { encodeJpegPayload, decodeJpegMessage, calculateJpegCapacity } from "@/lib/jpegSteganography";
+
+/**
+ * A baseline JPEG built from coefficients: 2x2 subsampled luma and two chroma
+ * components, with mostly small AC values as in real photos
+ */
+function createJpeg(width: number, height: number, seed = 1): JpegImage {
+  let state = seed;
+  const random = () => {
+    // xorshift32
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 2 ** 32;
+  };
+
+  const dqt = new Uint8Array([0xFF, 0xDB, 0, 67, 0, ...new Array(64).fill(4)]);
+  const sof = new Uint8Array([
+    0xFF, 0xC0, 0, 17, 8, height >> 8, height & 0xFF, width >> 8, width & 0xFF, 3,
+    1, 0x22, 0,
+    2, 0x11, 0,
+    3, 0x11, 0,
+  ]);
+  const mcusPerLine = Math.ceil(width / 16);
+  const mcusPerColumn = Math.ceil(height / 16);
+  const components = [
+    { id: 1, h: 2, v: 2 },
+    { id: 2, h: 1, v: 1 },
+    { id: 3, h: 1, v: 1 },
+  ].map(({ id, h, v }) => {
+    const blocksPerLine = mcusPerLine * h;
+    const blocksPerColumn = mcusPerColumn * v;
+    const coefficients = new Int16Array(blocksPerLine * blocksPerColumn * 64);
+    for (let i = 0; i < coefficients.length; i++) {
+      const k = i % 64;
+      const spread = k === 0 ? 200 : 24 / k;
+      coefficients[i] = Math.round((random() - 0.5) * 2 * spread);
+    }
+    return { id, h, v, blocksPerLine, blocksPerColumn, coefficients };
+  });
+  return { width, height, components, segments: [dqt, sof] };
+}
+
+// jsdom's Blob has no arrayBuffer()
+function readBlob(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+describe("JPEG codec", () => {
+  it("writes coefficients that read back unchanged", () => {
+    const image = createJpeg(40, 24);
+    const bytes = encodeJpeg(image);
+    expect(isJpeg(bytes)).toBe(true);
+
+    const decoded = decodeJpeg(bytes);
+    expect(decoded).toMatchObject({ width: 40, height: 24 });
+    expect(decoded.components.map((component) => Array.from(component.coefficients))).toEqual(
+      image.components.map((component) => Array.from(component.coefficients))
+    );
+    expect(Array.from(encodeJpeg(decoded))).toEqual(Array.from(bytes));
+  });
+
+  it("rejects progressive and non-JPEG files", () => {
+    const bytes = encodeJpeg(createJpeg(16, 16));
+    const sof = bytes.findIndex((byte, i) => byte === 0xFF && bytes[i + 1] === 0xC0);
+    bytes[sof + 1] = 0xC2;
+    expect(() => decodeJpeg(bytes)).toThrow("Progressive JPEGs are not supported");
+    expect(() => decodeJpeg(new Uint8Array([0x89, 0x50, 0x4E, 0x47]))).toThrow("Not a JPEG file");
+  });
+});
+
+describe("JPEG steganography", () => {
+  it.each([
+    ["a plain message", {}],
+    ["a sealed, scattered message", { passphrase: "correct horse", scatterKey: "key" }],
+  ])("hides %s in the coefficients", async (_, options) => {
+    const image = createJpeg(96, 96);
+    const text = "hidden in the DCT domain";
+    const bytes = await readBlob(await encodeJpegPayload(image, { type: "text", text }, options));
+
+    const result = await decodeJpegMessage(decodeJpeg(bytes), options);
+    expect(result.payload).toEqual({ type: "text", text });
+    expect(result.integrity).toBe("verified");
+  });
+
+  it("fits a message close to the capacity it estimates", async () => {
+    // Shrinkage makes the capacity an estimate
+    const image = createJpeg(64, 64);
+    const text = "x".repeat(Math.floor(calculateJpegCapacity(image) * 0.9));
+    const bytes = await readBlob(await encodeJpegPayload(image, { type: "text", text }));
+    expect((await decodeJpegMessage(decodeJpeg(bytes))).payload).toEqual({ type: "text", text });
+  });
+
+  it("finds nothing in a clean JPEG and refuses text that can't fit", async () => {
+    const image = createJpeg(64, 64);
+    await expect(decodeJpegMessage(image)).rejects.toThrow("No hidden message");
+    const text = "y".repeat(calculateJpegCapacity(image) * 3);
+    await expect(encodeJpegPayload(image, { type: "text", text })).rejects.toThrow("Text too long");
+  });
+});
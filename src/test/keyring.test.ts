@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  KeyringIdentity,
+  exportPublicKeys,
+  exportPrivateKeys,
+  parsePublicKeyFile,
+  parsePrivateKeyFile,
+  loadIdentity,
+  saveIdentity,
+} from "@/lib/keyring";
+import { generateSigningKeyPair, getKeyFingerprint } from "@/lib/signing";
+import { generateEncryptionKeyPair, sealForRecipients, openAsRecipient } from "@/lib/recipientCrypto";
+
+async function createIdentity(name: string): Promise<KeyringIdentity> {
+  const keyPair = await generateSigningKeyPair(name);
+  return {
+    name,
+    ...keyPair,
+    fingerprint: await getKeyFingerprint(keyPair.publicKey),
+    encryptionKey: await generateEncryptionKeyPair(name),
+  };
+}
+
+describe("keyring", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("gives an identity separate signing and encryption keys", async () => {
+    const identity = await createIdentity("Alice");
+    expect(identity.encryptionKey.publicKey.x).not.toBe(identity.publicKey.x);
+
+    const contact = await parsePublicKeyFile(exportPublicKeys(identity), "fallback");
+    expect(contact).toEqual({
+      name: "Alice",
+      publicKey: { kty: "EC", crv: "P-256", x: identity.publicKey.x, y: identity.publicKey.y, kid: "Alice" },
+      fingerprint: identity.fingerprint,
+      encryptionKey: {
+        kty: "EC",
+        crv: "P-256",
+        x: identity.encryptionKey.publicKey.x,
+        y: identity.encryptionKey.publicKey.y,
+        kid: "Alice",
+      },
+    });
+
+    // What a contact encrypts to the exported key opens with the backed up one
+    const restored = await parsePrivateKeyFile(exportPrivateKeys(identity), "fallback");
+    const sealed = await sealForRecipients(new Uint8Array([1, 2, 3]), [contact.encryptionKey!]);
+    expect(Array.from(await openAsRecipient(sealed, restored.encryptionKey.privateKey))).toEqual([1, 2, 3]);
+    expect(restored.fingerprint).toBe(identity.fingerprint);
+  });
+
+  it("reads a lone JWK as a contact's signing key", async () => {
+    const { publicKey } = await generateSigningKeyPair("Bob");
+    const contact = await parsePublicKeyFile(JSON.stringify(publicKey), "fallback");
+    expect(contact.name).toBe("Bob");
+    expect(contact.encryptionKey).toBeUndefined();
+  });
+
+  it("refuses a public key file as a backup", async () => {
+    const identity = await createIdentity("Carol");
+    await expect(parsePrivateKeyFile(exportPublicKeys(identity), "fallback")).rejects.toThrow(
+      "This is a public key. Restore from the private key backup instead."
+    );
+  });
+
+  it("refuses a backup without an encryption key", async () => {
+    const { privateKey } = await generateSigningKeyPair("Dave");
+    await expect(parsePrivateKeyFile(JSON.stringify(privateKey), "fallback")).rejects.toThrow(
+      "Key backup holds no encryption key"
+    );
+  });
+
+  it("stores and forgets the identity", async () => {
+    const identity = await createIdentity("Erin");
+    saveIdentity(identity);
+    expect(loadIdentity()).toEqual(identity);
+    saveIdentity(null);
+    expect(loadIdentity()).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { sealBytes, openBytes, ENCRYPTION_OVERHEAD } from "@/lib/payloadCrypto";
+
+const plaintext = new TextEncoder().encode("meet at the usual place");
+
+describe("sealBytes", () => {
+  it("opens with the passphrase it was sealed with", async () => {
+    const sealed = await sealBytes(plaintext, "correct horse");
+    expect(sealed).toHaveLength(plaintext.length + ENCRYPTION_OVERHEAD);
+    // WebCrypto hands back Node's Uint8Array, not jsdom's
+    expect(Array.from(await openBytes(sealed, "correct horse"))).toEqual(Array.from(plaintext));
+  });
+
+  it("records PBKDF2-SHA256 and its iteration count in the header", async () => {
+    const sealed = await sealBytes(plaintext, "correct horse");
+    expect(sealed[0]).toBe(1);
+    expect(new DataView(sealed.buffer).getUint32(1, false)).toBe(250000);
+  });
+
+  it("uses a fresh salt and IV every time", async () => {
+    const [first, second] = await Promise.all([sealBytes(plaintext, "same"), sealBytes(plaintext, "same")]);
+    expect(Array.from(first.slice(5, 33))).not.toEqual(Array.from(second.slice(5, 33)));
+  });
+});
+
+describe("openBytes", () => {
+  it("refuses a wrong passphrase", async () => {
+    const sealed = await sealBytes(plaintext, "correct horse");
+    await expect(openBytes(sealed, "battery staple")).rejects.toThrow(
+      "Incorrect passphrase or the payload has been tampered with"
+    );
+  });
+
+  it("refuses a ciphertext with a flipped bit", async () => {
+    const sealed = await sealBytes(plaintext, "correct horse");
+    sealed[sealed.length - 20] ^= 0x01;
+    await expect(openBytes(sealed, "correct horse")).rejects.toThrow(
+      "Incorrect passphrase or the payload has been tampered with"
+    );
+  });
+
+  it("rejects truncated payloads and unknown key derivation", async () => {
+    await expect(openBytes(new Uint8Array(ENCRYPTION_OVERHEAD - 1), "x")).rejects.toThrow(
+      "Encrypted payload is truncated"
+    );
+
+    const sealed = await sealBytes(plaintext, "x");
+    sealed[0] = 2;
+    await expect(openBytes(sealed, "x")).rejects.toThrow("Unsupported key derivation function (2)");
+    sealed[0] = 1;
+    new DataView(sealed.buffer).setUint32(1, 0, false);
+    await expect(openBytes(sealed, "x")).rejects.toThrow("Invalid key derivation parameters");
+  });
+});
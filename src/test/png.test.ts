@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import { decodePng, decodePng16, encodePng, getPngBitDepth, isPng, ImageData16 } from "@/lib/png";
+import { crc32 } from "@/lib/crc32";
+import { compressBytes } from "@/lib/compression";
+import { encodePayload, decodeMessage } from "@/lib/steganography";
+
+interface Chunk {
+  type: string;
+  data: ArrayLike<number>;
+}
+
+/** A PNG of the given chunks, with IHDR first and IEND last */
+async function createPng(
+  width: number,
+  height: number,
+  bitDepth: number,
+  colorType: number,
+  raw: number[],
+  { interlaced = false, chunks = [] as Chunk[] } = {}
+): Promise<Uint8Array> {
+  const header = new Uint8Array(13);
+  new DataView(header.buffer).setUint32(0, width);
+  new DataView(header.buffer).setUint32(4, height);
+  header.set([bitDepth, colorType, 0, 0, interlaced ? 1 : 0], 8);
+  const all = [
+    { type: "IHDR", data: header },
+    ...chunks,
+    { type: "IDAT", data: await compressBytes(new Uint8Array(raw)) },
+    { type: "IEND", data: [] },
+  ];
+
+  const bytes = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+  for (const { type, data } of all) {
+    const body = [...type].map((char) => char.charCodeAt(0)).concat(Array.from(data));
+    const checksum = crc32(new Uint8Array(body));
+    const length = data.length;
+    bytes.push(length >>> 24, (length >> 16) & 0xFF, (length >> 8) & 0xFF, length & 0xFF, ...body);
+    bytes.push(checksum >>> 24, (checksum >> 16) & 0xFF, (checksum >> 8) & 0xFF, checksum & 0xFF);
+  }
+  return new Uint8Array(bytes);
+}
+
+function createImage(width: number, height: number, transparent: boolean): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4).map((_, i) => (i * 37 + (i >> 5) * 11) & 0xFF);
+  if (!transparent) for (let i = 3; i < data.length; i += 4) data[i] = 255;
+  return new ImageData(data, width, height);
+}
+
+function createImage16(width: number, height: number): ImageData16 {
+  const data = new Uint16Array(width * height * 4).map((_, i) => (i * 2654435761) >>> 16);
+  return { width, height, data };
+}
+
+/** The red sample of every pixel */
+function reds(image: { data: ArrayLike<number> }): number[] {
+  return Array.from(image.data).filter((_, i) => i % 4 === 0);
+}
+
+describe("PNG", () => {
+  it.each([
+    [1, 1],
+    [3, 5],
+    [17, 9],
+  ])("round-trips a %ix%i image, with and without transparency", async (width, height) => {
+    for (const transparent of [false, true]) {
+      const image = createImage(width, height, transparent);
+      const bytes = await encodePng(image);
+      expect(isPng(bytes)).toBe(true);
+      // Colour type 2 is RGB and 6 RGBA
+      expect(bytes[25]).toBe(transparent ? 6 : 2);
+
+      const decoded = decodePng(bytes);
+      expect([decoded.width, decoded.height]).toEqual([width, height]);
+      expect(Array.from(decoded.data)).toEqual(Array.from(image.data));
+    }
+  });
+
+  it("keeps every bit of 16-bit samples", async () => {
+    const image = createImage16(9, 7);
+    const bytes = await encodePng(image);
+    expect(getPngBitDepth(bytes)).toBe(16);
+
+    expect(Array.from(decodePng16(bytes).data)).toEqual(Array.from(image.data));
+    // The 8-bit decode keeps the high byte
+    expect(Array.from(decodePng(bytes).data)).toEqual(Array.from(image.data).map((sample) => sample >> 8));
+  });
+
+  it("scales low-depth grayscale up and ignores colour chunks", async () => {
+    // One 2-bit row of 0, 1, 2 and 3, then the same with the Up filter
+    const bytes = await createPng(4, 2, 2, 0, [0, 0b00011011, 2, 0], {
+      chunks: [{ type: "gAMA", data: [0, 0, 0xB1, 0x8F] }],
+    });
+    expect(reds(decodePng(bytes))).toEqual([0, 85, 170, 255, 0, 85, 170, 255]);
+    expect(reds(decodePng16(bytes))).toEqual([0, 21845, 43690, 65535, 0, 21845, 43690, 65535]);
+  });
+
+  it("looks up palette colours and their transparency", async () => {
+    const bytes = await createPng(3, 1, 8, 3, [0, 2, 0, 1], {
+      chunks: [
+        { type: "PLTE", data: [10, 20, 30, 40, 50, 60, 70, 80, 90] },
+        { type: "tRNS", data: [0, 128] },
+      ],
+    });
+    expect(Array.from(decodePng(bytes).data)).toEqual([70, 80, 90, 255, 10, 20, 30, 0, 40, 50, 60, 128]);
+  });
+
+  it("puts the Adam7 passes of an interlaced image back in place", async () => {
+    const width = 5;
+    const height = 5;
+    const passes = [
+      [0, 0, 8, 8],
+      [4, 0, 8, 8],
+      [0, 4, 4, 8],
+      [2, 0, 4, 4],
+      [0, 2, 2, 4],
+      [1, 0, 2, 2],
+      [0, 1, 1, 2],
+    ];
+    const raw: number[] = [];
+    for (const [x0, y0, dx, dy] of passes) {
+      if (x0 >= width || y0 >= height) continue;
+      for (let y = y0; y < height; y += dy) {
+        raw.push(0);
+        for (let x = x0; x < width; x += dx) raw.push(y * width + x);
+      }
+    }
+    const bytes = await createPng(width, height, 8, 0, raw, { interlaced: true });
+    expect(reds(decodePng(bytes))).toEqual(Array.from({ length: width * height }, (_, i) => i));
+  });
+
+  it("rejects corrupted and truncated files", async () => {
+    const bytes = await encodePng(createImage(8, 8, false));
+    // Cut inside the IDAT chunk
+    expect(() => decodePng(bytes.subarray(0, bytes.length - 20))).toThrow("PNG file is truncated");
+
+    bytes[40] ^= 1;
+    expect(() => decodePng(bytes)).toThrow("PNG file is corrupted");
+    expect(() => decodePng(new Uint8Array(16))).toThrow("Not a PNG file");
+  });
+
+  it("carries a hidden message in the low byte of 16-bit samples", async () => {
+    const image = createImage16(48, 32);
+    const text = "sixteen bits deep ".repeat(40);
+    const encoded = await encodePayload(image, { type: "text", text }, { bitsPerChannel: 8, passphrase: "deep" });
+    // The high bytes of colour samples are left alone
+    for (let i = 0; i < image.data.length; i++) {
+      if (i % 4 !== 3) expect(encoded.data[i] >> 8).toBe(image.data[i] >> 8);
+    }
+
+    const result = await decodeMessage(decodePng16(await encodePng(encoded)), { passphrase: "deep" });
+    expect(result.payload).toEqual({ type: "text", text });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  generateEncryptionKeyPair,
+  sealForRecipients,
+  openAsRecipient,
+  getRecipientsOverhead,
+  NotARecipientError,
+} from "@/lib/recipientCrypto";
+import { encodeMessage, decodeMessage } from "@/lib/steganography";
+
+const plaintext = new TextEncoder().encode("for alice and bob");
+
+function createCover(width: number, height: number): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4).map((_, i) => (i % 4 === 3 ? 255 : (i * 37) & 0xFF));
+  return new ImageData(data, width, height);
+}
+
+describe("sealForRecipients", () => {
+  it("opens for every recipient and no one else", async () => {
+    const [alice, bob, carol] = await Promise.all(["Alice", "Bob", "Carol"].map(generateEncryptionKeyPair));
+    const sealed = await sealForRecipients(plaintext, [alice.publicKey, bob.publicKey]);
+    expect(sealed).toHaveLength(plaintext.length + getRecipientsOverhead(2));
+
+    // WebCrypto hands back Node's Uint8Array, not jsdom's
+    expect(Array.from(await openAsRecipient(sealed, alice.privateKey))).toEqual(Array.from(plaintext));
+    expect(Array.from(await openAsRecipient(sealed, bob.privateKey))).toEqual(Array.from(plaintext));
+    await expect(openAsRecipient(sealed, carol.privateKey)).rejects.toBeInstanceOf(NotARecipientError);
+  });
+
+  it("refuses a changed ciphertext or recipient header", async () => {
+    const alice = await generateEncryptionKeyPair("Alice");
+    const sealed = await sealForRecipients(plaintext, [alice.publicKey]);
+
+    const changedBody = sealed.slice();
+    changedBody[changedBody.length - 1] ^= 1;
+    await expect(openAsRecipient(changedBody, alice.privateKey)).rejects.toThrow(
+      "Could not open the payload with your key, it may have been tampered with"
+    );
+
+    // The wrapped content key, which the GCM tag also authenticates
+    const changedKey = sealed.slice();
+    changedKey[1 + 65 + 1 + 8] ^= 1;
+    await expect(openAsRecipient(changedKey, alice.privateKey)).rejects.toThrow(
+      "Could not open the payload with your key, it may have been tampered with"
+    );
+  });
+
+  it("rejects malformed headers and an empty recipient list", async () => {
+    const alice = await generateEncryptionKeyPair("Alice");
+    await expect(openAsRecipient(new Uint8Array(20), alice.privateKey)).rejects.toThrow(
+      "Recipient header is malformed"
+    );
+    await expect(sealForRecipients(plaintext, [])).rejects.toThrow("At least one recipient is required");
+  });
+});
+
+describe("images encrypted to recipients", () => {
+  it("open with a recipient's private key", async () => {
+    const [alice, bob] = await Promise.all(["Alice", "Bob"].map(generateEncryptionKeyPair));
+    const image = await encodeMessage(createCover(100, 100), "for alice", { recipients: [alice.publicKey] });
+
+    const result = await decodeMessage(image, { privateKey: alice.privateKey });
+    expect(result.payload).toEqual({ type: "text", text: "for alice" });
+    expect(result.encryption).toBe("recipients");
+
+    await expect(decodeMessage(image, { privateKey: bob.privateKey })).rejects.toBeInstanceOf(NotARecipientError);
+    await expect(decodeMessage(image)).rejects.toThrow(
+      "This image is encrypted to specific recipients. Set up your key pair to open it."
+    );
+  });
+
+  it("take either a passphrase or recipients", async () => {
+    const alice = await generateEncryptionKeyPair("Alice");
+    await expect(
+      encodeMessage(createCover(100, 100), "both", { passphrase: "x", recipients: [alice.publicKey] })
+    ).rejects.toThrow("Encrypt with either a passphrase or recipients, not both");
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  rsEncodeBlock,
+  rsDecodeBlock,
+  eccEncode,
+  eccDecode,
+  getEccEncodedLength,
+  getEccMessageCapacity,
+  ReedSolomonError,
+} from "@/lib/reedSolomon";
+
+function createMessage(length: number): Uint8Array {
+  return new Uint8Array(length).map((_, i) => (i * 31 + 7) & 0xFF);
+}
+
+describe("rsDecodeBlock", () => {
+  it("leaves an intact block alone", () => {
+    const message = createMessage(40);
+    const codeword = rsEncodeBlock(message, 16);
+    expect(codeword).toHaveLength(56);
+    expect(Array.from(codeword.subarray(0, 40))).toEqual(Array.from(message));
+
+    const result = rsDecodeBlock(codeword, 16);
+    expect(Array.from(result.data)).toEqual(Array.from(message));
+    expect(result.corrected).toBe(0);
+  });
+
+  it("corrects up to half as many bytes as it has parity", () => {
+    const message = createMessage(100);
+    const codeword = rsEncodeBlock(message, 16);
+    for (let i = 0; i < 8; i++) codeword[i * 13] ^= 0xA5;
+
+    const result = rsDecodeBlock(codeword, 16);
+    expect(Array.from(result.data)).toEqual(Array.from(message));
+    expect(result.corrected).toBe(8);
+  });
+
+  it("repairs damaged parity bytes too", () => {
+    const message = createMessage(30);
+    const codeword = rsEncodeBlock(message, 8);
+    codeword[32] ^= 0xFF;
+    codeword[37] ^= 0x01;
+    expect(Array.from(rsDecodeBlock(codeword, 8).data)).toEqual(Array.from(message));
+  });
+
+  it("gives up past its limit", () => {
+    const codeword = rsEncodeBlock(createMessage(100), 16);
+    for (let i = 0; i < 9; i++) codeword[i * 11] ^= 0x5A;
+    expect(() => rsDecodeBlock(codeword, 16)).toThrow(ReedSolomonError);
+  });
+});
+
+describe("eccEncode", () => {
+  it.each([0, 1, 239, 240, 600, 3000])("round-trips %i bytes", (length) => {
+    const message = createMessage(length);
+    const encoded = eccEncode(message, 16);
+    expect(encoded).toHaveLength(getEccEncodedLength(length, 16));
+    expect(Array.from(eccDecode(encoded, 16).data)).toEqual(Array.from(message));
+  });
+
+  it("spreads a run of damaged bytes over its blocks", () => {
+    // 3000 bytes make 13 blocks, each able to repair 8 bytes
+    const message = createMessage(3000);
+    const encoded = eccEncode(message, 16);
+    for (let i = 1000; i < 1000 + 13 * 8; i++) encoded[i] ^= 0xFF;
+
+    const result = eccDecode(encoded, 16);
+    expect(Array.from(result.data)).toEqual(Array.from(message));
+    expect(result.corrected).toBe(13 * 8);
+  });
+
+  it("fails on a run longer than the blocks can repair together", () => {
+    const encoded = eccEncode(createMessage(3000), 16);
+    for (let i = 1000; i < 1000 + 13 * 8 + 1; i++) encoded[i] ^= 0xFF;
+    expect(() => eccDecode(encoded, 16)).toThrow(ReedSolomonError);
+  });
+
+  it("sizes message capacities to the largest message that fits", () => {
+    for (const capacity of [100, 255, 256, 1000, 5000]) {
+      const length = getEccMessageCapacity(capacity, 32);
+      expect(getEccEncodedLength(length, 32)).toBeLessThanOrEqual(capacity);
+      expect(getEccEncodedLength(length + 1, 32)).toBeGreaterThan(capacity);
+    }
+    expect(getEccMessageCapacity(10, 16)).toBe(0);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { createPixelOrder } from "@/lib/scatter";
+import { encodeMessage, decodeMessage } from "@/lib/steganography";
+
+function createCover(width: number, height: number, seed = 1): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let state = seed;
+  for (let i = 0; i < data.length; i++) {
+    // xorshift32
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    data[i] = i % 4 === 3 ? 255 : state;
+  }
+  return new ImageData(data, width, height);
+}
+
+describe("createPixelOrder", () => {
+  it("visits every pixel exactly once", async () => {
+    const order = await createPixelOrder("key", 1000);
+    expect(order).toHaveLength(1000);
+    expect(Array.from(order).sort((a, b) => a - b)).toEqual(Array.from({ length: 1000 }, (_, i) => i));
+  });
+
+  it("gives the same order for the same key", async () => {
+    const first = await createPixelOrder("key", 1000);
+    const second = await createPixelOrder("key", 1000);
+    expect(Array.from(first)).toEqual(Array.from(second));
+  });
+
+  it("gives a different order for another key", async () => {
+    const first = await createPixelOrder("key", 1000);
+    const second = await createPixelOrder("another key", 1000);
+    expect(Array.from(first)).not.toEqual(Array.from(second));
+  });
+
+  it("shuffles rather than keeping the pixels in place", async () => {
+    const order = await createPixelOrder("key", 1000);
+    const unmoved = Array.from(order).filter((pixel, index) => pixel === index).length;
+    expect(unmoved).toBeLessThan(10);
+  });
+});
+
+describe("scattered messages", () => {
+  it("decodes with the key it was scattered with", async () => {
+    const image = await encodeMessage(createCover(60, 60), "scattered", { scatterKey: "right key" });
+    const result = await decodeMessage(image, { scatterKey: "right key" });
+    expect(result.payload).toEqual({ type: "text", text: "scattered" });
+  });
+
+  it("finds nothing with the wrong key or without one", async () => {
+    const image = await encodeMessage(createCover(60, 60), "scattered", { scatterKey: "right key" });
+    await expect(decodeMessage(image, { scatterKey: "wrong key" })).rejects.toThrow(
+      "No hidden message found in this image"
+    );
+    await expect(decodeMessage(image)).rejects.toThrow("No hidden message found in this image");
+  });
+});
@@ -13,3 +13,16 @@ Object.defineProperty(window, "matchMedia", {
     dispatchEvent: () => {},
   }),
 });
+
+// jsdom only provides ImageData with the optional canvas package
+if (typeof globalThis.ImageData === "undefined") {
+  class ImageDataPolyfill {
+    readonly colorSpace = "srgb";
+    constructor(
+      readonly data: Uint8ClampedArray,
+      readonly width: number,
+      readonly height: number
+    ) {}
+  }
+  Object.defineProperty(globalThis, "ImageData", { writable: true, value: ImageDataPolyfill });
+}
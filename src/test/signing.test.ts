@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  generateSigningKeyPair,
+  getKeyFingerprint,
+  signPayload,
+  verifyPayload,
+  toPublicJwk,
+  SIGNATURE_BLOCK_SIZE,
+  TrustedKey,
+} from "@/lib/signing";
+import { encodeMessage, decodeMessage, CONTAINER_HEADER_SIZE } from "@/lib/steganography";
+
+const message = new TextEncoder().encode("sealed by alice");
+
+async function createTrustedKey(name: string) {
+  const keyPair = await generateSigningKeyPair(name);
+  const trusted: TrustedKey = {
+    name,
+    publicKey: keyPair.publicKey,
+    fingerprint: await getKeyFingerprint(keyPair.publicKey),
+  };
+  return { ...keyPair, trusted };
+}
+
+function createCover(width: number, height: number): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4).map((_, i) => (i % 4 === 3 ? 255 : (i * 37) & 0xFF));
+  return new ImageData(data, width, height);
+}
+
+describe("signatures", () => {
+  it("name a trusted signer", async () => {
+    const alice = await createTrustedKey("Alice");
+    const block = await signPayload(message, alice.privateKey);
+    expect(block).toHaveLength(SIGNATURE_BLOCK_SIZE);
+
+    expect(await verifyPayload(message, block, [alice.trusted])).toEqual({
+      state: "trusted",
+      signer: "Alice",
+      fingerprint: alice.trusted.fingerprint,
+    });
+  });
+
+  it("give the fingerprint of an unknown signer", async () => {
+    const alice = await createTrustedKey("Alice");
+    const bob = await createTrustedKey("Bob");
+    const block = await signPayload(message, alice.privateKey);
+
+    expect(await verifyPayload(message, block, [bob.trusted])).toEqual({
+      state: "untrusted",
+      fingerprint: alice.trusted.fingerprint,
+    });
+    expect(alice.trusted.fingerprint).toMatch(/^[0-9a-f]{4}( [0-9a-f]{4}){3}$/);
+  });
+
+  it("trust a signer only when the whole key matches, not just the fingerprint", async () => {
+    const alice = await createTrustedKey("Alice");
+    const bob = await createTrustedKey("Bob");
+    const block = await signPayload(message, alice.privateKey);
+
+    // A key that shares Alice's short fingerprint must not pass as hers
+    const impostor = { ...bob.trusted, fingerprint: alice.trusted.fingerprint };
+    expect(await verifyPayload(message, block, [impostor])).toEqual({
+      state: "untrusted",
+      fingerprint: alice.trusted.fingerprint,
+    });
+  });
+
+  it("are invalid for a changed message or signature", async () => {
+    const alice = await createTrustedKey("Alice");
+    const block = await signPayload(message, alice.privateKey);
+
+    const changed = message.slice();
+    changed[0] ^= 1;
+    expect(await verifyPayload(changed, block, [alice.trusted])).toEqual({ state: "invalid" });
+
+    const forged = block.slice();
+    forged[SIGNATURE_BLOCK_SIZE - 1] ^= 1;
+    expect(await verifyPayload(message, forged, [alice.trusted])).toEqual({ state: "invalid" });
+    expect(await verifyPayload(message, block.subarray(1), [alice.trusted])).toEqual({ state: "invalid" });
+  });
+
+  it("accept only P-256 keys", () => {
+    expect(() => toPublicJwk({ kty: "OKP", crv: "Ed25519", x: "abc" })).toThrow("Only P-256 keys are supported");
+  });
+});
+
+describe("signed images", () => {
+  it("report their signer", async () => {
+    const alice = await createTrustedKey("Alice");
+    const image = await encodeMessage(createCover(80, 80), "signed message", {
+      signingKey: alice.privateKey,
+      passphrase: "correct horse",
+    });
+
+    const trusted = await decodeMessage(image, { passphrase: "correct horse", trustedKeys: [alice.trusted] });
+    expect(trusted.payload).toEqual({ type: "text", text: "signed message" });
+    expect(trusted.signature).toEqual({ state: "trusted", signer: "Alice", fingerprint: alice.trusted.fingerprint });
+
+    const untrusted = await decodeMessage(image, { passphrase: "correct horse" });
+    expect(untrusted.signature.state).toBe("untrusted");
+  });
+
+  it("report a changed payload's signature as invalid", async () => {
+    const alice = await createTrustedKey("Alice");
+    const image = await encodeMessage(createCover(80, 80), "abcdefgh", { signingKey: alice.privateKey });
+    // The red LSB of the first pixel after the header
+    image.data[Math.ceil((CONTAINER_HEADER_SIZE * 8) / 3) * 4] ^= 1;
+
+    const result = await decodeMessage(image, { trustedKeys: [alice.trusted] });
+    expect(result.integrity).toBe("corrupted");
+    expect(result.signature).toEqual({ state: "invalid" });
+  });
+
+  it("report unsigned payloads", async () => {
+    const result = await decodeMessage(await encodeMessage(createCover(80, 80), "anonymous"));
+    expect(result.signature).toEqual({ state: "unsigned" });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { analyzeImage } from "@/lib/steganalysis";
+import { encodeMessage, calculateCapacity } from "@/lib/steganography";
+
+/**
+ * A screenshot-like cover: a flat background, a panel of text lines, a gradient
+ * and a noisy photo. Unlike smooth noise, it has the uneven histograms real
+ * images have, which the chi-square attack relies on
+ */
+function createScreenshot(width: number, height: number, seed = 7): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let state = seed;
+  const random = () => {
+    // xorshift32
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 2 ** 32;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let rgb = [246, 247, 249];
+      if (y >= height * 0.15 && y < height * 0.55 && x >= width * 0.05 && x < width * 0.6) {
+        const isTextLine = y % 12 < 4;
+        const shade = (x % 5) * 20;
+        rgb = isTextLine && random() < 0.35 ? [40 + shade, 44 + shade, 52 + shade] : [255, 255, 255];
+      } else if (y >= height * 0.15 && y < height * 0.55 && x >= width * 0.65 && x < width * 0.95) {
+        const t = (x - width * 0.65) / (width * 0.3);
+        rgb = [30 + 200 * t, 90 + 60 * t, 200];
+      } else if (y >= height * 0.6 && y < height * 0.95 && x >= width * 0.05 && x < width * 0.95) {
+        const noise = () => (random() - 0.5) * 12;
+        rgb = [
+          120 + 60 * Math.sin(x / 13) * Math.cos(y / 9) + noise(),
+          100 + 50 * Math.cos(x / 21) + noise(),
+          90 + 40 * Math.sin((x + y) / 17) + noise(),
+        ];
+      }
+      data.set(rgb.map(Math.round), (y * width + x) * 4);
+      data[(y * width + x) * 4 + 3] = 255;
+    }
+  }
+  return new ImageData(data, width, height);
+}
+
+/** Hides an encrypted message, which reads as random bits, filling the given share of the capacity */
+async function embedShare(image: ImageData, share: number): Promise<ImageData> {
+  const capacity = calculateCapacity(image.width, image.height, { encrypted: true });
+  return encodeMessage(image, "x".repeat(Math.floor(capacity * share)), { passphrase: "analysis" });
+}
+
+describe("analyzeImage", () => {
+  it("finds no sign of embedding in an unmodified image", () => {
+    const analysis = analyzeImage(createScreenshot(256, 256));
+    expect(analysis.verdict).toBe("clean");
+    expect(analysis.embeddingRate).toBeLessThan(0.1);
+  });
+
+  it("reports an image with half its capacity used as likely carrying data", async () => {
+    const analysis = analyzeImage(await embedShare(createScreenshot(256, 256), 0.5));
+    expect(analysis.verdict).toBe("likely");
+  });
+
+  it("reports a full image as likely carrying data", async () => {
+    const analysis = analyzeImage(await embedShare(createScreenshot(256, 256), 1));
+    expect(analysis.verdict).toBe("likely");
+    expect(analysis.embeddingRate).toBeGreaterThan(0.6);
+  });
+
+  it("estimates more embedding the more of the image is used", async () => {
+    const cover = createScreenshot(256, 256);
+    const rates = [];
+    for (const share of [0.25, 0.5, 1]) {
+      rates.push(analyzeImage(await embedShare(new ImageData(cover.data.slice(), 256, 256), share)).embeddingRate);
+    }
+    expect(rates[0]).toBeLessThan(rates[1] as number);
+    expect(rates[1]).toBeLessThan(rates[2] as number);
+  });
+
+  it("allows for the wider scatter of estimates on small images", () => {
+    // Small clean images read higher rates than large ones
+    expect(analyzeImage(createScreenshot(150, 103)).verdict).toBe("clean");
+  });
+
+  it("leaves out channels without an estimate instead of counting them as clean", () => {
+    // A single column has no pixel groups or pairs to estimate from
+    const data = new Uint8ClampedArray(200 * 4).map((_, i) => (i * 37) & 0xFF);
+    const analysis = analyzeImage(new ImageData(data, 1, 200));
+    expect(analysis.channels.map((channel) => channel.embeddingRate)).toEqual([null, null, null]);
+    expect(analysis.embeddingRate).toBeNull();
+  });
+});
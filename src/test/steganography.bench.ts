@@ -0,0 +1,80 @@
+import { bench, describe } from "vitest";
+import { encodePayload, decodeMessage, calculateCapacity } from "@/lib/steganography";
+import { SecretPayload } from "@/lib/payload";
+
+// Run with `npm run bench`. Each case fills the image to 90% of its capacity,
+// so the embedding and extraction loops visit nearly every pixel
+const RESOLUTIONS = {
+  "4K": { width: 3840, height: 2160 },
+  "8K": { width: 7680, height: 4320 },
+};
+const BITS_PER_CHANNEL = [1, 4];
+const FILL = 0.9;
+
+// Full-size images take a while per run, a few samples are enough
+const OPTIONS = { iterations: 3, time: 0, warmupIterations: 1, warmupTime: 0 };
+
+function createNoise(length: number, seed: number): Uint8ClampedArray {
+  const bytes = new Uint8ClampedArray(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    // xorshift32
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    bytes[i] = state;
+  }
+  return bytes;
+}
+
+function createCover(width: number, height: number): ImageData {
+  const data = createNoise(width * height * 4, 0x9e3779b9);
+  for (let i = 3; i < data.length; i += 4) {
+    data[i] = 255;
+  }
+  return new ImageData(data, width, height);
+}
+
+function createPayload(size: number): SecretPayload {
+  const bytes = new Uint8Array(createNoise(size, 0x85ebca6b).buffer);
+  return { type: "file", name: "payload.bin", mimeType: "application/octet-stream", bytes };
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / 1e6).toFixed(1)} MB`;
+}
+
+for (const [label, { width, height }] of Object.entries(RESOLUTIONS)) {
+  const cover = createCover(width, height);
+
+  for (const bitsPerChannel of BITS_PER_CHANNEL) {
+    // Leaves room for the file name and type stored with the bytes
+    const size = Math.floor(calculateCapacity(width, height, { bitsPerChannel }) * FILL);
+    const payload = createPayload(size);
+    const options = { bitsPerChannel };
+    let encoded: ImageData | null = null;
+
+    const bits = `${bitsPerChannel} bit${bitsPerChannel > 1 ? "s" : ""} per channel`;
+    describe(`${label} (${width}×${height}), ${bits}, ${formatMegabytes(size)}`, () => {
+      bench(
+        "embed",
+        async () => {
+          encoded = await encodePayload(cover, payload, options);
+        },
+        OPTIONS
+      );
+
+      bench(
+        "extract",
+        async () => {
+          encoded ??= await encodePayload(cover, payload, options);
+          const result = await decodeMessage(encoded);
+          if (result.payload.type !== "file" || result.payload.bytes.length !== size) {
+            throw new Error("Extracted payload does not match");
+          }
+        },
+        OPTIONS
+      );
+    });
+  }
+}
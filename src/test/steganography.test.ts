@@ -0,0 +1,422 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodeText,
+  encodeMessage,
+  encodePayload,
+  decodeMessage,
+  openPayloadStream,
+  decodeMessageAsBlob,
+  EncryptedPayloadError,
+  CONTAINER_HEADER_SIZE,
+  calculateCapacity,
+  countAlphaCarriers,
+  estimatePsnr,
+} from "@/lib/steganography";
+import { SecretPayload } from "@/lib/payload";
+
+function createCover(width: number, height: number, seed = 1): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let state = seed;
+  for (let i = 0; i < data.length; i++) {
+    // xorshift32
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    data[i] = i % 4 === 3 ? 255 : state;
+  }
+  return new ImageData(data, width, height);
+}
+
+/** Writes bytes into the RGB LSBs from the first pixel on, the way the oldest encoder did */
+function writeSequentially(image: ImageData, bytes: Uint8Array): ImageData {
+  let channel = 0;
+  for (const byte of bytes) {
+    for (let bit = 7; bit >= 0; bit--) {
+      const index = Math.floor(channel / 3) * 4 + (channel % 3);
+      image.data[index] = (image.data[index] & 0xFE) | ((byte >> bit) & 1);
+      channel++;
+    }
+  }
+  return image;
+}
+
+describe("legacy messages", () => {
+  it("decodes text up to the delimiter, control characters included", () => {
+    const text = "line one\r\nline\ttwo \x01\x1b[0m";
+    const image = writeSequentially(createCover(40, 40), new TextEncoder().encode(`${text}$$END$$`));
+    expect(decodeText(image)).toBe(text);
+  });
+
+  it("gives up on bits that are not UTF-8 text", () => {
+    const image = writeSequentially(createCover(40, 40), new Uint8Array([0x41, 0x42, 0xFF, 0x43]));
+    expect(() => decodeText(image)).toThrow("No hidden message found in this image");
+  });
+});
+
+/** Flips the red LSB of a pixel counted from where a plain 1-bit body starts */
+function flipBodyBit(image: ImageData, bodyPixel: number): void {
+  const pixel = Math.ceil((CONTAINER_HEADER_SIZE * 8) / 3) + bodyPixel;
+  image.data[pixel * 4] ^= 1;
+}
+
+describe("passphrase sealing", () => {
+  it("round-trips a message sealed with a passphrase", async () => {
+    const image = await encodeMessage(createCover(60, 60), "secret ✓", { passphrase: "correct horse" });
+    const result = await decodeMessage(image, { passphrase: "correct horse" });
+    expect(result.payload).toEqual({ type: "text", text: "secret ✓" });
+    expect(result.encryption).toBe("passphrase");
+    expect(result.integrity).toBe("verified");
+  });
+
+  it("asks for the passphrase and refuses a wrong one", async () => {
+    const image = await encodeMessage(createCover(60, 60), "secret", { passphrase: "correct horse" });
+    await expect(decodeMessage(image)).rejects.toBeInstanceOf(EncryptedPayloadError);
+    expect(() => decodeText(image)).toThrow(EncryptedPayloadError);
+    await expect(decodeMessage(image, { passphrase: "battery staple" })).rejects.toThrow(
+      "Incorrect passphrase or the payload has been tampered with"
+    );
+  });
+
+  it("seals the same message differently every time", async () => {
+    const first = await encodeMessage(createCover(60, 60), "secret", { passphrase: "correct horse" });
+    const second = await encodeMessage(createCover(60, 60), "secret", { passphrase: "correct horse" });
+    expect(Array.from(first.data)).not.toEqual(Array.from(second.data));
+  });
+});
+
+describe("integrity check", () => {
+  it("verifies an intact payload", async () => {
+    const result = await decodeMessage(await encodeMessage(createCover(60, 60), "hello world"));
+    expect(result.integrity).toBe("verified");
+  });
+
+  it("marks a changed payload as corrupted", async () => {
+    const image = await encodeMessage(createCover(60, 60), "hello world");
+    flipBodyBit(image, 10);
+
+    const result = await decodeMessage(image);
+    expect(result.integrity).toBe("corrupted");
+    expect(result.payload).not.toEqual({ type: "text", text: "hello world" });
+    expect(() => decodeText(image)).toThrow("Payload corrupted: the checksum does not match");
+  });
+
+  it("refuses a sealed payload whose bits were changed", async () => {
+    const image = await encodeMessage(createCover(60, 60), "secret", { passphrase: "correct horse" });
+    flipBodyBit(image, 10);
+    await expect(decodeMessage(image, { passphrase: "correct horse" })).rejects.toThrow(
+      "Payload corrupted: the checksum does not match"
+    );
+  });
+
+  it("finds nothing in an image without a payload", async () => {
+    await expect(decodeMessage(createCover(60, 60))).rejects.toThrow("No hidden message found in this image");
+  });
+});
+
+/** Flips the top bit of a stored body byte at 1 bit per channel, after an error-corrected header */
+function flipStoredByte(image: ImageData, byte: number): void {
+  const channel = Math.ceil(((CONTAINER_HEADER_SIZE + 8) * 8) / 3) * 3 + byte * 8;
+  image.data[Math.floor(channel / 3) * 4 + (channel % 3)] ^= 1;
+}
+
+describe("error correction", () => {
+  const text = "Error correction keeps this readable. ".repeat(3);
+
+  it("repairs as many damaged bytes as the level allows", async () => {
+    // A short message is a single block, whose 16 parity bytes repair 8
+    const image = await encodeMessage(createCover(80, 80), text, { eccLevel: "low" });
+    for (let byte = 0; byte < 8; byte++) flipStoredByte(image, byte * 10);
+
+    const result = await decodeMessage(image);
+    expect(result.payload).toEqual({ type: "text", text });
+    expect(result.eccLevel).toBe("low");
+    expect(result.correctedErrors).toBe(8);
+    expect(result.integrity).toBe("verified");
+  });
+
+  it("gives up on more damage than that", async () => {
+    const image = await encodeMessage(createCover(80, 80), text, { eccLevel: "low" });
+    for (let byte = 0; byte < 9; byte++) flipStoredByte(image, byte * 10);
+    await expect(decodeMessage(image)).rejects.toThrow("Hidden message is too damaged to repair");
+  });
+
+  it("repairs a damaged header", async () => {
+    const image = await encodeMessage(createCover(80, 80), text, { eccLevel: "medium" });
+    image.data[0] ^= 1;
+    image.data[40] ^= 1;
+
+    const result = await decodeMessage(image);
+    expect(result.payload).toEqual({ type: "text", text });
+    expect(result.correctedErrors).toBe(2);
+  });
+
+  it("repairs more at higher levels", async () => {
+    const image = await encodeMessage(createCover(80, 80), text, { eccLevel: "high" });
+    for (let byte = 0; byte < 32; byte++) flipStoredByte(image, byte * 3);
+
+    const result = await decodeMessage(image);
+    expect(result.payload).toEqual({ type: "text", text });
+    expect(result.correctedErrors).toBe(32);
+  });
+
+  it("reports no repairs without error correction", async () => {
+    const result = await decodeMessage(await encodeMessage(createCover(80, 80), text));
+    expect(result.eccLevel).toBe("none");
+    expect(result.correctedErrors).toBe(0);
+  });
+});
+
+/** A cover of uniformly random samples, whose low bits change as often as the estimate assumes */
+function createNoiseCover(width: number, height: number): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let state = 1;
+  for (let i = 0; i < data.length; i++) {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    data[i] = i % 4 === 3 ? 255 : state & 0xFF;
+  }
+  return new ImageData(data, width, height);
+}
+
+/** PSNR (dB) of the RGB channels of an encoded image against its cover */
+function measurePsnr(cover: ImageData, image: ImageData): number {
+  let squaredError = 0;
+  for (let i = 0; i < cover.data.length; i++) {
+    if (i % 4 === 3) continue;
+    squaredError += (cover.data[i] - image.data[i]) ** 2;
+  }
+  const mse = squaredError / (cover.width * cover.height * 3);
+  return 10 * Math.log10((255 * 255) / mse);
+}
+
+describe("bits per channel", () => {
+  it.each([2, 3, 4])("round-trips at %i bits per channel without being told the depth", async (bitsPerChannel) => {
+    const cover = createCover(60, 60);
+    const text = "Deeper bits, same message. ".repeat(20);
+    const image = await encodeMessage(cover, text, { bitsPerChannel });
+
+    expect((await decodeMessage(image)).payload).toEqual({ type: "text", text });
+    // Only the low bits of RGB change
+    for (let i = 0; i < cover.data.length; i++) {
+      const changed = cover.data[i] ^ image.data[i];
+      expect(changed >> (i % 4 === 3 ? 0 : bitsPerChannel)).toBe(0);
+    }
+  });
+
+  it("fits a message at more bits per channel that does not fit at fewer", async () => {
+    const text = "x".repeat(calculateCapacity(60, 60) + 1);
+    await expect(encodeMessage(createCover(60, 60), text)).rejects.toThrow("Text too long");
+    const image = await encodeMessage(createCover(60, 60), text, { bitsPerChannel: 2 });
+    expect((await decodeMessage(image)).payload).toEqual({ type: "text", text });
+  });
+
+  it("refuses depths outside 1-4 for 8-bit images", async () => {
+    await expect(encodeMessage(createCover(60, 60), "deep", { bitsPerChannel: 5 })).rejects.toThrow();
+    expect(() => calculateCapacity(60, 60, { bitsPerChannel: 0 })).toThrow();
+  });
+});
+
+describe("estimatePsnr", () => {
+  it.each([1, 2, 3, 4])("is close to the PSNR measured at %i bits per channel", async (bitsPerChannel) => {
+    const cover = createNoiseCover(100, 100);
+    // Sealed, so the stored bits are as random as the estimate assumes
+    const text = "Noise estimate. ".repeat(40);
+    const image = await encodeMessage(cover, text, { bitsPerChannel, passphrase: "psnr" });
+
+    const estimate = estimatePsnr(100, 100, new TextEncoder().encode(text).length, {
+      bitsPerChannel,
+      encrypted: true,
+    });
+    expect(Math.abs(estimate - measurePsnr(cover, image))).toBeLessThan(1);
+  });
+
+  it("drops as the depth or the message grows", () => {
+    expect(estimatePsnr(100, 100, 500, { bitsPerChannel: 2 })).toBeLessThan(estimatePsnr(100, 100, 500));
+    expect(estimatePsnr(100, 100, 1000)).toBeLessThan(estimatePsnr(100, 100, 500));
+  });
+
+  it("is infinite for an empty message", () => {
+    expect(estimatePsnr(100, 100, 0)).toBe(Infinity);
+  });
+});
+
+/** Sets the alpha of every pixel from its index */
+function setAlpha(image: ImageData, alphaOf: (pixel: number) => number): ImageData {
+  for (let pixel = 0; pixel < image.width * image.height; pixel++) {
+    image.data[pixel * 4 + 3] = alphaOf(pixel);
+  }
+  return image;
+}
+
+describe("alpha channel", () => {
+  const headerPixels = Math.ceil((CONTAINER_HEADER_SIZE * 8) / 3);
+
+  it("round-trips through the alpha LSB of an opaque image", async () => {
+    const cover = createCover(60, 60);
+    const text = "Alpha carries a bit too. ".repeat(20);
+    const image = await encodeMessage(cover, text, { alpha: true });
+
+    expect((await decodeMessage(image)).payload).toEqual({ type: "text", text });
+    const alphas = new Set(Array.from({ length: 60 * 60 }, (_, pixel) => image.data[pixel * 4 + 3]));
+    expect(alphas).toEqual(new Set([254, 255]));
+  });
+
+  it("leaves pixels that are not (near-)opaque untouched", async () => {
+    // Every third pixel is half transparent, every fifth almost opaque
+    const cover = setAlpha(createCover(60, 60), (pixel) => (pixel % 3 === 0 ? 128 : pixel % 5 === 0 ? 254 : 255));
+    const text = "Only opaque pixels. ".repeat(20);
+    const image = await encodeMessage(new ImageData(cover.data.slice(), 60, 60), text, { alpha: true });
+
+    expect((await decodeMessage(image)).payload).toEqual({ type: "text", text });
+    for (let pixel = 0; pixel < 60 * 60; pixel++) {
+      const alpha = image.data[pixel * 4 + 3];
+      if (pixel % 3 === 0) expect(alpha).toBe(128);
+      else expect(alpha | 1).toBe(255);
+    }
+    expect(countAlphaCarriers(cover)).toBe(60 * 60 - 60 * 20);
+  });
+
+  it("adds one bit per carrier pixel after the header to the capacity", () => {
+    const bodyPixels = 60 * 60 - headerPixels;
+    const withoutAlpha = calculateCapacity(60, 60);
+    expect(withoutAlpha).toBe(Math.floor((bodyPixels * 3) / 8));
+    expect(calculateCapacity(60, 60, { alpha: true })).toBe(Math.floor((bodyPixels * 4) / 8));
+
+    const carriers = 1000;
+    expect(calculateCapacity(60, 60, { alpha: true, alphaPixels: carriers })).toBe(
+      Math.floor((bodyPixels * 3 + carriers) / 8)
+    );
+  });
+
+  it("fits a message in alpha mode that does not fit without it", async () => {
+    const text = "x".repeat(calculateCapacity(60, 60) + 100);
+    await expect(encodeMessage(createCover(60, 60), text)).rejects.toThrow("Text too long");
+    const image = await encodeMessage(createCover(60, 60), text, { alpha: true });
+    expect((await decodeMessage(image)).payload).toEqual({ type: "text", text });
+  });
+});
+
+function createFile(size: number): Extract<SecretPayload, { type: "file" }> {
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i++) bytes[i] = (i * 7 + (i >> 8)) & 0xFF;
+  return { type: "file", name: "notes.bin", mimeType: "application/octet-stream", bytes };
+}
+
+async function readAll(stream: AsyncIterable<Uint8Array>, chunks: Uint8Array[] = []): Promise<Uint8Array> {
+  for await (const chunk of stream) chunks.push(chunk);
+  const bytes = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+// jsdom's Blob has no arrayBuffer()
+function readBlob(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+describe("payload streams", () => {
+  it("reads a plain file from the pixels in chunks", async () => {
+    const file = createFile(5000);
+    const image = await encodePayload(createCover(160, 160), file);
+
+    const stream = await openPayloadStream(image, { chunkSize: 1000 });
+    expect(stream).toMatchObject({
+      type: "file",
+      name: "notes.bin",
+      mimeType: "application/octet-stream",
+      size: 5000,
+      checked: true,
+      encryption: "none",
+    });
+    const chunks: Uint8Array[] = [];
+    expect(await readAll(stream, chunks)).toEqual(file.bytes);
+    expect(chunks.map((chunk) => chunk.length)).toEqual([1000, 1000, 1000, 1000, 1000]);
+  });
+
+  it("throws on a checksum mismatch before yielding the last chunk", async () => {
+    const image = await encodePayload(createCover(160, 160), createFile(5000));
+    flipBodyBit(image, 300);
+
+    const chunks: Uint8Array[] = [];
+    await expect(readAll(await openPayloadStream(image, { chunkSize: 1000 }), chunks)).rejects.toThrow(
+      "Payload corrupted: the checksum does not match"
+    );
+    expect(chunks).toHaveLength(4);
+  });
+
+  it("can only be read once", async () => {
+    const image = await encodePayload(createCover(40, 40), { type: "text", text: "once" });
+    const stream = await openPayloadStream(image);
+
+    expect(new TextDecoder().decode(await readAll(stream))).toBe("once");
+    await expect(readAll(stream)).rejects.toThrow("A payload stream can only be read once");
+  });
+
+  it("rejects chunk sizes that are not positive whole numbers", async () => {
+    const image = await encodePayload(createCover(40, 40), { type: "text", text: "sized" });
+    await expect(openPayloadStream(image, { chunkSize: 0 })).rejects.toThrow(
+      "Chunk size must be a positive whole number of bytes"
+    );
+  });
+
+  it.each([
+    ["encrypted", { passphrase: "correct horse" }],
+    ["compressed", { compress: true }],
+    ["error-corrected", { eccLevel: "medium" as const }],
+  ])("decodes %s payloads whole and hands them out in chunks", async (_, options) => {
+    const file = { ...createFile(3000), bytes: new Uint8Array(3000).fill(42) };
+    const image = await encodePayload(createCover(160, 160), file, options);
+
+    const stream = await openPayloadStream(image, { ...options, chunkSize: 1024 });
+    expect(stream).toMatchObject({ type: "file", name: "notes.bin", size: 3000, checked: true });
+    expect(stream.encryption).toBe("passphrase" in options ? "passphrase" : "none");
+    expect(stream.eccLevel).toBe("eccLevel" in options ? "medium" : "none");
+    const chunks: Uint8Array[] = [];
+    expect(await readAll(stream, chunks)).toEqual(file.bytes);
+    expect(chunks.map((chunk) => chunk.length)).toEqual([1024, 1024, 952]);
+  });
+});
+
+describe("decodeMessageAsBlob", () => {
+  it("streams a file into a Blob", async () => {
+    const file = createFile(5000);
+    const result = await decodeMessageAsBlob(await encodePayload(createCover(160, 160), file));
+
+    expect(result.integrity).toBe("verified");
+    expect(result.payload.type).toBe("file");
+    if (result.payload.type === "file") {
+      expect(result.payload.name).toBe("notes.bin");
+      expect(result.payload.blob.type).toBe("application/octet-stream");
+      expect(await readBlob(result.payload.blob)).toEqual(file.bytes);
+    }
+  });
+
+  it("decodes text", async () => {
+    const image = await encodePayload(createCover(60, 60), { type: "text", text: "héllo ✓ wörld" });
+    expect((await decodeMessageAsBlob(image)).payload).toEqual({ type: "text", text: "héllo ✓ wörld" });
+  });
+
+  it("returns a damaged file whole, marked corrupted", async () => {
+    const file = createFile(5000);
+    const image = await encodePayload(createCover(160, 160), file);
+    flipBodyBit(image, 300);
+
+    const result = await decodeMessageAsBlob(image);
+    expect(result.integrity).toBe("corrupted");
+    if (result.payload.type === "file") {
+      const bytes = await readBlob(result.payload.blob);
+      expect(bytes).toHaveLength(5000);
+      expect(bytes).not.toEqual(file.bytes);
+    }
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { encodeAudioInWorker, decodeAudioInWorker, TaskCancelledError } from "@/lib/stegoEngine";
+import { EncryptedPayloadError } from "@/lib/steganography";
+import { AudioCarrier } from "@/lib/audioSteganography";
+import { encodeWav, parseWav } from "@/lib/wav";
+
+function createAudio(bytes: Uint8Array): AudioCarrier {
+  const info = parseWav(bytes);
+  const sampleCount = info.dataLength / 2;
+  return { bytes, info, sampleCount, duration: sampleCount / info.channels / info.sampleRate, converted: false };
+}
+
+function createTone(sampleCount: number): AudioCarrier {
+  const samples = new Int16Array(sampleCount).map((_, i) => Math.round(8000 * Math.sin(i / 7)));
+  return createAudio(encodeWav(samples, 2, 44100));
+}
+
+// jsdom's Blob has no arrayBuffer()
+function readBlob(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+// Without Web Workers in jsdom, the engine runs its tasks on the page
+describe("audio tasks", () => {
+  it("encode and decode a message, reporting progress", async () => {
+    const audio = createTone(30000);
+    const progress: number[] = [];
+    const blob = await encodeAudioInWorker(
+      audio,
+      { type: "text", text: "off the main thread" },
+      { passphrase: "audio" },
+      { onProgress: (value) => progress.push(value) }
+    );
+    expect(blob.type).toBe("audio/wav");
+    expect(progress.at(-1)).toBe(100);
+
+    const encoded = createAudio(await readBlob(blob));
+    await expect(decodeAudioInWorker(encoded, {})).rejects.toBeInstanceOf(EncryptedPayloadError);
+    const result = await decodeAudioInWorker(encoded, { passphrase: "audio" });
+    expect(result.payload).toEqual({ type: "text", text: "off the main thread" });
+    expect(result.integrity).toBe("verified");
+  });
+
+  it("rejects a cancelled task", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      decodeAudioInWorker(createTone(3000), {}, { signal: controller.signal })
+    ).rejects.toBeInstanceOf(TaskCancelledError);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { encodeTiff, decodeTiff, isTiff } from "@/lib/tiff";
+import { encodeMessage, decodeMessage } from "@/lib/steganography";
+
+function createImage(width: number, height: number, transparent: boolean): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4).map((_, i) => (i * 37 + (i >> 7)) & 0xFF);
+  if (!transparent) for (let i = 3; i < data.length; i += 4) data[i] = 255;
+  return new ImageData(data, width, height);
+}
+
+/** A big-endian, min-is-white grayscale TIFF with its pixels in two strips */
+function createGrayTiff(width: number, height: number, pixels: number[]): Uint8Array {
+  const entries = [
+    [256, 3, width],
+    [257, 3, height],
+    [258, 3, 8],
+    [259, 3, 1],
+    [262, 3, 0],
+    [273, 4, 0],
+    [277, 3, 1],
+    [279, 4, 0],
+  ];
+  const ifdSize = 2 + entries.length * 12 + 4;
+  const dataOffset = 8 + ifdSize;
+  const half = Math.floor(pixels.length / 2);
+  const bytes = new Uint8Array(dataOffset + pixels.length + 16);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x4D, 0x4D, 0, 42]);
+  view.setUint32(4, 8);
+  view.setUint16(8, entries.length);
+
+  // Both strip tags point at two-value arrays after the pixels
+  const arrays = dataOffset + pixels.length;
+  view.setUint32(arrays, dataOffset);
+  view.setUint32(arrays + 4, dataOffset + half);
+  view.setUint32(arrays + 8, half);
+  view.setUint32(arrays + 12, pixels.length - half);
+  entries.forEach(([tag, type, value], index) => {
+    const position = 10 + index * 12;
+    view.setUint16(position, tag);
+    view.setUint16(position + 2, type);
+    if (tag === 273 || tag === 279) {
+      view.setUint32(position + 4, 2);
+      view.setUint32(position + 8, tag === 273 ? arrays : arrays + 8);
+    } else {
+      view.setUint32(position + 4, 1);
+      view.setUint16(position + 8, value);
+    }
+  });
+  bytes.set(pixels, dataOffset);
+  return bytes;
+}
+
+describe("TIFF", () => {
+  it.each([
+    [1, 1],
+    [3, 5],
+    [17, 9],
+  ])("round-trips a %ix%i image, with and without transparency", (width, height) => {
+    for (const transparent of [false, true]) {
+      const image = createImage(width, height, transparent);
+      const bytes = encodeTiff(image);
+      expect(isTiff(bytes)).toBe(true);
+
+      const decoded = decodeTiff(bytes);
+      expect([decoded.width, decoded.height]).toEqual([width, height]);
+      expect(Array.from(decoded.data)).toEqual(Array.from(image.data));
+    }
+  });
+
+  it("reads big-endian grayscale files split into strips", () => {
+    const decoded = decodeTiff(createGrayTiff(3, 2, [0, 10, 20, 30, 40, 255]));
+    expect([decoded.width, decoded.height]).toEqual([3, 2]);
+    expect(Array.from(decoded.data.filter((_, i) => i % 4 === 0))).toEqual([255, 245, 235, 225, 215, 0]);
+    expect(decoded.data[3]).toBe(255);
+  });
+
+  it("carries a hidden message", async () => {
+    const image = await encodeMessage(createImage(60, 60, false), "kept in a TIFF", { alpha: true });
+    const result = await decodeMessage(decodeTiff(encodeTiff(image)));
+    expect(result.payload).toEqual({ type: "text", text: "kept in a TIFF" });
+  });
+
+  it("rejects compressed and truncated files", () => {
+    const gray = createGrayTiff(3, 2, [0, 10, 20, 30, 40, 255]);
+    // Cut in the strip offsets, then in the pixels of a file whose IFD is intact
+    expect(() => decodeTiff(gray.subarray(0, gray.length - 10))).toThrow("TIFF file is truncated");
+    const rgb = encodeTiff(createImage(4, 4, false));
+    expect(() => decodeTiff(rgb.subarray(0, rgb.length - 1))).toThrow("TIFF file is truncated");
+
+    const compressed = encodeTiff(createImage(4, 4, false));
+    const view = new DataView(compressed.buffer);
+    const ifd = view.getUint32(4, true);
+    for (let index = 0; index < view.getUint16(ifd, true); index++) {
+      const position = ifd + 2 + index * 12;
+      if (view.getUint16(position, true) === 259) view.setUint16(position + 8, 5, true);
+    }
+    expect(() => decodeTiff(compressed)).toThrow(
+      "Only uncompressed 8-bit RGB and grayscale TIFF images are supported"
+    );
+    expect(() => decodeTiff(new Uint8Array(16))).toThrow("Not a TIFF file");
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect } from "vitest";
+import { demuxVideo, DemuxedVideo } from "@/lib/videoDemux";
+
+type Bytes = number[];
+
+function uint32(value: number): Bytes {
+  return [value >>> 24, (value >> 16) & 0xFF, (value >> 8) & 0xFF, value & 0xFF];
+}
+
+function text(value: string): Bytes {
+  return [...value].map((char) => char.charCodeAt(0));
+}
+
+function box(type: string, ...children: Bytes[]): Bytes {
+  const body = children.flat();
+  return [...uint32(8 + body.length), ...text(type), ...body];
+}
+
+/** A full box: version and flags, then the fields */
+function fullBox(type: string, version: number, ...fields: Bytes[]): Bytes {
+  return box(type, [version, 0, 0, 0], ...fields);
+}
+
+function table(type: string, rows: number[][], version = 0): Bytes {
+  return fullBox(type, version, uint32(rows.length), ...rows.map((row) => row.flatMap(uint32)));
+}
+
+// Five samples, in two chunks of three and two with a gap between them
+const MP4_SAMPLES = [
+  [1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
+  [2, 2, 2, 2],
+  [3, 3, 3, 3, 3, 3],
+  [4, 4, 4, 4, 4, 4, 4, 4],
+  [5, 5, 5, 5, 5],
+];
+const MP4_GAP = [0, 0, 0, 0, 0, 0, 0];
+
+function createMoov(chunkOffsets: number[], withSyncTable: boolean): Bytes {
+  const avcC = box("avcC", [1, 0x64, 0x00, 0x1F, 0xFF, 0xE0]);
+  // Visual sample entry: reserved fields, width 320 and height 240, then 50 more bytes
+  const entry = box(
+    "avc1",
+    new Array(24).fill(0),
+    [0x01, 0x40, 0x00, 0xF0],
+    new Array(50).fill(0),
+    avcC
+  );
+  const stbl = box(
+    "stbl",
+    fullBox("stsd", 0, uint32(1), entry),
+    // 40 ms a frame at a timescale of 1000
+    table("stts", [[5, 40]]),
+    // Frame 2 shows after 3 and 4, as with B-frames
+    table("ctts", [[1, 40], [1, 120], [2, 0], [1, 40]]),
+    ...(withSyncTable ? [table("stss", [[1], [4]])] : []),
+    table("stsc", [[1, 3, 1], [2, 2, 1]]),
+    fullBox("stsz", 0, uint32(0), uint32(MP4_SAMPLES.length), ...MP4_SAMPLES.map((sample) => uint32(sample.length))),
+    table("stco", chunkOffsets.map((offset) => [offset]))
+  );
+  return box(
+    "moov",
+    box(
+      "trak",
+      box(
+        "mdia",
+        fullBox("mdhd", 0, uint32(0), uint32(0), uint32(1000), uint32(200)),
+        fullBox("hdlr", 0, uint32(0), text("vide"), new Array(12).fill(0)),
+        box("minf", stbl)
+      )
+    )
+  );
+}
+
+/** An MP4 with its samples in an mdat box, before or after the moov box */
+function createMp4({ moovFirst = false, withSyncTable = true } = {}): Uint8Array {
+  const ftyp = box("ftyp", text("isom"), uint32(0), text("isomavc1"));
+  const mdat = box("mdat", ...MP4_SAMPLES.slice(0, 3), MP4_GAP, ...MP4_SAMPLES.slice(3));
+  const moovLength = createMoov([0, 0], withSyncTable).length;
+  const mdatBody = ftyp.length + (moovFirst ? moovLength : 0) + 8;
+  const chunkOffsets = [mdatBody, mdatBody + 20 + MP4_GAP.length];
+  const moov = createMoov(chunkOffsets, withSyncTable);
+  return new Uint8Array(moovFirst ? [...ftyp, ...moov, ...mdat] : [...ftyp, ...mdat, ...moov]);
+}
+
+/** The bytes each sample points at */
+function readSamples(bytes: Uint8Array, video: DemuxedVideo): number[][] {
+  return video.samples.map((sample) => Array.from(bytes.subarray(sample.offset, sample.offset + sample.size)));
+}
+
+function demux(bytes: Uint8Array): DemuxedVideo | null {
+  return demuxVideo(bytes.slice().buffer);
+}
+
+describe("MP4 demuxing", () => {
+  it("finds every sample's bytes, times and key-frame flag", () => {
+    const bytes = createMp4();
+    const video = demux(bytes) as DemuxedVideo;
+    expect(video).toMatchObject({ codec: "avc1.64001f", width: 320, height: 240, fps: 25, duration: 0.2 });
+    expect(Array.from(video.description as Uint8Array)).toEqual([1, 0x64, 0x00, 0x1F, 0xFF, 0xE0]);
+
+    expect(readSamples(bytes, video)).toEqual(MP4_SAMPLES);
+    // Decode time plus the composition offset
+    expect(video.samples.map((sample) => sample.timestamp)).toEqual([40000, 160000, 80000, 120000, 200000]);
+    expect(video.samples.map((sample) => sample.duration)).toEqual([40000, 40000, 40000, 40000, 40000]);
+    expect(video.samples.map((sample) => sample.isKey)).toEqual([true, false, false, true, false]);
+  });
+
+  it("treats every sample as a key frame without a sync sample table", () => {
+    const video = demux(createMp4({ withSyncTable: false })) as DemuxedVideo;
+    expect(video.samples.every((sample) => sample.isKey)).toBe(true);
+  });
+
+  it("keeps the complete samples of a file cut off in its media data", () => {
+    const bytes = createMp4({ moovFirst: true });
+    const video = demux(bytes) as DemuxedVideo;
+    expect(readSamples(bytes, video)).toEqual(MP4_SAMPLES);
+
+    const cut = bytes.subarray(0, bytes.length - 3);
+    expect(readSamples(cut, demux(cut) as DemuxedVideo)).toEqual(MP4_SAMPLES.slice(0, 4));
+  });
+
+  it("gives up on a file cut off before its movie box ends", () => {
+    const bytes = createMp4();
+    expect(demux(bytes.subarray(0, bytes.length - 10))).toBeNull();
+    expect(demux(bytes.subarray(0, 6))).toBeNull();
+  });
+});
+
+function vint(value: number): Bytes {
+  if (value < 0x7F) return [0x80 | value];
+  return [0x40 | (value >> 8), value & 0xFF];
+}
+
+function element(id: number, ...children: Bytes[]): Bytes {
+  const body = children.flat();
+  // IDs keep their length marker, so their size follows from their value
+  const idLength = id > 0xFFFFFF ? 4 : id > 0xFFFF ? 3 : id > 0xFF ? 2 : 1;
+  return [...uint32(id).slice(4 - idLength), ...vint(body.length), ...body];
+}
+
+function uintElement(id: number, value: number): Bytes {
+  return element(id, uint32(value));
+}
+
+/** A SimpleBlock or Block body: track number, timecode relative to the cluster, flags, frame */
+function blockBody(track: number, time: number, flags: number, frame: Bytes): Bytes {
+  return [0x80 | track, (time >> 8) & 0xFF, time & 0xFF, flags, ...frame];
+}
+
+const WEBM_FRAMES = [[0xA, 0xA, 0xA], [0xB, 0xB], [0xC, 0xC, 0xC, 0xC], [0xD]];
+
+/** A WebM in a segment and cluster of unknown size, as live recordings write them */
+function createWebm({ laced = false } = {}): Uint8Array {
+  const videoTrack = element(
+    0xAE,
+    uintElement(0xD7, 1),
+    uintElement(0x83, 1),
+    element(0x86, text("V_VP9")),
+    uintElement(0x23E383, 40_000_000),
+    element(0xE0, uintElement(0xB0, 320), uintElement(0xBA, 240))
+  );
+  const audioTrack = element(0xAE, uintElement(0xD7, 2), uintElement(0x83, 2), element(0x86, text("A_OPUS")));
+  const firstCluster = element(
+    0x1F43B675,
+    uintElement(0xE7, 0),
+    element(0xA3, blockBody(1, 0, laced ? 0x82 : 0x80, WEBM_FRAMES[0])),
+    element(0xA3, blockBody(2, 0, 0x80, [0xEE, 0xEE])),
+    element(0xA3, blockBody(1, 40, 0x00, WEBM_FRAMES[1])),
+    // A Block that references another frame is not a key frame
+    element(0xA0, element(0xA1, blockBody(1, 80, 0, WEBM_FRAMES[2])), element(0xFB, [0xD8]))
+  );
+  const lastCluster = [
+    ...uint32(0x1F43B675),
+    0x01, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF,
+    ...uintElement(0xE7, 120),
+    ...element(0xA3, blockBody(1, 0, 0x80, WEBM_FRAMES[3])),
+  ];
+  return new Uint8Array([
+    ...element(0x1A45DFA3, element(0x4282, text("webm"))),
+    ...uint32(0x18538067),
+    0x01, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF,
+    ...element(0x1549A966, element(0x2AD7B1, [0x0F, 0x42, 0x40])),
+    ...element(0x1654AE6B, videoTrack, audioTrack),
+    ...firstCluster,
+    ...lastCluster,
+  ]);
+}
+
+describe("WebM demuxing", () => {
+  it("reads the video track's blocks with their times and key-frame flags", () => {
+    const bytes = createWebm();
+    const video = demux(bytes) as DemuxedVideo;
+    expect(video).toMatchObject({ codec: "vp09.00.10.08", width: 320, height: 240, fps: 25 });
+
+    expect(readSamples(bytes, video)).toEqual(WEBM_FRAMES);
+    expect(video.samples.map((sample) => sample.timestamp)).toEqual([0, 40000, 80000, 120000]);
+    expect(video.samples.map((sample) => sample.isKey)).toEqual([true, false, false, true]);
+    expect(video.samples.every((sample) => sample.duration === 40000)).toBe(true);
+  });
+
+  it("leaves out a block cut off at the end of the file", () => {
+    const bytes = createWebm();
+    for (const cut of [1, 3, 6, 7]) {
+      const truncated = bytes.subarray(0, bytes.length - cut);
+      expect(readSamples(truncated, demux(truncated) as DemuxedVideo)).toEqual(WEBM_FRAMES.slice(0, 3));
+    }
+  });
+
+  it("rejects laced video blocks", () => {
+    expect(() => demux(createWebm({ laced: true }))).toThrow("Laced WebM video blocks are not supported");
+  });
+
+  it("ignores other containers", () => {
+    expect(demux(new Uint8Array(64))).toBeNull();
+  });
+});
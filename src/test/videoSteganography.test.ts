@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { encodeTextInFrames, decodeTextFromFrames, calculateVideoCapacity, VideoFrame } from "@/lib/videoSteganography";
+import { decodeChunk } from "@/lib/steganography";
+
+function createFrames(count: number, seed = 0): VideoFrame[] {
+  return Array.from({ length: count }, (_, index) => {
+    const data = new Uint8ClampedArray(40 * 30 * 4).map((_, i) =>
+      i % 4 === 3 ? 255 : (i * 29 + index * 7 + seed) & 0xFF
+    );
+    return { imageData: new ImageData(data, 40, 30), timestamp: index / 25 };
+  });
+}
+
+// Over the 256-byte minimum chunk, so it is striped over four frames
+const text = "Striped over several frames. ".repeat(35);
+
+function countCarriers(frames: VideoFrame[]): number {
+  return frames.filter((frame) => decodeChunk(frame.imageData)).length;
+}
+
+describe("striped video messages", () => {
+  it("stripes a long message over several frames and leaves the rest alone", () => {
+    const frames = createFrames(6);
+    const encoded = encodeTextInFrames(frames, text);
+    expect(countCarriers(encoded)).toBe(4);
+    expect(encoded[5].imageData).toBe(frames[5].imageData);
+    expect(decodeTextFromFrames(encoded)).toBe(text);
+  });
+
+  it("reassembles the frames in any order", () => {
+    const encoded = encodeTextInFrames(createFrames(6), text);
+    const shuffled = [encoded[3], encoded[5], encoded[1], encoded[0], encoded[4], encoded[2]];
+    expect(decodeTextFromFrames(shuffled)).toBe(text);
+  });
+
+  it("reports how many carrier frames are missing", () => {
+    const encoded = encodeTextInFrames(createFrames(6), text);
+    expect(() => decodeTextFromFrames([encoded[0], encoded[2], encoded[3]])).toThrow(
+      "Only 3 of 4 frames carrying the hidden message were found"
+    );
+  });
+
+  it("ignores chunks from another encoding", () => {
+    const encoded = encodeTextInFrames(createFrames(6), text);
+    const other = encodeTextInFrames(createFrames(6, 1), "Another message. ".repeat(40));
+
+    expect(decodeTextFromFrames([other[1], ...encoded, other[0]])).toBe(text);
+    // A chunk at the same position in another stream does not fill the gap
+    expect(() => decodeTextFromFrames([encoded[0], other[1], encoded[2], encoded[3]])).toThrow(
+      "Only 3 of 4 frames carrying the hidden message were found"
+    );
+  });
+
+  it("keeps a short message in a single frame", () => {
+    const encoded = encodeTextInFrames(createFrames(6), "short");
+    expect(countCarriers(encoded)).toBe(1);
+    expect(decodeTextFromFrames(encoded.slice().reverse())).toBe("short");
+  });
+
+  it("refuses a message longer than the frames hold", () => {
+    const frames = createFrames(2);
+    expect(() => encodeTextInFrames(frames, "x".repeat(calculateVideoCapacity(frames) + 1))).toThrow(
+      `Text too long. Maximum capacity: ${calculateVideoCapacity(frames)} characters`
+    );
+    expect(() => decodeTextFromFrames(createFrames(2))).toThrow("No hidden message found in this video");
+  });
+});
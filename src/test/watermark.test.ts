@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { embedWatermark, decodeWatermark, canWatermark } from "@/lib/watermark";
+
+// 24 x 18 blocks, just enough for one copy of the packet
+const WIDTH = 192;
+const HEIGHT = 144;
+
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    // xorshift32
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 2 ** 32;
+  };
+}
+
+/** A smooth, textured frame kept away from 0 and 255 so noise is never clipped */
+function createFrame(seed: number): ImageData {
+  const random = createRandom(seed);
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const i = (y * WIDTH + x) * 4;
+      const base = 128 + 40 * Math.sin(x / 11 + seed) * Math.cos(y / 7) + (random() - 0.5) * 10;
+      data.set([base + 8, base, base - 8, 255], i);
+    }
+  }
+  return new ImageData(data, WIDTH, HEIGHT);
+}
+
+/** Adds independent noise of up to ±amount to every colour sample, as lossy re-encoding would */
+function addNoise(frame: ImageData, amount: number, seed: number): ImageData {
+  const random = createRandom(seed);
+  const data = frame.data.map((value, i) => (i % 4 === 3 ? value : value + Math.round((random() * 2 - 1) * amount)));
+  return new ImageData(data, frame.width, frame.height);
+}
+
+describe("watermark", () => {
+  it("reads back from an untouched frame with full confidence", () => {
+    const result = decodeWatermark([embedWatermark(createFrame(1), "© StegoVault 2026")]);
+    expect(result.message).toBe("© StegoVault 2026");
+    expect(result.confidence).toBeCloseTo(1, 2);
+    expect(result.correctedErrors).toBe(0);
+  });
+
+  it("repairs the bits mild noise flips, with lower confidence", () => {
+    const frames = [0, 1, 2].map((i) => addNoise(embedWatermark(createFrame(2 + i), "camera 7"), 16, 99 + i));
+    const single = decodeWatermark(frames.slice(0, 1));
+    expect(single.message).toBe("camera 7");
+    expect(single.correctedErrors).toBeGreaterThan(0);
+
+    // A bit voted on once always agrees with itself; several frames show the doubt
+    const result = decodeWatermark(frames);
+    expect(result.message).toBe("camera 7");
+    expect(result.confidence).toBeGreaterThan(0.95);
+    expect(result.confidence).toBeLessThan(1);
+  });
+
+  it("votes strong noise away over enough frames, but not in a single one", () => {
+    const frames = Array.from({ length: 20 }, (_, i) =>
+      addNoise(embedWatermark(createFrame(10 + i), "frame vote"), 60, 500 + i)
+    );
+    expect(() => decodeWatermark(frames.slice(0, 1))).toThrow("No watermark found in this video");
+
+    const result = decodeWatermark(frames);
+    expect(result.message).toBe("frame vote");
+    expect(result.confidence).toBeGreaterThan(0.5);
+    expect(result.confidence).toBeLessThan(0.9);
+  });
+
+  it("finds nothing in an unmarked frame", () => {
+    expect(() => decodeWatermark([createFrame(3)])).toThrow("No watermark found in this video");
+  });
+
+  it("rejects long messages and small frames", () => {
+    expect(() => embedWatermark(createFrame(4), "x".repeat(33))).toThrow("Watermark too long. Maximum: 32 bytes");
+    expect(canWatermark(WIDTH, HEIGHT)).toBe(true);
+    expect(canWatermark(WIDTH, HEIGHT - 8)).toBe(false);
+    expect(() => embedWatermark(new ImageData(new Uint8ClampedArray(64 * 64 * 4), 64, 64), "x")).toThrow(
+      "Video is too small to hold a watermark"
+    );
+  });
+});
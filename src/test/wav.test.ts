@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { encodeWav, parseWav, isWav } from "@/lib/wav";
+
+/** A WAV file with a LIST chunk of odd size before the samples and one after them */
+function createWavWithChunks(samples: Int16Array): Uint8Array {
+  const plain = encodeWav(samples, 1, 8000);
+  const list = [..."LIST", 3, 0, 0, 0, ..."abc", 0];
+  const trailer = [..."id3 ", 2, 0, 0, 0, 1, 2];
+  const toBytes = (values: (string | number)[]) =>
+    values.map((value) => (typeof value === "string" ? value.charCodeAt(0) : value));
+
+  const bytes = new Uint8Array([
+    ...plain.subarray(0, 36),
+    ...toBytes(list),
+    ...plain.subarray(36),
+    ...toBytes(trailer),
+  ]);
+  new DataView(bytes.buffer).setUint32(4, bytes.length - 8, true);
+  return bytes;
+}
+
+describe("WAV", () => {
+  it("reads back what it writes", () => {
+    const samples = new Int16Array([0, 1, -1, 32767, -32768, 1234]);
+    const bytes = encodeWav(samples, 2, 44100);
+    expect(isWav(bytes)).toBe(true);
+
+    const info = parseWav(bytes);
+    expect(info).toEqual({ channels: 2, sampleRate: 44100, bitsPerSample: 16, dataOffset: 44, dataLength: 12 });
+    const view = new DataView(bytes.buffer, info.dataOffset, info.dataLength);
+    expect(Array.from(samples, (_, i) => view.getInt16(i * 2, true))).toEqual(Array.from(samples));
+  });
+
+  it("skips other chunks, padding included", () => {
+    const info = parseWav(createWavWithChunks(new Int16Array([5, 6, 7])));
+    expect(info.dataOffset).toBe(44 + 12);
+    expect(info.dataLength).toBe(6);
+  });
+
+  it("takes the rest of the file when the data size is unset", () => {
+    const bytes = encodeWav(new Int16Array(10), 1, 8000);
+    new DataView(bytes.buffer).setUint32(40, 0, true);
+    expect(parseWav(bytes).dataLength).toBe(20);
+  });
+
+  it("rejects files it can't read", () => {
+    expect(() => parseWav(new Uint8Array(44))).toThrow("Not a WAV file");
+
+    const compressed = encodeWav(new Int16Array(4), 1, 8000);
+    new DataView(compressed.buffer).setUint16(20, 3, true);
+    expect(() => parseWav(compressed)).toThrow("Only uncompressed PCM WAV files are supported");
+
+    expect(() => parseWav(encodeWav(new Int16Array(4), 1, 8000).subarray(0, 36))).toThrow(
+      "WAV file has no audio data"
+    );
+  });
+});
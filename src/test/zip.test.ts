@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { createZip, uniqueZipNames } from "@/lib/zip";
+import { crc32 } from "@/lib/crc32";
+
+interface ReadEntry {
+  name: string;
+  bytes: Uint8Array;
+  checksum: number;
+  time: number;
+  date: number;
+}
+
+/** Reads the entries back the way unzip tools do: from the central directory to each local header */
+function readZip(zip: Uint8Array): ReadEntry[] {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054B50);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  expect(offset + view.getUint32(end + 12, true)).toBe(end);
+
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014B50);
+    const nameLength = view.getUint16(offset + 28, true);
+    const name = decoder.decode(zip.subarray(offset + 46, offset + 46 + nameLength));
+    const local = view.getUint32(offset + 42, true);
+
+    // The local header repeats what the central directory says
+    expect(view.getUint32(local, true)).toBe(0x04034B50);
+    expect(Array.from(zip.subarray(local + 4, local + 30))).toEqual(Array.from(zip.subarray(offset + 6, offset + 32)));
+    expect(view.getUint16(local + 8, true)).toBe(0); // stored
+    const size = view.getUint32(local + 18, true);
+    const start = local + 30 + nameLength;
+    entries.push({
+      name,
+      bytes: zip.subarray(start, start + size),
+      checksum: view.getUint32(local + 14, true),
+      time: view.getUint16(local + 10, true),
+      date: view.getUint16(local + 12, true),
+    });
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe("createZip", () => {
+  it("stores each file with its name, checksum and date", () => {
+    const files = [
+      { name: "holiday_encoded.png", bytes: new Uint8Array(1000).map((_, i) => (i * 7) & 0xFF) },
+      { name: "empty.bmp", bytes: new Uint8Array(0) },
+      { name: "ünï cödé.tif", bytes: new Uint8Array([1, 2, 3]) },
+    ];
+    const entries = readZip(createZip(files, new Date(2026, 9, 19, 13, 45, 31)));
+
+    expect(entries.map((entry) => entry.name)).toEqual(files.map((file) => file.name));
+    entries.forEach((entry, i) => {
+      expect(Array.from(entry.bytes)).toEqual(Array.from(files[i].bytes));
+      expect(entry.checksum).toBe(crc32(files[i].bytes));
+      // MS-DOS time counts seconds in twos
+      expect(entry.time).toBe((13 << 11) | (45 << 5) | 15);
+      expect(entry.date).toBe(((2026 - 1980) << 9) | (10 << 5) | 19);
+    });
+  });
+
+  it("writes an empty archive as just the end of the central directory", () => {
+    const zip = createZip([]);
+    expect(zip.length).toBe(22);
+    expect(readZip(zip)).toEqual([]);
+  });
+});
+
+describe("uniqueZipNames", () => {
+  it("numbers repeated names, ignoring case", () => {
+    expect(uniqueZipNames(["a.png", "A.png", "a.png", "notes", "notes", "a (2).png"])).toEqual([
+      "a.png",
+      "A (2).png",
+      "a (3).png",
+      "notes",
+      "notes (2)",
+      "a (2) (2).png",
+    ]);
+  });
+});